@@ -0,0 +1,251 @@
+import { Contract, type Provider } from "ethers";
+import {
+  MAX_MEDIA_ATTACHMENT_BYTES,
+  MEDIA_FETCH_TIMEOUT_MS,
+  OPENSEA_ASSET_BASE,
+} from "../config/constants";
+import { createLogger } from "../lib/logger";
+import type { CollectionConfig, Log, NFT, NFTTrait } from "../lib/types";
+import {
+  getGatewayUrls,
+  normalizeMediaUrl,
+  readBodyWithLimit,
+} from "../lib/utils";
+import { getRpcProvider, withRpcTimeout } from "./rpc";
+
+const log = createLogger("Onchain");
+
+/** ERC-721 and ERC-1155 calls used to read tokens */
+const NFT_ABI = [
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function tokenURI(uint256 tokenId) view returns (string)",
+  "function uri(uint256 id) view returns (string)",
+];
+
+/** ERC-165 interface ID for ERC-1155 */
+const ERC1155_INTERFACE_ID = "0xd9b67a26";
+
+/** Length of the hex token ID substituted for {id} in ERC-1155 URIs */
+const ERC1155_ID_LENGTH = 64;
+
+/** Token standard by chain and contract (detected once per contract) */
+const standards = new Map<string, "erc721" | "erc1155">();
+
+/** Token metadata JSON (ERC-721 and ERC-1155 metadata standards) */
+type TokenMetadata = {
+  name?: string;
+  image?: string;
+  image_url?: string;
+  animation_url?: string;
+  attributes?: { trait_type?: string; value?: string | number }[];
+};
+
+/** Prefix of SVG images embedded in metadata */
+const SVG_DATA_URI_PREFIX = "data:image/svg+xml";
+
+const DATA_URI_PATTERN = /^data:([^,]*),(.*)$/s;
+const ID_PLACEHOLDER_PATTERN = /{id}/g;
+
+/**
+ * Decode the contents of a data: URI (base64 or URL-encoded)
+ * Returns undefined if the URI isn't a data: URI.
+ */
+export const decodeDataUri = (uri: string): string | undefined => {
+  const [, meta, data] = DATA_URI_PATTERN.exec(uri) ?? [];
+  if (meta === undefined || data === undefined) {
+    return;
+  }
+  if (meta.endsWith(";base64")) {
+    return Buffer.from(data, "base64").toString("utf8");
+  }
+  try {
+    return decodeURIComponent(data);
+  } catch {
+    // Some contracts put raw JSON (with stray % signs) in utf8 data URIs
+    return data;
+  }
+};
+
+/**
+ * Get an HTTP(S) URL for a media URI, if it has one
+ * data: URIs can't be shown in Discord embeds.
+ */
+const toHttpUrl = (uri: string | undefined): string | undefined => {
+  const normalized = uri ? normalizeMediaUrl(uri) : undefined;
+  return normalized?.startsWith("http") ? normalized : undefined;
+};
+
+/**
+ * Get the image URL to keep for a media URI
+ * SVG data: URIs are kept so they can be rendered to PNGs.
+ */
+const toImageUrl = (uri: string | undefined): string | undefined =>
+  uri?.startsWith(SVG_DATA_URI_PREFIX) ? uri : toHttpUrl(uri);
+
+/**
+ * Download a metadata document
+ * Returns undefined if the request fails or the document is too large
+ * (checked while reading when there's no content-length).
+ */
+const fetchMetadataText = async (url: string): Promise<string | undefined> => {
+  try {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(MEDIA_FETCH_TIMEOUT_MS),
+    });
+    const size = Number(response.headers.get("content-length"));
+    const body =
+      response.ok && size <= MAX_MEDIA_ATTACHMENT_BYTES
+        ? await readBodyWithLimit(response, MAX_MEDIA_ATTACHMENT_BYTES)
+        : undefined;
+    if (body) {
+      return body.toString("utf8");
+    }
+    log.warn(`Not using metadata ${url} (${response.status}, ${size} bytes)`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(`Failed to fetch metadata ${url}: ${message}`);
+  }
+};
+
+/**
+ * Fetch and parse a token's metadata JSON from its token URI
+ * IPFS and Arweave URIs are tried on each gateway in order until one works.
+ */
+export const fetchTokenMetadata = async (
+  uri: string
+): Promise<TokenMetadata | undefined> => {
+  let text = decodeDataUri(uri);
+  for (const url of text === undefined ? getGatewayUrls(uri) : []) {
+    text = await fetchMetadataText(url);
+    if (text !== undefined) {
+      break;
+    }
+  }
+  if (text === undefined) {
+    return;
+  }
+
+  try {
+    return JSON.parse(text) as TokenMetadata;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(`Invalid token metadata ${uri.slice(0, 100)}: ${message}`);
+  }
+};
+
+/**
+ * Detect whether a contract is ERC-721 or ERC-1155 (via ERC-165)
+ * Contracts that don't implement ERC-165 are treated as ERC-721.
+ */
+const detectStandard = async (
+  contract: Contract,
+  collection: CollectionConfig
+): Promise<"erc721" | "erc1155"> => {
+  const key = `${collection.chain}:${collection.address}`;
+  const cached = standards.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  let standard: "erc721" | "erc1155" = "erc721";
+  try {
+    const isErc1155: boolean = await withRpcTimeout(
+      contract.supportsInterface(ERC1155_INTERFACE_ID),
+      `supportsInterface for ${collection.name}`
+    );
+    standard = isErc1155 ? "erc1155" : "erc721";
+  } catch {
+    log.debug(`${collection.name} doesn't support ERC-165, assuming ERC-721`);
+  }
+  standards.set(key, standard);
+  return standard;
+};
+
+/**
+ * Read a token's owner (ERC-721 only) and metadata URI from its contract
+ */
+const readToken = async (
+  provider: Provider,
+  collection: CollectionConfig,
+  tokenId: number
+): Promise<{ standard: string; owner?: string; uri: string }> => {
+  const contract = new Contract(collection.address, NFT_ABI, provider);
+  const standard = await detectStandard(contract, collection);
+  const label = `${collection.name} #${tokenId}`;
+
+  if (standard === "erc1155") {
+    // ERC-1155 tokens can have many holders, so there's no single owner.
+    // balanceOf(account, id) needs a holder's address, and holders can only
+    // be listed by indexing transfer events, so it isn't called.
+    const uriTemplate: string = await withRpcTimeout(
+      contract.uri(tokenId),
+      `uri for ${label}`
+    );
+    const hexId = tokenId.toString(16).padStart(ERC1155_ID_LENGTH, "0");
+    return {
+      standard,
+      uri: uriTemplate.replace(ID_PLACEHOLDER_PATTERN, hexId),
+    };
+  }
+
+  const [owner, uri]: [string, string] = await withRpcTimeout(
+    Promise.all([contract.ownerOf(tokenId), contract.tokenURI(tokenId)]),
+    `ownerOf and tokenURI for ${label}`
+  );
+  return { standard, owner, uri };
+};
+
+/**
+ * Convert metadata attributes to traits (skipping ones without a type)
+ */
+const toTraits = (metadata: TokenMetadata): NFTTrait[] =>
+  (metadata.attributes ?? []).flatMap(({ trait_type, value }) =>
+    trait_type && value !== undefined ? [{ trait_type, value }] : []
+  );
+
+/**
+ * Read an NFT from its contract when OpenSea is unavailable
+ * Uses the RPC configured for the collection's chain in RPC_URLS. The NFT
+ * has no market data and is marked `onchain`.
+ *
+ * @returns The NFT, or undefined if there's no RPC or the token can't be read
+ */
+export const fetchOnchainNFT = async (
+  collection: CollectionConfig,
+  tokenId: number,
+  userLog: Log
+): Promise<NFT | undefined> => {
+  const provider = getRpcProvider(collection.chain);
+  if (!provider) {
+    return;
+  }
+
+  log.info(`Reading ${collection.name} #${tokenId} from chain`);
+  let token: Awaited<ReturnType<typeof readToken>>;
+  try {
+    token = await readToken(provider, collection, tokenId);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(
+      `Failed to read ${collection.name} #${tokenId} from chain: ${message}`
+    );
+    return;
+  }
+
+  const metadata = (await fetchTokenMetadata(token.uri)) ?? {};
+  userLog.push(`Read ${collection.name} #${tokenId} from chain`);
+  return {
+    name: metadata.name,
+    // Lowercase like OpenSea's addresses (ethers returns checksummed ones)
+    owners: token.owner
+      ? [{ address: token.owner.toLowerCase(), quantity: 1 }]
+      : undefined,
+    opensea_url: `${OPENSEA_ASSET_BASE}/${collection.chain}/${collection.address}/${tokenId}`,
+    image_url: toImageUrl(metadata.image ?? metadata.image_url),
+    animation_url: toHttpUrl(metadata.animation_url),
+    token_standard: token.standard,
+    traits: toTraits(metadata),
+    onchain: true,
+  };
+};
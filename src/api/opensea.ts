@@ -1,7 +1,16 @@
 import {
+  ACCOUNT_NFTS_PAGE_SIZE,
   COLLECTION_SLUG_CACHE_CAPACITY,
+  COLLECTION_STATS_TTL_MS,
+  HISTORY_MAX_PAGES,
+  HISTORY_PAGE_SIZE,
+  HOLDINGS_CACHE_CAPACITY,
+  HOLDINGS_CACHE_TTL_MS,
+  HOLDINGS_MAX_PAGES,
   OPENSEA_API_BASE,
+  PROVENANCE_MAX_PAGES,
   USERNAME_CACHE_CAPACITY,
+  USERNAME_CACHE_TTL_MS,
 } from "../config/constants";
 import { createLogger, isDebugEnabled } from "../lib/logger";
 import { LRUCache } from "../lib/lru-cache";
@@ -11,12 +20,18 @@ import type {
   BestListing,
   BestOffer,
   CollectionConfig,
+  CollectionStats,
+  Holdings,
   LastSale,
   Log,
   NFT,
   OpenSeaAccount,
   OpenSeaCollection,
+  OwnershipEvent,
+  SaleEvent,
 } from "../lib/types";
+import { fetchOnchainNFT } from "./onchain";
+import { lookupEnsName } from "./rpc";
 
 const log = createLogger("OpenSea");
 
@@ -49,8 +64,23 @@ const GET_OPTS = {
 /** Cache for collection slugs by address */
 const slugCache = new LRUCache<string, string>(COLLECTION_SLUG_CACHE_CAPACITY);
 
-/** Cache for usernames by address */
-const usernameCache = new LRUCache<string, string>(USERNAME_CACHE_CAPACITY);
+/** Cache for collection stats by slug (expires so the floor stays current) */
+const statsCache = new LRUCache<string, CollectionStats>(
+  COLLECTION_SLUG_CACHE_CAPACITY,
+  COLLECTION_STATS_TTL_MS
+);
+
+/** Cache for display names by address (expires so renames show up) */
+const usernameCache = new LRUCache<string, string>(
+  USERNAME_CACHE_CAPACITY,
+  USERNAME_CACHE_TTL_MS
+);
+
+/** Cache for owner token counts by chain, collection slug and address */
+const holdingsCache = new LRUCache<string, Holdings>(
+  HOLDINGS_CACHE_CAPACITY,
+  HOLDINGS_CACHE_TTL_MS
+);
 
 /**
  * Generic OpenSea GET request with error handling
@@ -121,6 +151,12 @@ export const urls = {
   /** Get collection info by slug (includes total_supply) */
   collection: (slug: string) => `${OPENSEA_API_BASE}/collections/${slug}`,
 
+  /** Get trait counts for a collection by slug */
+  traits: (slug: string) => `${OPENSEA_API_BASE}/traits/${slug}`,
+
+  /** Get collection stats by slug (includes floor price) */
+  stats: (slug: string) => `${OPENSEA_API_BASE}/collections/${slug}/stats`,
+
   bestOffer: (slug: string, tokenId: number) =>
     `${OPENSEA_API_BASE}/offers/collection/${slug}/nfts/${tokenId}/best`,
 
@@ -130,12 +166,22 @@ export const urls = {
   events: (collection: CollectionConfig, tokenId: number) =>
     `${OPENSEA_API_BASE}/events/chain/${collection.chain}/contract/${collection.address}/nfts/${tokenId}`,
 
-  accountNFTs: (chain: string, address: string, collectionSlug?: string) => {
+  accountNFTs: (
+    chain: string,
+    address: string,
+    collectionSlug?: string,
+    cursor?: string
+  ) => {
     const base = `${OPENSEA_API_BASE}/chain/${chain}/account/${address}/nfts`;
-    const params = new URLSearchParams({ limit: "50" });
+    const params = new URLSearchParams({
+      limit: String(ACCOUNT_NFTS_PAGE_SIZE),
+    });
     if (collectionSlug) {
       params.set("collection", collectionSlug);
     }
+    if (cursor) {
+      params.set("next", cursor);
+    }
     return `${base}?${params.toString()}`;
   },
 };
@@ -210,6 +256,8 @@ export const fetchTotalSupply = async (
 
 /**
  * Fetch NFT data from OpenSea
+ * Falls back to reading the token from chain (without market data) when
+ * OpenSea doesn't return it and an RPC is configured for the chain.
  *
  * @throws {NFTNotFoundError} When the NFT doesn't exist or can't be fetched
  */
@@ -225,6 +273,10 @@ export const fetchNFT = async (
   const result = await openseaGet<{ nft: NFT }>(url, userLog);
 
   if (!result?.nft) {
+    const onchain = await fetchOnchainNFT(collection, tokenId, userLog);
+    if (onchain) {
+      return onchain;
+    }
     log.error(
       `NFT not found: ${collection.name} #${tokenId} (contract: ${collection.address})`
     );
@@ -256,6 +308,96 @@ export const fetchLastSale = async (
   return sale;
 };
 
+/**
+ * Fetch a token's events of the given types, newest first
+ * Follows the `next` cursor for up to maxPages pages. `truncated` is true if
+ * there were more pages or a page failed.
+ */
+const fetchTokenEvents = async <T>(
+  collection: CollectionConfig,
+  tokenId: number,
+  { eventTypes, maxPages }: { eventTypes: string[]; maxPages: number },
+  userLog: Log
+): Promise<{ events: T[]; truncated: boolean }> => {
+  const events: T[] = [];
+  let cursor: string | undefined;
+  for (let page = 0; page < maxPages; page++) {
+    const params = new URLSearchParams({ limit: String(HISTORY_PAGE_SIZE) });
+    for (const eventType of eventTypes) {
+      params.append("event_type", eventType);
+    }
+    if (cursor) {
+      params.set("next", cursor);
+    }
+    const url = `${urls.events(collection, tokenId)}?${params.toString()}`;
+    const result = await openseaGet<{
+      asset_events?: T[];
+      next?: string | null;
+    }>(url, userLog);
+
+    if (!result) {
+      // Events after a failed page are unknown, so the result is partial
+      return { events, truncated: true };
+    }
+    events.push(...(result.asset_events ?? []));
+    cursor = result.next ?? undefined;
+    if (!cursor) {
+      break;
+    }
+  }
+  return { events, truncated: cursor !== undefined };
+};
+
+/**
+ * Fetch the sale history for an NFT (newest first)
+ * Follows the `next` cursor for up to HISTORY_MAX_PAGES pages; `truncated`
+ * is true if there were more.
+ */
+export const fetchSaleHistory = async (
+  collection: CollectionConfig,
+  tokenId: number,
+  userLog: Log
+): Promise<{ sales: SaleEvent[]; truncated: boolean }> => {
+  log.debug(`Fetching sale history: ${collection.name} #${tokenId}`);
+
+  const { events: sales, truncated } = await fetchTokenEvents<SaleEvent>(
+    collection,
+    tokenId,
+    { eventTypes: ["sale"], maxPages: HISTORY_MAX_PAGES },
+    userLog
+  );
+
+  log.debug(
+    `Found ${sales.length} sales for ${collection.name} #${tokenId}${truncated ? " (truncated)" : ""}`
+  );
+  return { sales, truncated };
+};
+
+/**
+ * Fetch a token's mints, transfers and sales, newest first
+ * Fetches up to PROVENANCE_MAX_PAGES pages; `truncated` is true if there
+ * were more.
+ */
+export const fetchOwnershipEvents = async (
+  collection: CollectionConfig,
+  tokenId: number,
+  userLog: Log
+): Promise<{ events: OwnershipEvent[]; truncated: boolean }> => {
+  log.debug(`Fetching ownership events: ${collection.name} #${tokenId}`);
+
+  const result = await fetchTokenEvents<OwnershipEvent>(
+    collection,
+    tokenId,
+    { eventTypes: ["sale", "transfer"], maxPages: PROVENANCE_MAX_PAGES },
+    userLog
+  );
+
+  log.debug(
+    `Found ${result.events.length} ownership events for ${collection.name} #${tokenId}${result.truncated ? " (truncated)" : ""}`
+  );
+  return result;
+};
+
 /**
  * Fetch the best offer for an NFT
  *
@@ -286,6 +428,28 @@ export const fetchBestListing = (
   return openseaGet<BestListing>(url, userLog, true);
 };
 
+/**
+ * Fetch and cache collection stats (floor price) by slug
+ * Cached for COLLECTION_STATS_TTL_MS so the floor stays current.
+ */
+export const fetchCollectionStats = async (
+  slug: string,
+  userLog: Log
+): Promise<CollectionStats | undefined> => {
+  const cached = statsCache.get(slug);
+  if (cached) {
+    log.debug(`Stats cache hit for ${slug}`);
+    return cached;
+  }
+
+  log.debug(`Fetching collection stats: ${slug}`);
+  const result = await openseaGet<CollectionStats>(urls.stats(slug), userLog);
+  if (result?.total) {
+    statsCache.put(slug, result);
+    return result;
+  }
+};
+
 /**
  * Fetch account info from OpenSea
  */
@@ -300,7 +464,7 @@ const fetchAccount = (
 
 /**
  * Get username for an address, with caching
- * Returns OpenSea username or shortened address
+ * Returns OpenSea username, then ENS name, then shortened address
  */
 export const getUsername = async (
   address: string,
@@ -315,7 +479,7 @@ export const getUsername = async (
   }
 
   const account = await fetchAccount(address, userLog);
-  const username = account?.username ?? "";
+  const username = account?.username || (await lookupEnsName(address)) || "";
   usernameCache.put(address, username);
 
   const display = username || shortAddress(address);
@@ -384,6 +548,53 @@ export const fetchAccountNFTs = async (
   return nfts;
 };
 
+/**
+ * Count how many tokens of a collection an address holds, with caching
+ * Follows the `next` cursor for up to HOLDINGS_MAX_PAGES pages.
+ *
+ * @param address - Owner address
+ * @param chain - Blockchain network
+ * @param collectionSlug - Collection to count tokens in
+ * @param userLog - Log array for user-facing messages
+ * @returns The count, or undefined if a page couldn't be fetched
+ */
+export const fetchHoldings = async (
+  address: string,
+  chain: string,
+  collectionSlug: string,
+  userLog: Log
+): Promise<Holdings | undefined> => {
+  const cacheKey = `${chain}:${collectionSlug}:${address.toLowerCase()}`;
+  const cached = holdingsCache.get(cacheKey);
+  if (cached) {
+    log.debug(`Holdings cache hit for ${address} in ${collectionSlug}`);
+    return cached;
+  }
+
+  let count = 0;
+  let cursor: string | undefined;
+  for (let page = 0; page < HOLDINGS_MAX_PAGES; page++) {
+    const url = urls.accountNFTs(chain, address, collectionSlug, cursor);
+    const result = await openseaGet<AccountNFTsResponse>(url, userLog);
+    if (!result) {
+      return;
+    }
+
+    count += result.nfts?.length ?? 0;
+    cursor = result.next ?? undefined;
+    if (!cursor) {
+      break;
+    }
+  }
+
+  const holdings: Holdings = { count, truncated: cursor !== undefined };
+  holdingsCache.put(cacheKey, holdings);
+  log.debug(
+    `${address} holds ${count}${holdings.truncated ? "+" : ""} in ${collectionSlug}`
+  );
+  return holdings;
+};
+
 /**
  * Get a random NFT from a user's collection
  *
@@ -0,0 +1,279 @@
+import {
+  FIAT_RATE_CACHE_CAPACITY,
+  FIAT_RATE_TIMEOUT_MS,
+  FIAT_RATE_TTL_MS,
+} from "../config/constants";
+import { createLogger } from "../lib/logger";
+import { LRUCache } from "../lib/lru-cache";
+import type { RequestScope } from "../lib/types";
+
+const log = createLogger("PriceOracle");
+
+const { FIAT_CURRENCY, COINGECKO_API_KEY } = process.env;
+
+/** Env var prefix for per-guild fiat currencies (FIAT_CURRENCY_<guildId>) */
+const GUILD_FIAT_ENV_PREFIX = "FIAT_CURRENCY_";
+
+/** Value that turns fiat conversion off (e.g. for a single guild) */
+const FIAT_DISABLED = "none";
+
+/** Fiat currency codes are ISO 4217 (e.g. usd, eur) */
+const CURRENCY_CODE_PATTERN = /^[a-z]{3}$/;
+
+/** Fiat values at or above this are shown without cents */
+const WHOLE_FIAT_THRESHOLD = 100;
+
+/**
+ * A source of token prices in fiat
+ * Swap the default (CoinGecko) with setPriceOracle, e.g. in tests.
+ */
+export type PriceOracle = {
+  name: string;
+  /**
+   * Get the fiat price of each token (symbols are normalized, e.g. ETH not WETH)
+   * Symbols the oracle doesn't know are left out.
+   */
+  getRates: (
+    symbols: string[],
+    currency: string
+  ) => Promise<Map<string, number>>;
+};
+
+/** Fiat rates for a request */
+export type FiatRates = {
+  currency: string;
+  /** Token symbol (normalized) -> fiat price */
+  rates: Map<string, number>;
+};
+
+/** Wrapped and bridged tokens priced as their underlying token */
+const SYMBOL_ALIASES: Record<string, string> = {
+  WETH: "ETH",
+  "USDC.E": "USDC",
+  WPOL: "POL",
+  WMATIC: "MATIC",
+  WAVAX: "AVAX",
+  WAPE: "APE",
+};
+
+/** CoinGecko IDs for supported tokens (ETH, stablecoins and chain natives) */
+const COINGECKO_IDS: Record<string, string> = {
+  ETH: "ethereum",
+  USDC: "usd-coin",
+  USDT: "tether",
+  DAI: "dai",
+  POL: "polygon-ecosystem-token",
+  MATIC: "matic-network",
+  AVAX: "avalanche-2",
+  APE: "apecoin",
+  BNB: "binancecoin",
+  SEI: "sei-network",
+};
+
+/**
+ * Normalize a token symbol for pricing
+ */
+export const normalizeSymbol = (symbol: string): string => {
+  const upper = symbol.toUpperCase();
+  return SYMBOL_ALIASES[upper] ?? upper;
+};
+
+/**
+ * Default oracle using CoinGecko's simple price API
+ * Requests time out after FIAT_RATE_TIMEOUT_MS.
+ */
+export const coinGeckoOracle: PriceOracle = {
+  name: "CoinGecko",
+  getRates: async (symbols, currency) => {
+    const rates = new Map<string, number>();
+    const ids = symbols.filter((s) => COINGECKO_IDS[s]);
+    if (ids.length === 0) {
+      return rates;
+    }
+
+    const params = new URLSearchParams({
+      ids: ids.map((s) => COINGECKO_IDS[s]).join(","),
+      vs_currencies: currency,
+    });
+    const response = await fetch(
+      `https://api.coingecko.com/api/v3/simple/price?${params.toString()}`,
+      {
+        headers: COINGECKO_API_KEY
+          ? { "x-cg-demo-api-key": COINGECKO_API_KEY }
+          : {},
+        signal: AbortSignal.timeout(FIAT_RATE_TIMEOUT_MS),
+      }
+    );
+    if (!response.ok) {
+      throw new Error(`CoinGecko error ${response.status}`);
+    }
+
+    const prices = (await response.json()) as Record<
+      string,
+      Record<string, number>
+    >;
+    for (const symbol of ids) {
+      const price = prices[COINGECKO_IDS[symbol]]?.[currency];
+      if (price !== undefined) {
+        rates.set(symbol, price);
+      }
+    }
+    return rates;
+  },
+};
+
+let oracle: PriceOracle = coinGeckoOracle;
+
+/** Cached rates by currency:symbol */
+const rateCache = new LRUCache<string, number>(
+  FIAT_RATE_CACHE_CAPACITY,
+  FIAT_RATE_TTL_MS
+);
+
+/** Last known rates by currency:symbol (used when the oracle fails) */
+const lastKnownRates = new LRUCache<string, number>(FIAT_RATE_CACHE_CAPACITY);
+
+/**
+ * Replace the price oracle (clears cached rates)
+ */
+export const setPriceOracle = (newOracle: PriceOracle): void => {
+  oracle = newOracle;
+  rateCache.clear();
+  lastKnownRates.clear();
+};
+
+/**
+ * Parse a fiat currency setting
+ * Returns null if conversion is turned off, undefined if the value is invalid
+ */
+const parseCurrency = (
+  name: string,
+  value: string | undefined
+): string | null | undefined => {
+  const currency = value?.trim().toLowerCase();
+  if (!currency || currency === FIAT_DISABLED) {
+    return null;
+  }
+  if (!CURRENCY_CODE_PATTERN.test(currency)) {
+    log.warn(`Invalid ${name} (expected a currency code like usd): ${value}`);
+    return;
+  }
+  return currency;
+};
+
+const defaultCurrency = parseCurrency("FIAT_CURRENCY", FIAT_CURRENCY) ?? null;
+
+/** Per-guild fiat currencies (null if turned off for the guild) */
+const guildCurrencies = new Map<string, string | null>();
+for (const [key, value] of Object.entries(process.env)) {
+  const guildId = key.startsWith(GUILD_FIAT_ENV_PREFIX)
+    ? key.slice(GUILD_FIAT_ENV_PREFIX.length)
+    : undefined;
+  const currency = guildId ? parseCurrency(key, value) : undefined;
+  if (guildId && currency !== undefined) {
+    guildCurrencies.set(guildId, currency);
+  }
+}
+
+/**
+ * Get the fiat currency for a scope (undefined if conversion is off)
+ * Guilds with FIAT_CURRENCY_<guildId> use it; others use FIAT_CURRENCY.
+ */
+export const getFiatCurrency = (scope?: RequestScope): string | undefined => {
+  const guildCurrency = scope?.guildId
+    ? guildCurrencies.get(scope.guildId)
+    : undefined;
+  return (
+    (guildCurrency === undefined ? defaultCurrency : guildCurrency) ?? undefined
+  );
+};
+
+/**
+ * Fetch rates from the oracle and cache them
+ * If the oracle fails or times out, the last known rates are returned.
+ */
+const fetchRates = async (
+  symbols: string[],
+  currency: string
+): Promise<Map<string, number>> => {
+  try {
+    const fetched = await oracle.getRates(symbols, currency);
+    for (const [symbol, rate] of fetched) {
+      rateCache.put(`${currency}:${symbol}`, rate);
+      lastKnownRates.put(`${currency}:${symbol}`, rate);
+    }
+    return fetched;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(
+      `${oracle.name} rates failed for ${symbols.join(", ")}: ${message}`
+    );
+    const rates = new Map<string, number>();
+    for (const symbol of symbols) {
+      const rate = lastKnownRates.get(`${currency}:${symbol}`);
+      if (rate !== undefined) {
+        rates.set(symbol, rate);
+      }
+    }
+    return rates;
+  }
+};
+
+/**
+ * Get fiat rates for tokens in a scope's currency
+ * Returns undefined if conversion is off. Rates are cached for FIAT_RATE_TTL_MS;
+ * if the oracle fails or times out, the last known rates are used instead.
+ */
+export const getFiatRates = async (
+  symbols: string[],
+  scope?: RequestScope
+): Promise<FiatRates | undefined> => {
+  const currency = getFiatCurrency(scope);
+  if (!currency) {
+    return;
+  }
+
+  const rates = new Map<string, number>();
+  const missing: string[] = [];
+  for (const symbol of new Set(symbols.map(normalizeSymbol))) {
+    const cached = rateCache.get(`${currency}:${symbol}`);
+    if (cached === undefined) {
+      missing.push(symbol);
+    } else {
+      rates.set(symbol, cached);
+    }
+  }
+
+  if (missing.length > 0) {
+    for (const [symbol, rate] of await fetchRates(missing, currency)) {
+      rates.set(symbol, rate);
+    }
+  }
+
+  return { currency, rates };
+};
+
+/**
+ * Format a token amount in fiat (e.g. "~$812")
+ * Returns undefined if there's no rate for the token.
+ */
+export const formatFiat = (
+  amount: number,
+  symbol: string,
+  fiat: FiatRates | undefined
+): string | undefined => {
+  const rate = fiat?.rates.get(normalizeSymbol(symbol));
+  if (!fiat || rate === undefined) {
+    return;
+  }
+
+  const value = amount * rate;
+  const fractionDigits = value >= WHOLE_FIAT_THRESHOLD ? 0 : 2;
+  const formatted = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: fiat.currency.toUpperCase(),
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(value);
+  return `~${formatted}`;
+};
@@ -0,0 +1,314 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { getAllCollections, getSlugForCollection } from "../config/collection";
+import { getRaritySource } from "../config/collection-options";
+import {
+  COLLECTION_SLUG_CACHE_CAPACITY,
+  RARITY_INDEX_DELAY_MS,
+  RARITY_INDEX_MAX_AGE_MS,
+} from "../config/constants";
+import { createLogger } from "../lib/logger";
+import { LRUCache } from "../lib/lru-cache";
+import { RarityIndex } from "../lib/rarity-index";
+import type {
+  CollectionConfig,
+  Log,
+  NFT,
+  NFTTrait,
+  OpenSeaCollection,
+  OpenSeaTraits,
+  Rarity,
+} from "../lib/types";
+import { getStateDir } from "../state/state";
+import { fetchNFT, NFTNotFoundError, openseaGet, urls } from "./opensea";
+
+const log = createLogger("Rarity");
+
+/** Directory in the state directory for saved local indexes */
+const RARITY_INDEX_DIR = "rarity";
+
+/** A local trait index saved to disk */
+type SavedIndex = {
+  /** When the index was built (ISO string) */
+  builtAt: string;
+  minTokenId: number;
+  maxTokenId: number;
+  tokens: [number, NFTTrait[]][];
+};
+
+/** OpenSea rarity data for a collection */
+type CollectionRarity = {
+  /** Number of ranked tokens (or the collection size) */
+  total?: number;
+  traits?: OpenSeaTraits;
+};
+
+/** Cache of OpenSea rarity data by collection slug */
+const collectionRarityCache = new LRUCache<string, CollectionRarity>(
+  COLLECTION_SLUG_CACHE_CAPACITY
+);
+
+/** Local trait indexes by chain:address (only complete indexes are used) */
+const localIndexes = new Map<
+  string,
+  { index: RarityIndex; complete: boolean }
+>();
+
+/** Whether local indexing should stop (set by stopRarityIndexing) */
+let indexingStopped = false;
+
+const indexKey = (collection: CollectionConfig): string =>
+  `${collection.chain}:${collection.address.toLowerCase()}`;
+
+/**
+ * Get the key for a trait in a Rarity's traitPercents
+ * Keyed by type and value, since a trait type can appear more than once.
+ */
+export const traitPercentKey = ({
+  trait_type,
+  value,
+}: Pick<NFTTrait, "trait_type" | "value">): string =>
+  `${trait_type}\u0000${String(value)}`;
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Fetch and cache OpenSea's ranked token count and trait counts for a collection
+ */
+const fetchCollectionRarity = async (
+  slug: string,
+  userLog: Log
+): Promise<CollectionRarity> => {
+  const cached = collectionRarityCache.get(slug);
+  if (cached) {
+    return cached;
+  }
+
+  const [collection, traits] = await Promise.all([
+    openseaGet<OpenSeaCollection>(urls.collection(slug), userLog),
+    openseaGet<OpenSeaTraits>(urls.traits(slug), userLog),
+  ]);
+
+  const rarity: CollectionRarity = {
+    total:
+      collection?.rarity?.max_rank ??
+      collection?.unique_item_count ??
+      collection?.total_supply,
+    traits: traits?.counts ? traits : undefined,
+  };
+
+  // Don't cache failed lookups so they're retried on the next request
+  if (collection || traits) {
+    collectionRarityCache.put(slug, rarity);
+  }
+  return rarity;
+};
+
+/**
+ * Get the percentage of tokens sharing a trait from OpenSea's trait counts
+ */
+const openseaTraitPercent = (
+  rarity: CollectionRarity,
+  traitType: string,
+  value: string | number
+): number | undefined => {
+  const counts = rarity.traits?.counts[traitType];
+  const count = counts?.[String(value)];
+  if (!(count && rarity.total)) {
+    return;
+  }
+  return (count / rarity.total) * 100;
+};
+
+/**
+ * Get a collection's local trait index (if built)
+ */
+const getLocalIndex = (
+  collection: CollectionConfig
+): RarityIndex | undefined => {
+  const entry = localIndexes.get(indexKey(collection));
+  return entry?.complete ? entry.index : undefined;
+};
+
+/**
+ * Get an NFT's rarity rank and trait percentages
+ * Prefers OpenSea's data and falls back to the local index for "local" collections.
+ * Returns undefined if the collection doesn't show rarity.
+ */
+export const getRarity = async (
+  collection: CollectionConfig,
+  tokenId: number,
+  nft: NFT,
+  userLog: Log
+): Promise<Rarity | undefined> => {
+  const source = getRaritySource(collection);
+  if (!source) {
+    return;
+  }
+
+  const slug = await getSlugForCollection(collection, userLog);
+  const opensea = slug ? await fetchCollectionRarity(slug, userLog) : {};
+  const index = source === "local" ? getLocalIndex(collection) : undefined;
+
+  const traitPercents = new Map<string, number>();
+  for (const trait of nft.traits ?? []) {
+    const percent =
+      openseaTraitPercent(opensea, trait.trait_type, trait.value) ??
+      index?.traitPercent(trait);
+    if (percent !== undefined) {
+      traitPercents.set(traitPercentKey(trait), percent);
+    }
+  }
+
+  const openseaRank = nft.rarity?.rank ?? undefined;
+  if (openseaRank) {
+    return { rank: openseaRank, total: opensea.total, traitPercents };
+  }
+  return { rank: index?.rank(tokenId), total: index?.size, traitPercents };
+};
+
+/**
+ * Get the file a collection's local index is saved to
+ */
+const getIndexPath = (collection: CollectionConfig): string =>
+  join(
+    getStateDir(),
+    RARITY_INDEX_DIR,
+    `${collection.chain}-${collection.address.toLowerCase()}.json`
+  );
+
+/**
+ * Load a collection's saved local index
+ * Returns undefined if there's none, or it's older than
+ * RARITY_INDEX_MAX_AGE_MS or for a different token range.
+ */
+const loadSavedIndex = async (
+  collection: CollectionConfig
+): Promise<RarityIndex | undefined> => {
+  let saved: SavedIndex;
+  try {
+    saved = JSON.parse(
+      await readFile(getIndexPath(collection), "utf8")
+    ) as SavedIndex;
+  } catch {
+    // Not built yet (or unreadable, so it's rebuilt)
+    return;
+  }
+
+  const age = Date.now() - Date.parse(saved.builtAt);
+  if (
+    !(age < RARITY_INDEX_MAX_AGE_MS) ||
+    saved.minTokenId !== collection.minTokenId ||
+    saved.maxTokenId !== collection.maxTokenId
+  ) {
+    log.info(`Saved rarity index for ${collection.name} is out of date`);
+    return;
+  }
+
+  const index = new RarityIndex();
+  for (const [tokenId, traits] of saved.tokens) {
+    index.add(tokenId, traits);
+  }
+  return index;
+};
+
+/**
+ * Save a collection's local index so it isn't rebuilt on restart
+ */
+const saveIndex = async (
+  collection: CollectionConfig,
+  index: RarityIndex
+): Promise<void> => {
+  const path = getIndexPath(collection);
+  const saved: SavedIndex = {
+    builtAt: new Date().toISOString(),
+    minTokenId: collection.minTokenId,
+    maxTokenId: collection.maxTokenId,
+    tokens: index.entries(),
+  };
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(saved));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(`Failed to save rarity index ${path}: ${message}`);
+  }
+};
+
+/**
+ * Build the local trait index for a collection by fetching every token
+ * Requests are spaced out by RARITY_INDEX_DELAY_MS to stay under API limits.
+ * Built indexes are saved in the state directory and reused until they're
+ * RARITY_INDEX_MAX_AGE_MS old.
+ */
+const buildLocalIndex = async (collection: CollectionConfig): Promise<void> => {
+  const key = indexKey(collection);
+  if (localIndexes.has(key)) {
+    return;
+  }
+
+  const saved = await loadSavedIndex(collection);
+  if (saved) {
+    localIndexes.set(key, { index: saved, complete: true });
+    log.info(
+      `Loaded rarity index for ${collection.name}: ${saved.size} tokens`
+    );
+    return;
+  }
+
+  const index = new RarityIndex();
+  const entry = { index, complete: false };
+  localIndexes.set(key, entry);
+
+  const { minTokenId, maxTokenId } = collection;
+  log.info(
+    `Building rarity index for ${collection.name} (${maxTokenId - minTokenId + 1} tokens)`
+  );
+
+  for (let tokenId = minTokenId; tokenId <= maxTokenId; tokenId++) {
+    if (indexingStopped) {
+      localIndexes.delete(key);
+      return;
+    }
+    try {
+      const nft = await fetchNFT(collection, tokenId, []);
+      index.add(tokenId, nft.traits ?? []);
+    } catch (error) {
+      // Missing (e.g. burned) tokens are left out of the index
+      if (!(error instanceof NFTNotFoundError)) {
+        log.warn(`Rarity index: failed to fetch #${tokenId}: ${error}`);
+      }
+    }
+    await sleep(RARITY_INDEX_DELAY_MS);
+  }
+
+  entry.complete = true;
+  log.info(`Built rarity index for ${collection.name}: ${index.size} tokens`);
+  await saveIndex(collection, index);
+};
+
+/**
+ * Build local trait indexes for collections using the "local" rarity source
+ * Runs in the background, one collection at a time.
+ */
+export const startRarityIndexing = async (): Promise<void> => {
+  indexingStopped = false;
+  const collections = getAllCollections().filter(
+    (c) => getRaritySource(c) === "local"
+  );
+
+  for (const collection of collections) {
+    if (indexingStopped) {
+      return;
+    }
+    await buildLocalIndex(collection);
+  }
+};
+
+/**
+ * Stop building local trait indexes
+ */
+export const stopRarityIndexing = (): void => {
+  indexingStopped = true;
+};
@@ -0,0 +1,131 @@
+import { JsonRpcProvider, Network, type Provider } from "ethers";
+import { RPC_TIMEOUT_MS } from "../config/constants";
+import { createLogger } from "../lib/logger";
+import { isValidUrl } from "../lib/utils";
+
+const log = createLogger("RPC");
+
+// JSON-RPC endpoints by chain: chain=url,chain=url
+const { RPC_URLS } = process.env;
+
+/** Chain whose RPC is used for ENS lookups */
+const ENS_CHAIN = "ethereum";
+
+/** ethers network names for chains that don't need a chain ID lookup */
+const KNOWN_NETWORKS: Record<string, string> = {
+  ethereum: "mainnet",
+};
+
+/**
+ * Parse RPC_URLS (chain=url,chain=url)
+ */
+export const parseRpcUrls = (
+  value: string | undefined
+): Map<string, string> => {
+  const rpcUrls = new Map<string, string>();
+  for (const entry of (value ?? "").split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const separatorIndex = trimmed.indexOf("=");
+    const chain = trimmed.slice(0, separatorIndex).trim().toLowerCase();
+    const url = trimmed.slice(separatorIndex + 1).trim();
+    if (separatorIndex === -1 || !chain || !isValidUrl(url)) {
+      log.warn(`Invalid RPC_URLS entry (expected chain=url): ${entry}`);
+      continue;
+    }
+    rpcUrls.set(chain, url);
+  }
+  return rpcUrls;
+};
+
+const rpcUrls = parseRpcUrls(RPC_URLS);
+
+/** Providers by chain (created on first use, or set with setRpcProvider) */
+const providers = new Map<string, Provider>();
+
+/**
+ * Get the JSON-RPC provider for a chain
+ * Returns undefined if no RPC URL is configured for the chain.
+ */
+export const getRpcProvider = (chain: string): Provider | undefined => {
+  const existing = providers.get(chain);
+  if (existing) {
+    return existing;
+  }
+
+  const url = rpcUrls.get(chain);
+  if (!url) {
+    return;
+  }
+
+  // A known network skips the chain ID request; others look it up once
+  const network = KNOWN_NETWORKS[chain];
+  const provider = new JsonRpcProvider(url, network, {
+    staticNetwork: network ? Network.from(network) : true,
+  });
+  providers.set(chain, provider);
+  return provider;
+};
+
+/**
+ * Replace (or with undefined, remove) the provider for a chain, e.g. in tests
+ */
+export const setRpcProvider = (
+  chain: string,
+  provider: Provider | undefined
+): void => {
+  if (provider) {
+    providers.set(chain, provider);
+  } else {
+    providers.delete(chain);
+  }
+};
+
+/**
+ * Reject if a request takes longer than RPC_TIMEOUT_MS
+ */
+export const withRpcTimeout = async <T>(
+  request: Promise<T>,
+  label: string
+): Promise<T> => {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${label} timed out`)),
+      RPC_TIMEOUT_MS
+    );
+  });
+  try {
+    return await Promise.race([request, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Look up an address's primary ENS name
+ * Returns undefined if there's no Ethereum RPC, no name, or the lookup fails.
+ */
+export const lookupEnsName = async (
+  address: string
+): Promise<string | undefined> => {
+  const provider = getRpcProvider(ENS_CHAIN);
+  if (!provider) {
+    return;
+  }
+
+  try {
+    const name = await withRpcTimeout(
+      provider.lookupAddress(address),
+      `ENS lookup for ${address}`
+    );
+    log.debug(`ENS name for ${address}: ${name ?? "(none)"}`);
+    return name ?? undefined;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(`ENS lookup failed for ${address}: ${message}`);
+  }
+};
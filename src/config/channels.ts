@@ -0,0 +1,90 @@
+import { createLogger } from "../lib/logger";
+
+const log = createLogger("Channels");
+
+const {
+  // Comma-separated channel IDs the bot responds to messages in (all if unset)
+  ALLOWED_CHANNELS,
+  // Comma-separated channel IDs the bot never responds to messages in
+  DENIED_CHANNELS,
+  // Per-channel default collection: CHANNEL_ID=prefix,...
+  CHANNEL_DEFAULTS,
+} = process.env;
+
+/**
+ * Parse a comma-separated list of channel IDs
+ */
+const parseChannelIds = (value: string | undefined): Set<string> =>
+  new Set(
+    (value ?? "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter((id) => id !== "")
+  );
+
+/**
+ * Parse per-channel default collections from CHANNEL_DEFAULTS
+ *
+ * Format: CHANNEL_ID=prefix,CHANNEL_ID=prefix
+ */
+const parseChannelDefaults = (
+  value: string | undefined
+): Map<string, string> => {
+  const defaults = new Map<string, string>();
+
+  for (const entry of (value ?? "").split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const [channelId, prefix] = trimmed.split("=").map((p) => p.trim());
+    if (!(channelId && prefix)) {
+      log.warn(
+        `Invalid channel default (expected CHANNEL_ID=prefix): ${entry}`
+      );
+      continue;
+    }
+
+    defaults.set(channelId, prefix.toLowerCase());
+  }
+
+  return defaults;
+};
+
+const allowedChannels = parseChannelIds(ALLOWED_CHANNELS);
+const deniedChannels = parseChannelIds(DENIED_CHANNELS);
+const channelDefaults = parseChannelDefaults(CHANNEL_DEFAULTS);
+
+/**
+ * Check if the bot should respond to messages in a channel
+ *
+ * Denied channels always win. If an allow list is configured, only those
+ * channels are allowed; otherwise every other channel is.
+ */
+export const isChannelAllowed = (channelId: string): boolean => {
+  if (deniedChannels.has(channelId)) {
+    return false;
+  }
+  return allowedChannels.size === 0 || allowedChannels.has(channelId);
+};
+
+/**
+ * Get the default collection prefix configured for a channel (if any)
+ */
+export const getChannelDefaultPrefix = (
+  channelId: string
+): string | undefined => channelDefaults.get(channelId);
+
+/**
+ * Get a summary of the channel configuration for startup output
+ */
+export const getChannelConfig = (): {
+  allowed: string[];
+  denied: string[];
+  defaults: [string, string][];
+} => ({
+  allowed: [...allowedChannels],
+  denied: [...deniedChannels],
+  defaults: [...channelDefaults],
+});
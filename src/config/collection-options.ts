@@ -0,0 +1,138 @@
+import { createLogger } from "../lib/logger";
+import type { CollectionConfig } from "../lib/types";
+import { getCollectionByPrefix } from "./collection";
+import { DEFAULT_COLLECTION_CHOICE } from "./constants";
+
+const log = createLogger("CollectionOptions");
+
+const {
+  // Traits to show as embed fields: prefix|address=*|Trait+Trait,...
+  COLLECTION_TRAITS,
+  // Rarity data source: prefix|address=opensea|local,...
+  COLLECTION_RARITY,
+} = process.env;
+
+/** Value meaning "every trait" */
+const ALL_TRAITS = "*";
+
+/** Which traits a collection shows in its embeds */
+export type TraitFilter = "all" | string[];
+
+/**
+ * Where a collection's rarity comes from
+ * - opensea: OpenSea's rank and trait counts only
+ * - local: OpenSea's data when present, otherwise a locally built trait index
+ */
+export type RaritySource = "opensea" | "local";
+
+/** Valid rarity sources */
+const RARITY_SOURCES: readonly RaritySource[] = ["opensea", "local"];
+
+/**
+ * Parse a per-collection option env var
+ *
+ * Format: key=value,key=value
+ * Keys are collection prefixes or contract addresses. Use "default" as the
+ * prefix for the unprefixed (default) collection.
+ *
+ * @returns Map of key -> raw value
+ */
+export const parseCollectionOptions = (
+  name: string,
+  value: string | undefined
+): Map<string, string> => {
+  const options = new Map<string, string>();
+
+  for (const entry of (value ?? "").split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const separatorIndex = trimmed.indexOf("=");
+    const prefix = trimmed.slice(0, separatorIndex).trim().toLowerCase();
+    const optionValue = trimmed.slice(separatorIndex + 1).trim();
+    if (separatorIndex === -1 || !prefix || !optionValue) {
+      log.warn(`Invalid ${name} entry (expected prefix=value): ${entry}`);
+      continue;
+    }
+
+    options.set(
+      prefix === DEFAULT_COLLECTION_CHOICE ? "" : prefix,
+      optionValue
+    );
+  }
+
+  return options;
+};
+
+/**
+ * Get a collection's entry from a per-collection option map
+ *
+ * A contract address key matches the collection anywhere. A prefix key refers
+ * to the global collection set, so a guild collection that reuses the prefix
+ * for another contract doesn't get the option.
+ */
+export const getCollectionOption = <T>(
+  options: Map<string, T>,
+  collection: CollectionConfig
+): T | undefined => {
+  const byAddress = options.get(collection.address.toLowerCase());
+  if (byAddress !== undefined) {
+    return byAddress;
+  }
+
+  const global = getCollectionByPrefix(collection.prefix);
+  const sameContract =
+    global?.chain === collection.chain &&
+    global.address.toLowerCase() === collection.address.toLowerCase();
+  return sameContract ? options.get(collection.prefix) : undefined;
+};
+
+/**
+ * Parse a trait filter value ("*" or Trait+Trait)
+ */
+const parseTraitFilter = (value: string): TraitFilter =>
+  value === ALL_TRAITS
+    ? "all"
+    : value
+        .split("+")
+        .map((t) => t.trim())
+        .filter((t) => t !== "");
+
+const traitFilters = new Map(
+  [...parseCollectionOptions("COLLECTION_TRAITS", COLLECTION_TRAITS)].map(
+    ([prefix, value]) => [prefix, parseTraitFilter(value)]
+  )
+);
+
+/**
+ * Get the traits a collection shows in its embeds
+ * Returns undefined if the collection doesn't show traits
+ */
+export const getTraitFilter = (
+  collection: CollectionConfig
+): TraitFilter | undefined => getCollectionOption(traitFilters, collection);
+
+const raritySources = new Map<string, RaritySource>();
+for (const [prefix, value] of parseCollectionOptions(
+  "COLLECTION_RARITY",
+  COLLECTION_RARITY
+)) {
+  const source = value.toLowerCase() as RaritySource;
+  if (RARITY_SOURCES.includes(source)) {
+    raritySources.set(prefix, source);
+  } else {
+    log.warn(
+      `Invalid COLLECTION_RARITY source for ${prefix || "default"}: ${value}`
+    );
+  }
+}
+
+/**
+ * Get where a collection's rarity comes from
+ * Returns undefined if the collection doesn't show rarity
+ */
+export const getRaritySource = (
+  collection: CollectionConfig
+): RaritySource | undefined => getCollectionOption(raritySources, collection);
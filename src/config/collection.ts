@@ -3,9 +3,11 @@ import { createLogger, isDebugEnabled } from "../lib/logger";
 import type {
   CollectionConfig,
   Log,
+  RequestScope,
   TokenMatch,
   UsernameMatch,
 } from "../lib/types";
+import { getChannelDefaultPrefix } from "./channels";
 import { DEFAULT_CHAIN, DEFAULT_EMBED_COLOR } from "./constants";
 
 const log = createLogger("Collection");
@@ -23,15 +25,24 @@ const {
   COLLECTIONS,
 } = process.env;
 
-/** Map of prefix -> CollectionConfig */
+/** Map of prefix -> CollectionConfig (global set) */
 const collectionMap = new Map<string, CollectionConfig>();
 
+/** Map of guild ID -> (prefix -> CollectionConfig) for guilds with their own set */
+const guildCollectionMaps = new Map<string, Map<string, CollectionConfig>>();
+
+/** Env var prefix for per-guild collection sets (GUILD_COLLECTIONS_<guildId>) */
+const GUILD_COLLECTIONS_ENV_PREFIX = "GUILD_COLLECTIONS_";
+
 /** Map of collection address -> slug */
 const slugMap = new Map<string, string>();
 
 /** Username validation regex - alphanumeric/underscore, 3-15 chars, starts with letter */
 const USERNAME_REGEX = /^[a-zA-Z][a-zA-Z0-9_]{2,14}$/;
 
+/** Regex to match a string of digits */
+const DIGITS_REGEX = /^\d+$/;
+
 /** Regex to match trailing colon */
 const TRAILING_COLON_REGEX = /:$/;
 
@@ -189,13 +200,13 @@ const parseCollectionEntry = (
  *
  * Prefix detection for first entry: if first part starts with 0x, treated as address (no prefix)
  */
-const parseCollections = (): CollectionConfig[] => {
-  if (!COLLECTIONS) {
+const parseCollections = (value: string | undefined): CollectionConfig[] => {
+  if (!value) {
     return [];
   }
 
   const collections: CollectionConfig[] = [];
-  const entries = COLLECTIONS.split(",").map((e) => e.trim());
+  const entries = value.split(",").map((e) => e.trim());
 
   for (const [index, entry] of entries.entries()) {
     const config = parseCollectionEntry(entry, index === 0);
@@ -230,31 +241,75 @@ const parseLegacyCollection = (): CollectionConfig | undefined => {
   };
 };
 
+/**
+ * Add parsed collections to a prefix map
+ */
+const addCollectionsToMap = (
+  map: Map<string, CollectionConfig>,
+  collections: CollectionConfig[],
+  label = ""
+): void => {
+  for (const collection of collections) {
+    map.set(collection.prefix, collection);
+
+    if (collection.prefix === "") {
+      log.info(`${label}Default collection: ${collection.name}`);
+    } else {
+      log.info(`${label}Collection "${collection.prefix}": ${collection.name}`);
+    }
+  }
+};
+
+/**
+ * Initialize per-guild collection sets from GUILD_COLLECTIONS_<guildId> env vars
+ * Each uses the same format as COLLECTIONS.
+ */
+const initGuildCollections = (): void => {
+  guildCollectionMaps.clear();
+
+  for (const [key, value] of Object.entries(process.env)) {
+    if (!key.startsWith(GUILD_COLLECTIONS_ENV_PREFIX)) {
+      continue;
+    }
+
+    const guildId = key.slice(GUILD_COLLECTIONS_ENV_PREFIX.length);
+    const collections = parseCollections(value);
+    if (!guildId || collections.length === 0) {
+      log.warn(`No valid collections in ${key}, skipping`);
+      continue;
+    }
+
+    const map = new Map<string, CollectionConfig>();
+    addCollectionsToMap(map, collections, `[guild ${guildId}] `);
+    guildCollectionMaps.set(guildId, map);
+  }
+
+  if (guildCollectionMaps.size > 0) {
+    log.info(`Loaded collection sets for ${guildCollectionMaps.size} guild(s)`);
+  }
+};
+
 /**
  * Initialize all collections from environment
  *
  * Priority:
  * 1. COLLECTIONS env var (multi-collection format)
  * 2. Legacy TOKEN_ADDRESS/TOKEN_NAME vars (single collection)
+ *
+ * Guilds with a GUILD_COLLECTIONS_<guildId> env var get their own set;
+ * all other guilds (and DMs) use the global set.
  */
 export const initCollections = (): void => {
   log.info("Initializing collections from environment");
   collectionMap.clear();
+  initGuildCollections();
 
   // Try multi-collection format first
-  const collections = parseCollections();
+  const collections = parseCollections(COLLECTIONS);
 
   if (collections.length > 0) {
     // First collection is the default (no prefix)
-    for (const collection of collections) {
-      collectionMap.set(collection.prefix, collection);
-
-      if (collection.prefix === "") {
-        log.info(`Default collection: ${collection.name}`);
-      } else {
-        log.info(`Collection "${collection.prefix}": ${collection.name}`);
-      }
-    }
+    addCollectionsToMap(collectionMap, collections);
   } else {
     // Fall back to legacy single-collection format
     const legacy = parseLegacyCollection();
@@ -264,7 +319,7 @@ export const initCollections = (): void => {
     }
   }
 
-  if (collectionMap.size === 0) {
+  if (collectionMap.size === 0 && guildCollectionMaps.size === 0) {
     throw new Error(
       "No collections configured. Set COLLECTIONS env var.\n" +
         "Format: address:name:minId:maxId[:chain][:color][:customDescription][:imageUrl],prefix:address:name:minId:maxId[:chain][:color][:customDescription][:imageUrl]\n" +
@@ -276,31 +331,141 @@ export const initCollections = (): void => {
 };
 
 /**
- * Get all configured collections
+ * Get the prefix map for a scope
+ * Uses the guild's own set if configured, otherwise the global set
  */
-export const getCollections = (): CollectionConfig[] => [
-  ...collectionMap.values(),
+const getCollectionMap = (
+  scope?: RequestScope
+): Map<string, CollectionConfig> =>
+  (scope?.guildId ? guildCollectionMaps.get(scope.guildId) : undefined) ??
+  collectionMap;
+
+/**
+ * Get all configured collections for a scope
+ */
+export const getCollections = (scope?: RequestScope): CollectionConfig[] => [
+  ...getCollectionMap(scope).values(),
 ];
 
 /**
- * Get the default (primary) collection
- * Falls back to first collection if no explicit default (empty prefix) exists
+ * Get every configured collection across the global and per-guild sets
+ * (guild sets may share collections with the global set, listed once)
  */
-export const getDefaultCollection = (): CollectionConfig | undefined => {
-  const explicit = collectionMap.get("");
+export const getAllCollections = (): CollectionConfig[] => [
+  ...new Set([
+    ...collectionMap.values(),
+    ...[...guildCollectionMaps.values()].flatMap((map) => [...map.values()]),
+  ]),
+];
+
+/**
+ * Get guild IDs that have their own collection set
+ */
+export const getConfiguredGuildIds = (): string[] => [
+  ...guildCollectionMaps.keys(),
+];
+
+/**
+ * Get the default (primary) collection for a scope
+ *
+ * A channel's configured default (CHANNEL_DEFAULTS) takes priority. Otherwise
+ * falls back to first collection if no explicit default (empty prefix) exists.
+ */
+export const getDefaultCollection = (
+  scope?: RequestScope
+): CollectionConfig | undefined => {
+  const map = getCollectionMap(scope);
+
+  const channelPrefix = scope?.channelId
+    ? getChannelDefaultPrefix(scope.channelId)
+    : undefined;
+  const channelDefault =
+    channelPrefix === undefined ? undefined : map.get(channelPrefix);
+  if (channelDefault) {
+    return channelDefault;
+  }
+
+  const explicit = map.get("");
   if (explicit) {
     return explicit;
   }
   // Fall back to first collection if no explicit default
-  return collectionMap.values().next().value;
+  return map.values().next().value;
 };
 
 /**
- * Get a collection by its prefix
+ * Get a collection by its prefix for a scope
  */
 export const getCollectionByPrefix = (
+  prefix: string,
+  scope?: RequestScope
+): CollectionConfig | undefined =>
+  getCollectionMap(scope).get(prefix.toLowerCase());
+
+/**
+ * Get a guild's own prefix map, creating it from the global set if needed
+ */
+const getOrCreateGuildMap = (
+  guildId: string
+): Map<string, CollectionConfig> => {
+  let map = guildCollectionMaps.get(guildId);
+  if (!map) {
+    map = new Map(collectionMap);
+    guildCollectionMaps.set(guildId, map);
+  }
+  return map;
+};
+
+/**
+ * Add or replace a collection in a guild's set
+ *
+ * Guilds without their own set start from a copy of the global set, so
+ * changes in one guild never affect another.
+ */
+export const setGuildCollection = (
+  guildId: string,
+  collection: CollectionConfig
+): void => {
+  getOrCreateGuildMap(guildId).set(collection.prefix, collection);
+  log.info(
+    `[guild ${guildId}] Set collection "${collection.prefix}": ${collection.name}`
+  );
+};
+
+/**
+ * Remove a collection from a guild's set
+ * Returns false if the guild has no collection with that prefix
+ */
+export const removeGuildCollection = (
+  guildId: string,
   prefix: string
-): CollectionConfig | undefined => collectionMap.get(prefix.toLowerCase());
+): boolean => {
+  const map = getOrCreateGuildMap(guildId);
+  const removed = map.delete(prefix.toLowerCase());
+  if (removed) {
+    log.info(`[guild ${guildId}] Removed collection "${prefix}"`);
+  }
+  return removed;
+};
+
+/**
+ * Apply persisted runtime collection changes on top of the env configuration
+ *
+ * @param overrides - guild ID -> (prefix -> collection, or null if removed)
+ */
+export const applyCollectionOverrides = (
+  overrides: Record<string, Record<string, CollectionConfig | null>>
+): void => {
+  for (const [guildId, changes] of Object.entries(overrides)) {
+    for (const [prefix, collection] of Object.entries(changes)) {
+      if (collection) {
+        setGuildCollection(guildId, collection);
+      } else {
+        removeGuildCollection(guildId, prefix);
+      }
+    }
+  }
+};
 
 /**
  * Get the slug for a collection, fetching if needed
@@ -325,6 +490,32 @@ export const getSlugForCollection = async (
   return slug;
 };
 
+/**
+ * Look up a collection's slug and, for dynamic supply, its total supply
+ * Throws if either lookup fails
+ */
+export const initCollectionSlug = async (
+  collection: CollectionConfig,
+  userLog: Log
+): Promise<void> => {
+  const slug = await getSlugForCollection(collection, userLog);
+  if (!slug) {
+    throw new Error(`Could not find slug for collection: ${collection.name}`);
+  }
+
+  // Fetch total supply for collections with dynamic supply (maxTokenId = "*")
+  if (collection.dynamicSupply) {
+    const totalSupply = await fetchTotalSupply(slug, userLog);
+    if (totalSupply === undefined) {
+      throw new Error(
+        `Could not fetch total supply for collection: ${collection.name}`
+      );
+    }
+    collection.maxTokenId = totalSupply;
+    log.info(`Set dynamic maxTokenId for ${collection.name}: ${totalSupply}`);
+  }
+};
+
 /**
  * Initialize slugs for all collections and fetch total supply for dynamic collections
  */
@@ -332,23 +523,8 @@ export const initCollectionSlugs = async (): Promise<void> => {
   log.info("Fetching slugs for all collections");
   const userLog: Log = [];
 
-  for (const collection of collectionMap.values()) {
-    const slug = await getSlugForCollection(collection, userLog);
-    if (!slug) {
-      throw new Error(`Could not find slug for collection: ${collection.name}`);
-    }
-
-    // Fetch total supply for collections with dynamic supply (maxTokenId = "*")
-    if (collection.dynamicSupply) {
-      const totalSupply = await fetchTotalSupply(slug, userLog);
-      if (totalSupply === undefined) {
-        throw new Error(
-          `Could not fetch total supply for collection: ${collection.name}`
-        );
-      }
-      collection.maxTokenId = totalSupply;
-      log.info(`Set dynamic maxTokenId for ${collection.name}: ${totalSupply}`);
-    }
+  for (const collection of getAllCollections()) {
+    await initCollectionSlug(collection, userLog);
   }
 
   for (const message of userLog) {
@@ -381,6 +557,77 @@ export const isValidTokenId = (
   tokenId <= collection.maxTokenId &&
   !Number.isNaN(tokenId);
 
+/**
+ * Suggest token IDs for a collection that start with the typed input
+ *
+ * Suggestions are clamped to the collection's token range. If nothing in range
+ * starts with the input, the nearest bound (minTokenId or maxTokenId) is suggested.
+ */
+export const suggestTokenIds = (
+  collection: CollectionConfig,
+  input: string,
+  limit: number
+): number[] => {
+  const { minTokenId, maxTokenId } = collection;
+  const trimmed = input.trim();
+
+  if (!DIGITS_REGEX.test(trimmed)) {
+    const end = Math.min(maxTokenId, minTokenId + limit - 1);
+    const suggestions: number[] = [];
+    for (let id = minTokenId; id <= end; id++) {
+      suggestions.push(id);
+    }
+    return suggestions;
+  }
+
+  const typed = Number(trimmed);
+  const suggestions: number[] = [];
+
+  // Walk each magnitude of IDs starting with the typed digits (e.g. 1, 10-19, 100-199)
+  for (
+    let scale = 1;
+    typed * scale <= maxTokenId && suggestions.length < limit;
+    scale *= 10
+  ) {
+    const low = Math.max(typed * scale, minTokenId);
+    const high = Math.min((typed + 1) * scale - 1, maxTokenId);
+    for (let id = low; id <= high && suggestions.length < limit; id++) {
+      suggestions.push(id);
+    }
+    // Zero has no longer IDs that start with it
+    if (typed === 0) {
+      break;
+    }
+  }
+
+  if (suggestions.length === 0) {
+    return [typed < minTokenId ? minTokenId : maxTokenId];
+  }
+
+  return suggestions;
+};
+
+/**
+ * Search collections by prefix or name (case-insensitive)
+ */
+export const searchCollections = (
+  query: string,
+  scope?: RequestScope
+): CollectionConfig[] => {
+  const normalized = query.trim().toLowerCase();
+  const collections = getCollections(scope);
+
+  if (!normalized) {
+    return collections;
+  }
+
+  return collections.filter(
+    (c) =>
+      (c.prefix !== "" && c.prefix.startsWith(normalized)) ||
+      c.name.toLowerCase().includes(normalized)
+  );
+};
+
 /**
  * Check if a token ID might be valid for a collection with dynamic supply
  *
@@ -439,14 +686,15 @@ export const checkDynamicTokenId = async (
 
 /**
  * Build regex pattern for matching collection triggers
- * Supports: #1234, #random, prefix#1234, prefix#random
+ * Supports: #1234, #random, prefix#1234, prefix#random, and a trailing
+ * "history" or "provenance" keyword (#1234 history)
  */
-const buildMatchRegex = (): RegExp => {
-  const prefixes = [...collectionMap.keys()].filter((p) => p !== "");
+const buildMatchRegex = (scope?: RequestScope): RegExp => {
+  const prefixes = [...getCollectionMap(scope).keys()].filter((p) => p !== "");
   const prefixPattern = prefixes.length > 0 ? `(?:${prefixes.join("|")})?` : "";
 
-  // Match: optional prefix + # + (random|rand|?|digits)
-  const pattern = `(${prefixPattern})#(random|rand|\\?|\\d+)(?:\\s|\\n|\\W|$)`;
+  // Match: optional prefix + # + (random|rand|?|digits) + optional mode
+  const pattern = `(${prefixPattern})#(random|rand|\\?|\\d+)(?:\\s+(history|provenance)\\b)?(?:\\s|\\n|\\W|$)`;
 
   if (isDebugEnabled()) {
     log.debug(`Match regex pattern: ${pattern}`);
@@ -489,9 +737,16 @@ const shouldAllowForDynamicCheck = (
 /**
  * Process a single regex match and add to matches array if valid
  */
-const processMatch = (match: RegExpExecArray, matches: TokenMatch[]): void => {
-  const [_fullMatch, prefix = "", idPart] = match;
-  const collection = getCollectionByPrefix(prefix) ?? getDefaultCollection();
+const processMatch = (
+  match: RegExpExecArray,
+  matches: TokenMatch[],
+  scope?: RequestScope
+): void => {
+  const [_fullMatch, prefix = "", idPart, mode] = match;
+  // No prefix means the scope's default (which may be a channel's default)
+  const collection =
+    (prefix === "" ? undefined : getCollectionByPrefix(prefix, scope)) ??
+    getDefaultCollection(scope);
 
   if (!collection) {
     log.debug(`No collection found for prefix "${prefix}", skipping`);
@@ -515,7 +770,13 @@ const processMatch = (match: RegExpExecArray, matches: TokenMatch[]): void => {
   );
 
   if (isValidTokenId(collection, tokenId) || allowDynamic) {
-    matches.push({ collection, tokenId });
+    matches.push({
+      collection,
+      tokenId,
+      isRandom,
+      // Keywords match in any case ("#5 History")
+      ...(mode ? { mode: mode.toLowerCase() as TokenMatch["mode"] } : {}),
+    });
     const suffix = allowDynamic ? " (pending dynamic check)" : "";
     log.debug(`Added match: ${collection.name} #${tokenId}${suffix}`);
   } else {
@@ -531,14 +792,19 @@ const processMatch = (match: RegExpExecArray, matches: TokenMatch[]): void => {
  * For collections with dynamicSupply, explicit token IDs (#123) are allowed
  * even if they exceed the current maxTokenId - they'll be validated later
  * with a fresh supply check.
+ *
+ * Prefixes resolve against the scope's guild collection set (or the global set).
  */
-export const parseMessageMatches = (content: string): TokenMatch[] => {
+export const parseMessageMatches = (
+  content: string,
+  scope?: RequestScope
+): TokenMatch[] => {
   const matches: TokenMatch[] = [];
-  const regex = buildMatchRegex();
+  const regex = buildMatchRegex(scope);
 
   let match: RegExpExecArray | null = regex.exec(content);
   while (match !== null) {
-    processMatch(match, matches);
+    processMatch(match, matches, scope);
     match = regex.exec(content);
   }
 
@@ -552,15 +818,37 @@ export const parseMessageMatches = (content: string): TokenMatch[] => {
 };
 
 /**
- * Get help text showing available collection prefixes
+ * Format a collection's token range (dynamic supply ranges end in +)
+ */
+export const formatTokenRange = (collection: CollectionConfig): string => {
+  const range = `${collection.minTokenId}-${collection.maxTokenId}`;
+  return collection.dynamicSupply ? `${range}+` : range;
+};
+
+/**
+ * Get help text showing available collection prefixes and token ranges
+ * The scope's default collection (which may be a channel default) is
+ * listed with the unprefixed #1234 syntax.
  */
-export const getHelpText = (): string => {
+export const getHelpText = (scope?: RequestScope): string => {
   const lines = ["**Available collections:**"];
+  const defaultCollection = getDefaultCollection(scope);
 
-  for (const collection of collectionMap.values()) {
-    const _label = collection.prefix || "(default)";
-    const example = collection.prefix ? `${collection.prefix}#1234` : "#1234";
-    lines.push(`• \`${example}\` - ${collection.name}`);
+  for (const collection of getCollections(scope)) {
+    const examples: string[] = [];
+    if (collection === defaultCollection) {
+      examples.push("`#1234`");
+    }
+    if (collection.prefix) {
+      examples.push(`\`${collection.prefix}#1234\``);
+    }
+    // An unprefixed collection replaced by a channel default can't be triggered
+    if (examples.length === 0) {
+      continue;
+    }
+    lines.push(
+      `• ${examples.join(" or ")} - ${collection.name} (${formatTokenRange(collection)})`
+    );
   }
 
   return lines.join("\n");
@@ -572,8 +860,8 @@ export const getHelpText = (): string => {
  *
  * Username pattern: alphanumeric, underscores, 3-15 chars (OpenSea username rules)
  */
-const buildUsernameMatchRegex = (): RegExp => {
-  const prefixes = [...collectionMap.keys()].filter((p) => p !== "");
+const buildUsernameMatchRegex = (scope?: RequestScope): RegExp => {
+  const prefixes = [...getCollectionMap(scope).keys()].filter((p) => p !== "");
   const prefixPattern = prefixes.length > 0 ? `(?:${prefixes.join("|")})?` : "";
 
   // Match: optional prefix + # + username (alphanumeric/underscore, 3-15 chars, not starting with digit)
@@ -600,12 +888,24 @@ const isUsername = (value: string): boolean => {
   return !reserved.includes(value.toLowerCase());
 };
 
+/** Keyword asking for a collage instead of separate embeds ("#1 #2 #3 grid") */
+const GRID_KEYWORD_PATTERN = /(?:^|\s)grid(?=\s|$)/i;
+
+/**
+ * Check if message content asks for a collage (grid) reply
+ */
+export const isGridRequest = (content: string): boolean =>
+  GRID_KEYWORD_PATTERN.test(content);
+
 /**
  * Parse message content and extract username matches for random by user
  */
-export const parseUsernameMatches = (content: string): UsernameMatch[] => {
+export const parseUsernameMatches = (
+  content: string,
+  scope?: RequestScope
+): UsernameMatch[] => {
   const matches: UsernameMatch[] = [];
-  const regex = buildUsernameMatchRegex();
+  const regex = buildUsernameMatchRegex(scope);
 
   let match: RegExpExecArray | null = regex.exec(content);
   while (match !== null) {
@@ -618,7 +918,9 @@ export const parseUsernameMatches = (content: string): UsernameMatch[] => {
     }
 
     const collection =
-      prefix !== "" ? getCollectionByPrefix(prefix) : getDefaultCollection();
+      prefix !== ""
+        ? getCollectionByPrefix(prefix, scope)
+        : getDefaultCollection(scope);
 
     log.debug(
       `Matched username request: ${collection?.name ?? "any"} #${usernamePart}`
@@ -1,14 +1,73 @@
 /** Time constants */
 export const ONE_SECOND_MS = 1000;
 export const SECONDS_PER_MINUTE = 60;
+export const SECONDS_PER_DAY = 86_400;
 
 /** Discord limits */
 export const MAX_EMBEDS_PER_MESSAGE = 6;
+export const MAX_ACTION_ROWS_PER_MESSAGE = 5;
+export const MAX_FIELDS_PER_EMBED = 25;
+
+/** Slash command choice value for the default (unprefixed) collection */
+export const DEFAULT_COLLECTION_CHOICE = "default";
 
 /** Cache sizes */
 export const USERNAME_CACHE_CAPACITY = 100;
 export const COLLECTION_SLUG_CACHE_CAPACITY = 10;
 
+/** How long usernames are cached (ENS names and OpenSea usernames can change) */
+export const USERNAME_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/** How long collection stats (floor price) are cached */
+export const COLLECTION_STATS_TTL_MS = 5 * 60 * 1000;
+
+/** Delay between token fetches when building a local rarity index */
+export const RARITY_INDEX_DELAY_MS = 250;
+/** Age after which a saved local rarity index is rebuilt (7 days) */
+export const RARITY_INDEX_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Largest animation sent as an attachment (Discord's default upload limit) */
+export const MAX_MEDIA_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+/** Timeout for fetching animations */
+export const MEDIA_FETCH_TIMEOUT_MS = 10_000;
+
+/** Timeout for JSON-RPC requests (e.g. ENS lookups) */
+export const RPC_TIMEOUT_MS = 5000;
+
+/** Fiat rate cache (rates by currency and token) */
+export const FIAT_RATE_CACHE_CAPACITY = 50;
+export const FIAT_RATE_TTL_MS = 5 * 60 * 1000;
+/** Price oracle request timeout (cached rates are used when it fires) */
+export const FIAT_RATE_TIMEOUT_MS = 5000;
+
+/** Sales history: events per page, pages fetched and sales listed in the table */
+export const HISTORY_PAGE_SIZE = 50;
+export const HISTORY_MAX_PAGES = 4;
+export const HISTORY_TABLE_ROWS = 10;
+
+/** Provenance timelines: most event pages fetched and entries listed */
+export const PROVENANCE_MAX_PAGES = 10;
+export const PROVENANCE_MAX_ENTRIES = 15;
+
+/** Owner holdings: tokens per account page, most pages counted and cache */
+export const ACCOUNT_NFTS_PAGE_SIZE = 50;
+export const HOLDINGS_MAX_PAGES = 20;
+export const HOLDINGS_CACHE_CAPACITY = 100;
+export const HOLDINGS_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/** Collage (grid) replies: most tokens per collage and concurrent fetches */
+export const MAX_COLLAGE_TOKENS = 25;
+export const COLLAGE_FETCH_CONCURRENCY = 5;
+
+/** SVG rendering: largest SVG downloaded and largest output (pixels) */
+export const SVG_MAX_BYTES = 2 * 1024 * 1024;
+export const SVG_MAX_RENDER_SIZE = 2048;
+
+/** SVGs that can't be rendered: tokens remembered and for how long */
+export const SVG_FAILURE_CACHE_CAPACITY = 500;
+export const SVG_FAILURE_CACHE_TTL_MS = 60 * 60 * 1000;
+
 /** Address formatting */
 export const ADDRESS_PREFIX_LENGTH = 7;
 export const ADDRESS_SUFFIX_START = 37;
@@ -21,6 +80,21 @@ export const DECIMAL_TRIM_LENGTH = 5;
 /** OpenSea API */
 export const OPENSEA_API_BASE = "https://api.opensea.io/api/v2";
 
+/** OpenSea item pages (linked from embeds built from on-chain data) */
+export const OPENSEA_ASSET_BASE = "https://opensea.io/assets";
+
+/** Default gateways for ipfs:// and ar:// URLs, in the order they're tried */
+export const DEFAULT_IPFS_GATEWAYS = [
+  "https://ipfs.io/ipfs/",
+  "https://dweb.link/ipfs/",
+];
+export const DEFAULT_ARWEAVE_GATEWAYS = ["https://arweave.net/"];
+
+/** Gateway reachability checks: timeout and how long results are cached */
+export const GATEWAY_CHECK_TIMEOUT_MS = 3000;
+export const GATEWAY_CACHE_CAPACITY = 200;
+export const GATEWAY_CACHE_TTL_MS = 10 * 60 * 1000;
+
 /** Image processing */
 export const IMAGE_WIDTH_REGEX = /w=(\d)*/;
 export const HIGH_RES_IMAGE_WIDTH = "w=1000";
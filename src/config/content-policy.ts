@@ -0,0 +1,105 @@
+import { createLogger } from "../lib/logger";
+import type { NFTFlags, RequestScope } from "../lib/types";
+
+const log = createLogger("ContentPolicy");
+
+// How NSFW tokens are shown: show, hide, spoiler, nsfw-channels or refuse
+const { NSFW_POLICY } = process.env;
+
+/** Env var prefix for per-guild and per-channel policies */
+const SCOPED_POLICY_ENV_PREFIX = "NSFW_POLICY_";
+
+/**
+ * How to show tokens OpenSea flags as NSFW
+ * - show: like any other token
+ * - hide: without their image or media
+ * - spoiler: with their image attached as a spoiler instead of in the embed
+ * - nsfw-channels: only in age-restricted channels
+ * - refuse: not at all
+ */
+export type NsfwPolicy =
+  | "show"
+  | "hide"
+  | "spoiler"
+  | "nsfw-channels"
+  | "refuse";
+
+/** What to do with an NSFW token in a channel */
+export type NsfwAction = Exclude<NsfwPolicy, "nsfw-channels">;
+
+const NSFW_POLICIES: readonly NsfwPolicy[] = [
+  "show",
+  "hide",
+  "spoiler",
+  "nsfw-channels",
+  "refuse",
+];
+
+/**
+ * Parse an NSFW policy env var (undefined if unset or invalid)
+ */
+export const parseNsfwPolicy = (
+  name: string,
+  value: string | undefined
+): NsfwPolicy | undefined => {
+  const policy = value?.trim().toLowerCase();
+  if (!policy) {
+    return;
+  }
+  if (!NSFW_POLICIES.includes(policy as NsfwPolicy)) {
+    log.warn(
+      `Invalid ${name} (expected one of ${NSFW_POLICIES.join(", ")}): ${value}`
+    );
+    return;
+  }
+  return policy as NsfwPolicy;
+};
+
+const defaultPolicy = parseNsfwPolicy("NSFW_POLICY", NSFW_POLICY) ?? "show";
+
+/** Policies by guild or channel ID from NSFW_POLICY_<id> */
+const scopedPolicies = new Map<string, NsfwPolicy>();
+for (const [key, value] of Object.entries(process.env)) {
+  const id = key.startsWith(SCOPED_POLICY_ENV_PREFIX)
+    ? key.slice(SCOPED_POLICY_ENV_PREFIX.length)
+    : undefined;
+  const policy = id ? parseNsfwPolicy(key, value) : undefined;
+  if (id && policy) {
+    scopedPolicies.set(id, policy);
+  }
+}
+
+/**
+ * Get the NSFW policy for a scope
+ * A channel's NSFW_POLICY_<channelId> wins over its guild's
+ * NSFW_POLICY_<guildId>, which wins over NSFW_POLICY.
+ */
+export const getNsfwPolicy = (scope?: RequestScope): NsfwPolicy =>
+  (scope?.channelId ? scopedPolicies.get(scope.channelId) : undefined) ??
+  (scope?.guildId ? scopedPolicies.get(scope.guildId) : undefined) ??
+  defaultPolicy;
+
+/**
+ * Decide how to show an NFT in a scope
+ * Tokens that aren't flagged NSFW are always shown.
+ */
+export const getNsfwAction = (
+  nft: NFTFlags,
+  scope?: RequestScope
+): NsfwAction => {
+  if (!nft.is_nsfw) {
+    return "show";
+  }
+  const policy = getNsfwPolicy(scope);
+  if (policy === "nsfw-channels") {
+    return scope?.nsfw ? "show" : "refuse";
+  }
+  return policy;
+};
+
+/**
+ * Check if OpenSea flags an NFT as disabled, NSFW or suspicious (these are
+ * skipped when picking random tokens)
+ */
+export const isFlaggedNFT = (nft: NFTFlags): boolean =>
+  Boolean(nft.is_disabled || nft.is_nsfw || nft.is_suspicious);
@@ -0,0 +1,210 @@
+import { readFileSync } from "node:fs";
+import { createLogger } from "../lib/logger";
+import type { CollectionConfig } from "../lib/types";
+import { getCollectionOption } from "./collection-options";
+import { DEFAULT_COLLECTION_CHOICE } from "./constants";
+
+const log = createLogger("Templates");
+
+// Path to a JSON file of embed templates keyed by collection prefix or contract
+const { COLLECTION_TEMPLATES } = process.env;
+
+/** Fields built from OpenSea data (each may add zero or more embed fields) */
+export const BUILT_IN_FIELDS = [
+  "owner",
+  "editions",
+  "lastSale",
+  "listing",
+  "offer",
+  "floor",
+  "animation",
+  "rarity",
+  "traits",
+] as const;
+
+export type BuiltInField = (typeof BUILT_IN_FIELDS)[number];
+
+/** Display overrides shared by every template field */
+type FieldDisplay = {
+  /** Replaces the field name (ignored for "traits") */
+  label?: string;
+  /** Overrides whether the field is inline */
+  inline?: boolean;
+};
+
+/** A field in an embed template */
+export type TemplateField = FieldDisplay &
+  (
+    | { kind: "builtIn"; name: BuiltInField }
+    /** A single trait's value (matched case-insensitively) */
+    | { kind: "trait"; traitType: string }
+    /** A top-level NFT property from OpenSea (e.g. token_standard) */
+    | { kind: "property"; property: string }
+  );
+
+/**
+ * A collection's embed layout
+ * Title and footer support {collection}, {id} and {name} placeholders.
+ */
+export type EmbedTemplate = {
+  fields: TemplateField[];
+  title: string;
+  footer?: string;
+};
+
+/** Title used when a template doesn't set one */
+const DEFAULT_TITLE = "{collection} #{id}";
+
+/** Layout for collections without a template (the standard embed) */
+export const DEFAULT_TEMPLATE: EmbedTemplate = {
+  fields: BUILT_IN_FIELDS.map((name) => ({ kind: "builtIn", name })),
+  title: DEFAULT_TITLE,
+};
+
+/** Prefix for trait and property fields written as strings */
+const TRAIT_FIELD_PREFIX = "trait:";
+const PROPERTY_FIELD_PREFIX = "property:";
+
+/** A template field as written in the templates file */
+type RawField =
+  | string
+  | (FieldDisplay & { field?: string; trait?: string; property?: string });
+
+/** A template as written in the templates file */
+type RawTemplate = { fields?: RawField[]; title?: string; footer?: string };
+
+/**
+ * Parse a field written as a string ("owner", "trait:Eyes", "property:x")
+ */
+const parseFieldName = (value: string): TemplateField | undefined => {
+  if (value.startsWith(TRAIT_FIELD_PREFIX)) {
+    const traitType = value.slice(TRAIT_FIELD_PREFIX.length).trim();
+    return traitType ? { kind: "trait", traitType } : undefined;
+  }
+  if (value.startsWith(PROPERTY_FIELD_PREFIX)) {
+    const property = value.slice(PROPERTY_FIELD_PREFIX.length).trim();
+    return property ? { kind: "property", property } : undefined;
+  }
+  const name = BUILT_IN_FIELDS.find((f) => f === value);
+  return name ? { kind: "builtIn", name } : undefined;
+};
+
+/**
+ * Parse a template field (a string or an object with display overrides)
+ */
+const parseField = (raw: RawField): TemplateField | undefined => {
+  if (typeof raw === "string") {
+    return parseFieldName(raw);
+  }
+
+  let field: TemplateField | undefined;
+  if (raw.trait) {
+    field = { kind: "trait", traitType: raw.trait };
+  } else if (raw.property) {
+    field = { kind: "property", property: raw.property };
+  } else if (raw.field) {
+    field = parseFieldName(raw.field);
+  }
+  if (!field) {
+    return;
+  }
+
+  if (typeof raw.label === "string") {
+    field.label = raw.label;
+  }
+  if (typeof raw.inline === "boolean") {
+    field.inline = raw.inline;
+  }
+  return field;
+};
+
+/**
+ * Parse a collection's template (invalid fields are skipped with a warning)
+ */
+export const parseTemplate = (
+  prefix: string,
+  raw: RawTemplate
+): EmbedTemplate => {
+  const fields: TemplateField[] = [];
+  for (const rawField of raw.fields ?? []) {
+    const field = parseField(rawField);
+    if (field) {
+      fields.push(field);
+    } else {
+      log.warn(
+        `Invalid template field for ${prefix || "default"}: ${JSON.stringify(rawField)}`
+      );
+    }
+  }
+
+  return {
+    fields: raw.fields ? fields : DEFAULT_TEMPLATE.fields,
+    title: raw.title ?? DEFAULT_TITLE,
+    footer: raw.footer,
+  };
+};
+
+/**
+ * Load templates from a JSON file ({ "prefix": { fields, title, footer } })
+ * Keys may also be contract addresses. Use "default" as the key for the
+ * unprefixed collection.
+ */
+export const loadTemplates = (path: string): Map<string, EmbedTemplate> => {
+  const templates = new Map<string, EmbedTemplate>();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(`Failed to load COLLECTION_TEMPLATES from ${path}: ${message}`);
+    return templates;
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    log.warn(`COLLECTION_TEMPLATES in ${path} must be an object by collection`);
+    return templates;
+  }
+
+  for (const [key, raw] of Object.entries(
+    parsed as Record<string, RawTemplate>
+  )) {
+    const prefix = key.trim().toLowerCase();
+    templates.set(
+      prefix === DEFAULT_COLLECTION_CHOICE ? "" : prefix,
+      parseTemplate(prefix, raw)
+    );
+  }
+  log.info(`Loaded embed templates for ${templates.size} collection(s)`);
+  return templates;
+};
+
+const templates = COLLECTION_TEMPLATES
+  ? loadTemplates(COLLECTION_TEMPLATES)
+  : new Map<string, EmbedTemplate>();
+
+/**
+ * Get a collection's embed template (the standard layout if it has none)
+ */
+export const getEmbedTemplate = (collection: CollectionConfig): EmbedTemplate =>
+  getCollectionOption(templates, collection) ?? DEFAULT_TEMPLATE;
+
+/**
+ * Check if a collection's template uses a built-in field
+ */
+export const templateHasField = (
+  template: EmbedTemplate,
+  name: BuiltInField
+): boolean =>
+  template.fields.some((f) => f.kind === "builtIn" && f.name === name);
+
+/**
+ * Fill in a title or footer format
+ */
+export const formatTemplateText = (
+  format: string,
+  values: { collection: string; id: number; name?: string }
+): string =>
+  format
+    .replace(/{collection}/g, values.collection)
+    .replace(/{id}/g, String(values.id))
+    .replace(/{name}/g, values.name ?? "")
+    .trim();
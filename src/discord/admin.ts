@@ -0,0 +1,503 @@
+import {
+  ChannelType,
+  type ChatInputCommandInteraction,
+  InteractionContextType,
+  MessageFlags,
+  PermissionFlagsBits,
+  type RESTPostAPIChatInputApplicationCommandsJSONBody,
+  SlashCommandBuilder,
+  type SlashCommandSubcommandBuilder,
+} from "discord.js";
+import {
+  getCollectionByPrefix,
+  initCollectionSlug,
+  removeGuildCollection,
+  setGuildCollection,
+} from "../config/collection";
+import {
+  DEFAULT_CHAIN,
+  DEFAULT_COLLECTION_CHOICE,
+  DEFAULT_EMBED_COLOR,
+} from "../config/constants";
+import { createLogger } from "../lib/logger";
+import type {
+  CollectionConfig,
+  Log,
+  RandomSchedule,
+  RequestScope,
+} from "../lib/types";
+import { getStateManager } from "../state/state";
+import {
+  deleteSchedule,
+  formatSchedule,
+  getSchedule,
+  getSchedules,
+  saveSchedule,
+} from "./schedules";
+
+const log = createLogger("Admin");
+
+/** Admin command name */
+export const ADMIN_COMMAND_NAME = "admin";
+
+/** Prefixes are used in the match regex, so keep them to simple characters */
+const PREFIX_REGEX = /^[a-z0-9_]{1,20}$/;
+
+/** Embed colors must be hex (#rrggbb) */
+const COLOR_REGEX = /^#[0-9a-f]{6}$/i;
+
+/** Schedule collection option meaning "rotate through all collections" */
+const ALL_COLLECTIONS_OPTION = "*";
+
+/** Max token ID value meaning "fetch supply from OpenSea" */
+const DYNAMIC_SUPPLY_MAX = "*";
+
+/** Error shown to the admin when their input is invalid */
+class AdminInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AdminInputError";
+  }
+}
+
+/**
+ * Add the optional collection fields shared by add and edit
+ */
+const addCollectionFieldOptions = (
+  subcommand: SlashCommandSubcommandBuilder,
+  required: boolean
+): SlashCommandSubcommandBuilder =>
+  subcommand
+    .addStringOption((option) =>
+      option
+        .setName("address")
+        .setDescription("Contract address")
+        .setRequired(required)
+    )
+    .addStringOption((option) =>
+      option
+        .setName("name")
+        .setDescription("Display name")
+        .setRequired(required)
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("min")
+        .setDescription("Lowest token ID")
+        .setRequired(required)
+        .setMinValue(0)
+    )
+    .addStringOption((option) =>
+      option
+        .setName("max")
+        .setDescription("Highest token ID, or * to fetch supply from OpenSea")
+        .setRequired(required)
+    )
+    .addStringOption((option) =>
+      option.setName("chain").setDescription(`Chain (default ${DEFAULT_CHAIN})`)
+    )
+    .addStringOption((option) =>
+      option.setName("color").setDescription("Embed color (#rrggbb)")
+    );
+
+/**
+ * Add the channel option used by schedule subcommands
+ */
+const addScheduleChannelOption = (
+  subcommand: SlashCommandSubcommandBuilder
+): SlashCommandSubcommandBuilder =>
+  subcommand.addChannelOption((option) =>
+    option
+      .setName("channel")
+      .setDescription("Channel to post in")
+      .setRequired(true)
+      .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement)
+  );
+
+/**
+ * Build the /admin command definition
+ * Only members with Manage Guild can see or use it.
+ */
+export const buildAdminCommandData =
+  (): RESTPostAPIChatInputApplicationCommandsJSONBody =>
+    new SlashCommandBuilder()
+      .setName(ADMIN_COMMAND_NAME)
+      .setDescription("Manage the bot for this server")
+      .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+      .setContexts(InteractionContextType.Guild)
+      .addSubcommandGroup((group) =>
+        group
+          .setName("collection")
+          .setDescription("Manage this server's collections")
+          .addSubcommand((subcommand) =>
+            addCollectionFieldOptions(
+              subcommand
+                .setName("add")
+                .setDescription("Add a collection")
+                .addStringOption((option) =>
+                  option
+                    .setName("prefix")
+                    .setDescription(
+                      `Trigger prefix (e.g. art for art#1234, or ${DEFAULT_COLLECTION_CHOICE})`
+                    )
+                    .setRequired(true)
+                ),
+              true
+            )
+          )
+          .addSubcommand((subcommand) =>
+            addCollectionFieldOptions(
+              subcommand
+                .setName("edit")
+                .setDescription("Change a collection")
+                .addStringOption((option) =>
+                  option
+                    .setName("collection")
+                    .setDescription("Collection to change")
+                    .setRequired(true)
+                    .setAutocomplete(true)
+                ),
+              false
+            )
+          )
+          .addSubcommand((subcommand) =>
+            subcommand
+              .setName("remove")
+              .setDescription("Remove a collection")
+              .addStringOption((option) =>
+                option
+                  .setName("collection")
+                  .setDescription("Collection to remove")
+                  .setRequired(true)
+                  .setAutocomplete(true)
+              )
+          )
+      )
+      .addSubcommandGroup((group) =>
+        group
+          .setName("schedule")
+          .setDescription("Manage scheduled random posts")
+          .addSubcommand((subcommand) =>
+            addScheduleChannelOption(
+              subcommand
+                .setName("set")
+                .setDescription("Create or change a channel's schedule")
+            )
+              .addIntegerOption((option) =>
+                option
+                  .setName("minutes")
+                  .setDescription("Minutes between posts")
+                  .setRequired(true)
+                  .setMinValue(1)
+              )
+              .addStringOption((option) =>
+                option
+                  .setName("collections")
+                  .setDescription(
+                    "Prefix, prefixes joined with + (bot+artifact), or * for all"
+                  )
+              )
+          )
+          .addSubcommand((subcommand) =>
+            addScheduleChannelOption(
+              subcommand.setName("pause").setDescription("Pause a schedule")
+            )
+          )
+          .addSubcommand((subcommand) =>
+            addScheduleChannelOption(
+              subcommand.setName("resume").setDescription("Resume a schedule")
+            )
+          )
+          .addSubcommand((subcommand) =>
+            addScheduleChannelOption(
+              subcommand.setName("delete").setDescription("Delete a schedule")
+            )
+          )
+          .addSubcommand((subcommand) =>
+            subcommand
+              .setName("list")
+              .setDescription("List this server's schedules")
+          )
+      )
+      .toJSON();
+
+/**
+ * Normalize a prefix option ("default" means the unprefixed collection)
+ */
+export const normalizePrefix = (value: string): string => {
+  const prefix = value.trim().toLowerCase();
+  if (prefix === DEFAULT_COLLECTION_CHOICE) {
+    return "";
+  }
+  if (!PREFIX_REGEX.test(prefix)) {
+    throw new AdminInputError(
+      "Prefixes may only contain letters, numbers and underscores (max 20)"
+    );
+  }
+  return prefix;
+};
+
+/**
+ * Parse the max option ("*" for dynamic supply)
+ */
+const parseMax = (
+  value: string,
+  minTokenId: number
+): { maxTokenId: number; dynamicSupply: boolean } => {
+  if (value.trim() === DYNAMIC_SUPPLY_MAX) {
+    return { maxTokenId: minTokenId, dynamicSupply: true };
+  }
+  const maxTokenId = Number(value);
+  if (!Number.isInteger(maxTokenId) || maxTokenId < minTokenId) {
+    throw new AdminInputError(
+      `Max must be a whole number of at least ${minTokenId}, or ${DYNAMIC_SUPPLY_MAX}`
+    );
+  }
+  return { maxTokenId, dynamicSupply: false };
+};
+
+/**
+ * Build a collection from command options, starting from an existing
+ * collection when editing
+ */
+export const buildCollectionFromOptions = (
+  options: ChatInputCommandInteraction["options"],
+  prefix: string,
+  existing?: CollectionConfig
+): CollectionConfig => {
+  const address = options.getString("address")?.trim() ?? existing?.address;
+  const name = options.getString("name")?.trim() ?? existing?.name;
+  const minTokenId = options.getInteger("min") ?? existing?.minTokenId ?? 0;
+  const maxOption = options.getString("max");
+  const color = options.getString("color")?.trim();
+
+  if (!(address && name)) {
+    throw new AdminInputError("Address and name are required");
+  }
+  if (color && !COLOR_REGEX.test(color)) {
+    throw new AdminInputError("Color must be a hex color like #00ff88");
+  }
+
+  const range = maxOption
+    ? parseMax(maxOption, minTokenId)
+    : {
+        maxTokenId: existing?.maxTokenId ?? minTokenId,
+        dynamicSupply: existing?.dynamicSupply ?? false,
+      };
+  if (!range.dynamicSupply && range.maxTokenId < minTokenId) {
+    throw new AdminInputError(
+      `Min must not be above max (${range.maxTokenId})`
+    );
+  }
+
+  return {
+    ...existing,
+    prefix,
+    address,
+    name,
+    chain:
+      options.getString("chain")?.trim() || existing?.chain || DEFAULT_CHAIN,
+    minTokenId,
+    ...range,
+    color: color || existing?.color || DEFAULT_EMBED_COLOR,
+  };
+};
+
+/**
+ * Describe how to trigger a collection
+ */
+const getSyntax = (prefix: string): string =>
+  prefix ? `${prefix}#1234` : "#1234";
+
+/**
+ * Look up a collection's slug/supply, then save it to the guild's set
+ */
+const saveCollection = async (
+  guildId: string,
+  collection: CollectionConfig,
+  userLog: Log
+): Promise<void> => {
+  try {
+    await initCollectionSlug(collection, userLog);
+  } catch (error) {
+    throw new AdminInputError(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  setGuildCollection(guildId, collection);
+  const stateManager = getStateManager();
+  stateManager.setCollectionOverride(guildId, collection.prefix, collection);
+  await stateManager.save();
+};
+
+/**
+ * Run an /admin collection subcommand
+ * Returns the message to show the admin
+ */
+const runCollectionSubcommand = async (
+  interaction: ChatInputCommandInteraction<"cached" | "raw">,
+  userLog: Log
+): Promise<string> => {
+  const { options, guildId } = interaction;
+  const scope = { guildId };
+  const subcommand = options.getSubcommand();
+
+  if (subcommand === "add") {
+    const prefix = normalizePrefix(options.getString("prefix", true));
+    if (getCollectionByPrefix(prefix, scope)) {
+      throw new AdminInputError(
+        `\`${getSyntax(prefix)}\` is already configured, use /admin collection edit`
+      );
+    }
+    const collection = buildCollectionFromOptions(options, prefix);
+    await saveCollection(guildId, collection, userLog);
+    return `Added **${collection.name}** (\`${getSyntax(prefix)}\`)`;
+  }
+
+  const prefix = normalizePrefix(options.getString("collection", true));
+  const existing = getCollectionByPrefix(prefix, scope);
+  if (!existing) {
+    throw new AdminInputError(`No collection for \`${getSyntax(prefix)}\``);
+  }
+
+  if (subcommand === "edit") {
+    const collection = buildCollectionFromOptions(options, prefix, existing);
+    await saveCollection(guildId, collection, userLog);
+    return `Updated **${collection.name}** (\`${getSyntax(prefix)}\`)`;
+  }
+
+  removeGuildCollection(guildId, prefix);
+  const stateManager = getStateManager();
+  stateManager.setCollectionOverride(guildId, prefix, null);
+  await stateManager.save();
+  return `Removed **${existing.name}** (\`${getSyntax(prefix)}\`)`;
+};
+
+/**
+ * Check a schedule's collection option against a guild's collections
+ * Returns the normalized option (undefined for all collections)
+ */
+export const validateScheduleCollections = (
+  value: string | null,
+  scope: RequestScope
+): string | undefined => {
+  const option = value?.trim().toLowerCase();
+  if (!option || option === ALL_COLLECTIONS_OPTION) {
+    return;
+  }
+
+  for (const prefix of option.split("+").map((p) => p.trim())) {
+    if (!(prefix && getCollectionByPrefix(prefix, scope))) {
+      throw new AdminInputError(`Unknown collection prefix "${prefix}"`);
+    }
+  }
+  return option;
+};
+
+/**
+ * Describe a schedule for admin replies
+ */
+const describeSchedule = (schedule: RandomSchedule): string =>
+  `<#${schedule.channelId}> ${formatSchedule(schedule)}`;
+
+/**
+ * Get a guild's schedule for a channel, or throw if there is none
+ */
+const getGuildSchedule = (
+  channelId: string,
+  guildId: string
+): RandomSchedule => {
+  const schedule = getSchedule(channelId);
+  if (!schedule || (schedule.guildId && schedule.guildId !== guildId)) {
+    throw new AdminInputError(`<#${channelId}> has no schedule`);
+  }
+  return schedule;
+};
+
+/**
+ * Run an /admin schedule subcommand
+ * Returns the message to show the admin
+ */
+const runScheduleSubcommand = async (
+  interaction: ChatInputCommandInteraction<"cached" | "raw">
+): Promise<string> => {
+  const { options, guildId } = interaction;
+  const subcommand = options.getSubcommand();
+
+  if (subcommand === "list") {
+    const lines = getSchedules()
+      .filter((s) => s.guildId === guildId)
+      .map((s) => `• ${describeSchedule(s)}`);
+    return lines.length > 0 ? lines.join("\n") : "No schedules in this server";
+  }
+
+  const channelId = options.getChannel("channel", true).id;
+
+  if (subcommand === "set") {
+    const schedule: RandomSchedule = {
+      channelId,
+      guildId,
+      minutes: options.getInteger("minutes", true),
+      collections: validateScheduleCollections(
+        options.getString("collections"),
+        { guildId, channelId }
+      ),
+      paused: getSchedule(channelId)?.paused,
+    };
+    await saveSchedule(schedule);
+    return `Scheduled ${describeSchedule(schedule)}`;
+  }
+
+  const schedule = getGuildSchedule(channelId, guildId);
+
+  if (subcommand === "delete") {
+    await deleteSchedule(channelId);
+    return `Deleted schedule for <#${channelId}>`;
+  }
+
+  const updated = { ...schedule, paused: subcommand === "pause" };
+  await saveSchedule(updated);
+  return `${updated.paused ? "Paused" : "Resumed"} ${describeSchedule(updated)}`;
+};
+
+/**
+ * Handle the /admin command
+ *
+ * Changes apply to the guild's own collections and schedules and are
+ * persisted, so they survive restarts (applied on top of the env config).
+ */
+export const handleAdminCommand = async (
+  interaction: ChatInputCommandInteraction,
+  userLog: Log
+): Promise<void> => {
+  if (
+    !(
+      interaction.inGuild() &&
+      interaction.memberPermissions.has(PermissionFlagsBits.ManageGuild)
+    )
+  ) {
+    await interaction.reply({
+      content: "You need the Manage Server permission to do that",
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  try {
+    const message =
+      interaction.options.getSubcommandGroup() === "schedule"
+        ? await runScheduleSubcommand(interaction)
+        : await runCollectionSubcommand(interaction, userLog);
+    userLog.push(`[guild ${interaction.guildId}] ${message}`);
+    await interaction.editReply(message);
+  } catch (error) {
+    if (!(error instanceof AdminInputError)) {
+      throw error;
+    }
+    log.debug(`Rejected admin command: ${error.message}`);
+    await interaction.editReply(error.message);
+  }
+};
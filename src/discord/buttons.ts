@@ -0,0 +1,242 @@
+import {
+  type APIActionRowComponent,
+  type APIComponentInMessageActionRow,
+  type ButtonInteraction,
+  MessageFlags,
+} from "discord.js";
+import { fetchNFT, NFTNotFoundError } from "../api/opensea";
+import { getRarity } from "../api/rarity";
+import { getCollectionByPrefix } from "../config/collection";
+import {
+  buildButtonRow,
+  type EmbedButtonId,
+  parseButtonId,
+} from "../embed/components";
+import { buildEmbed, buildEmbedForNFT, buildTraitsEmbed } from "../embed/embed";
+import { isTokenMediaFile } from "../embed/media";
+import { createLogger } from "../lib/logger";
+import type { CollectionConfig, Log, NFT, TokenMatch } from "../lib/types";
+import { getRequestScope } from "../lib/utils";
+import { checkInteractionRateLimit } from "./rate-limit";
+import { getUnflaggedRandomToken } from "./schedules";
+
+const log = createLogger("Buttons");
+
+/**
+ * Check if a message row contains a component with the given custom ID
+ */
+const rowHasCustomId = (
+  row: APIActionRowComponent<APIComponentInMessageActionRow>,
+  customId: string
+): boolean =>
+  row.components.some((c) => "custom_id" in c && c.custom_id === customId);
+
+/**
+ * Check if the clicked button's row has a Reroll button (the embed shows a
+ * random token, so refreshing it keeps the button)
+ */
+const hasRerollButton = (interaction: ButtonInteraction): boolean =>
+  interaction.message.components.some((component) => {
+    const row =
+      component.toJSON() as APIActionRowComponent<APIComponentInMessageActionRow>;
+    return (
+      rowHasCustomId(row, interaction.customId) &&
+      row.components.some(
+        (c) =>
+          "custom_id" in c && parseButtonId(c.custom_id)?.action === "reroll"
+      )
+    );
+  });
+
+/**
+ * Show an NFT's traits as an ephemeral reply
+ */
+const replyWithTraits = async (
+  interaction: ButtonInteraction,
+  collection: CollectionConfig,
+  tokenId: number,
+  userLog: Log
+): Promise<void> => {
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+  const nft = await fetchNFT(collection, tokenId, userLog);
+  const rarity = await getRarity(collection, tokenId, nft, userLog);
+  await interaction.editReply({
+    embeds: [buildTraitsEmbed(collection, tokenId, nft, rarity)],
+  });
+};
+
+/**
+ * Rebuild the clicked embed in place (with fresh data or a new random token)
+ * The interaction must already be deferred. Pass the NFT if it was already
+ * fetched so it isn't fetched again.
+ */
+const updateEmbed = async (
+  interaction: ButtonInteraction,
+  match: TokenMatch,
+  slot: number,
+  { userLog, nft }: { userLog: Log; nft?: NFT }
+): Promise<void> => {
+  const scope = getRequestScope(interaction);
+  const built = nft
+    ? await buildEmbedForNFT(match.collection, match.tokenId, nft, {
+        userLog,
+        scope,
+      })
+    : await buildEmbed(match.collection, match.tokenId, userLog, scope);
+  if (!built) {
+    await interaction.followUp({
+      content: `Could not load ${match.collection.name} #${match.tokenId}`,
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const { message } = interaction;
+  const embeds = message.embeds.map((e) => e.toJSON());
+  embeds[slot] = built.embed.toJSON();
+
+  const labelWithToken = embeds.length > 1;
+  const components = message.components.map((component) => {
+    const row =
+      component.toJSON() as APIActionRowComponent<APIComponentInMessageActionRow>;
+    return rowHasCustomId(row, interaction.customId)
+      ? buildButtonRow(match, slot, labelWithToken).toJSON()
+      : row;
+  });
+
+  // Replace the clicked token's media, keeping other embeds' attachments
+  // (including those without buttons, like history charts)
+  const clicked = parseButtonId(interaction.customId);
+  const attachments = message.attachments.filter(
+    (attachment) =>
+      !(
+        clicked &&
+        isTokenMediaFile(attachment.name, clicked.prefix, clicked.tokenId)
+      )
+  );
+
+  await interaction.editReply({
+    embeds,
+    components,
+    files: built.files,
+    attachments: [...attachments.values()],
+  });
+};
+
+/**
+ * Replace the clicked embed with a random token OpenSea doesn't flag
+ */
+const rerollEmbed = async (
+  interaction: ButtonInteraction,
+  collection: CollectionConfig,
+  slot: number,
+  userLog: Log
+): Promise<void> => {
+  await interaction.deferUpdate();
+
+  const picked = await getUnflaggedRandomToken(collection, userLog);
+  if (!picked) {
+    await interaction.followUp({
+      content: `Could not find a random ${collection.name} token`,
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const { tokenId, nft } = picked;
+  await updateEmbed(
+    interaction,
+    { collection, tokenId, isRandom: true },
+    slot,
+    { userLog, nft }
+  );
+};
+
+/**
+ * Run a clicked button's action (after checking its collection and rate limits)
+ */
+const runButtonAction = async (
+  interaction: ButtonInteraction,
+  { action, prefix, tokenId, slot }: EmbedButtonId,
+  userLog: Log
+): Promise<void> => {
+  const collection = getCollectionByPrefix(
+    prefix,
+    getRequestScope(interaction)
+  );
+  if (!collection) {
+    await interaction.reply({
+      content: "This collection is no longer configured",
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  if (!(await checkInteractionRateLimit(interaction, userLog))) {
+    return;
+  }
+
+  switch (action) {
+    case "traits":
+      await replyWithTraits(interaction, collection, tokenId, userLog);
+      break;
+    case "refresh":
+      await interaction.deferUpdate();
+      await updateEmbed(
+        interaction,
+        { collection, tokenId, isRandom: hasRerollButton(interaction) },
+        slot,
+        { userLog }
+      );
+      break;
+    case "reroll":
+      await rerollEmbed(interaction, collection, slot, userLog);
+      break;
+    default:
+      break;
+  }
+};
+
+/**
+ * Handle a click on an embed button (Refresh, Reroll, Traits)
+ * Errors are reported to the user and logged, never thrown.
+ */
+export const handleButton = async (
+  interaction: ButtonInteraction
+): Promise<void> => {
+  const parsed = parseButtonId(interaction.customId);
+  if (!parsed) {
+    return;
+  }
+
+  const userLog: Log = [];
+  userLog.push(
+    `Button ${parsed.action} from ${interaction.user.username} for ${parsed.prefix}#${parsed.tokenId}`
+  );
+
+  try {
+    await runButtonAction(interaction, parsed, userLog);
+  } catch (error) {
+    const errorMessage =
+      error instanceof NFTNotFoundError
+        ? `Could not find ${error.collection.name} #${error.tokenId}`
+        : "Something went wrong fetching that NFT";
+    userLog.push(`Error: ${error instanceof Error ? error.message : error}`);
+    log.error(`Error handling button ${interaction.customId}: ${errorMessage}`);
+    try {
+      const reply = {
+        content: errorMessage,
+        flags: MessageFlags.Ephemeral as const,
+      };
+      await (interaction.replied || interaction.deferred
+        ? interaction.followUp(reply)
+        : interaction.reply(reply));
+    } catch {
+      // Interaction may have expired
+    }
+  }
+
+  for (const line of userLog) {
+    log.info(line);
+  }
+};
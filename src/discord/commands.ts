@@ -0,0 +1,487 @@
+import {
+  type AutocompleteInteraction,
+  type ChatInputCommandInteraction,
+  type Client,
+  EmbedBuilder,
+  type Interaction,
+  MessageFlags,
+  type RESTPostAPIChatInputApplicationCommandsJSONBody,
+  SlashCommandBuilder,
+} from "discord.js";
+import {
+  checkDynamicTokenId,
+  formatTokenRange,
+  getCollectionByPrefix,
+  getCollections,
+  getDefaultCollection,
+  searchCollections,
+  suggestTokenIds,
+} from "../config/collection";
+import {
+  DEFAULT_COLLECTION_CHOICE,
+  DEFAULT_EMBED_COLOR,
+} from "../config/constants";
+import { buildButtonRows } from "../embed/components";
+import { buildEmbedForNFT, buildEmbedsForMatches } from "../embed/embed";
+import { createLogger } from "../lib/logger";
+import type {
+  CollectionConfig,
+  Log,
+  RequestScope,
+  TokenMatch,
+} from "../lib/types";
+import { getRequestScope } from "../lib/utils";
+import {
+  ADMIN_COMMAND_NAME,
+  buildAdminCommandData,
+  handleAdminCommand,
+} from "./admin";
+import { handleButton } from "./buttons";
+import { buildHelpEmbed } from "./help";
+import { checkInteractionRateLimit } from "./rate-limit";
+import { getUnflaggedRandomToken } from "./schedules";
+
+const log = createLogger("Commands");
+
+const { COMMAND_GUILD_IDS } = process.env;
+
+/** Discord limit on autocomplete results per option */
+const MAX_AUTOCOMPLETE_RESULTS = 25;
+
+/** Slash command names */
+export const COMMAND_NAMES = {
+  nft: "nft",
+  random: "random",
+  history: "history",
+  collections: "collections",
+  help: "help",
+} as const;
+
+/**
+ * Get the choice value for a collection
+ */
+const getChoiceValue = (collection: CollectionConfig): string =>
+  collection.prefix || DEFAULT_COLLECTION_CHOICE;
+
+/**
+ * Build the slash command definitions
+ *
+ * Collection and token options use autocomplete, so the definitions don't
+ * change when collections or supply change.
+ */
+export const buildCommandData =
+  (): RESTPostAPIChatInputApplicationCommandsJSONBody[] => {
+    const nft = new SlashCommandBuilder()
+      .setName(COMMAND_NAMES.nft)
+      .setDescription("Show an NFT by token ID")
+      .addIntegerOption((option) =>
+        option
+          .setName("token")
+          .setDescription("Token ID")
+          .setRequired(true)
+          .setMinValue(0)
+          .setAutocomplete(true)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("collection")
+          .setDescription("Collection (defaults to the primary collection)")
+          .setAutocomplete(true)
+      );
+
+    const random = new SlashCommandBuilder()
+      .setName(COMMAND_NAMES.random)
+      .setDescription("Show a random NFT")
+      .addStringOption((option) =>
+        option
+          .setName("collection")
+          .setDescription("Collection (defaults to the primary collection)")
+          .setAutocomplete(true)
+      );
+
+    const history = new SlashCommandBuilder()
+      .setName(COMMAND_NAMES.history)
+      .setDescription("Show an NFT's sales history with a price chart")
+      .addIntegerOption((option) =>
+        option
+          .setName("token")
+          .setDescription("Token ID")
+          .setRequired(true)
+          .setMinValue(0)
+          .setAutocomplete(true)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("collection")
+          .setDescription("Collection (defaults to the primary collection)")
+          .setAutocomplete(true)
+      );
+
+    const collections = new SlashCommandBuilder()
+      .setName(COMMAND_NAMES.collections)
+      .setDescription("List the configured collections");
+
+    const help = new SlashCommandBuilder()
+      .setName(COMMAND_NAMES.help)
+      .setDescription("Show the collections and how to request NFTs");
+
+    return [
+      nft.toJSON(),
+      random.toJSON(),
+      history.toJSON(),
+      collections.toJSON(),
+      help.toJSON(),
+      buildAdminCommandData(),
+    ];
+  };
+
+/**
+ * Resolve a collection from a choice value (falls back to the default collection)
+ */
+export const resolveCollectionChoice = (
+  value: string | null,
+  scope?: RequestScope
+): CollectionConfig | undefined => {
+  if (!value || value === DEFAULT_COLLECTION_CHOICE) {
+    return getDefaultCollection(scope);
+  }
+  return getCollectionByPrefix(value, scope);
+};
+
+/**
+ * Build autocomplete results for the collection option
+ */
+export const getCollectionAutocomplete = (
+  query: string,
+  scope?: RequestScope
+): { name: string; value: string }[] =>
+  searchCollections(query, scope)
+    .slice(0, MAX_AUTOCOMPLETE_RESULTS)
+    .map((c) => ({
+      name: c.prefix ? `${c.name} (${c.prefix}#)` : c.name,
+      value: getChoiceValue(c),
+    }));
+
+/**
+ * Build autocomplete results for the token option
+ *
+ * For collections with dynamic supply, an input above the current max
+ * refreshes the supply first so new mints can be suggested.
+ */
+export const getTokenAutocomplete = async (
+  collection: CollectionConfig,
+  input: string,
+  userLog: Log
+): Promise<{ name: string; value: number }[]> => {
+  const typed = Number(input.trim());
+  if (collection.dynamicSupply && typed > collection.maxTokenId) {
+    await checkDynamicTokenId(collection, typed, userLog);
+  }
+
+  return suggestTokenIds(collection, input, MAX_AUTOCOMPLETE_RESULTS).map(
+    (tokenId) => ({ name: `${collection.name} #${tokenId}`, value: tokenId })
+  );
+};
+
+/**
+ * Build the embed listing all configured collections
+ */
+export const buildCollectionsEmbed = (scope?: RequestScope): EmbedBuilder => {
+  const lines = getCollections(scope).map((c) => {
+    const syntax = c.prefix ? `${c.prefix}#1234` : "#1234";
+    return `• **${c.name}** - \`${syntax}\` (${formatTokenRange(c)}, ${c.chain})`;
+  });
+
+  return new EmbedBuilder()
+    .setColor(DEFAULT_EMBED_COLOR)
+    .setTitle("Collections")
+    .setDescription(lines.join("\n"));
+};
+
+/**
+ * Register slash commands with Discord
+ *
+ * If COMMAND_GUILD_IDS is set, commands are registered per guild (available
+ * immediately). Otherwise they are registered globally (can take up to an
+ * hour to propagate).
+ */
+export const registerCommands = async (client: Client): Promise<void> => {
+  if (!client.application) {
+    log.warn("Client application not available, skipping command registration");
+    return;
+  }
+
+  const data = buildCommandData();
+  const guildIds = (COMMAND_GUILD_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  try {
+    if (guildIds.length === 0) {
+      await client.application.commands.set(data);
+      log.info(`Registered ${data.length} global slash commands`);
+      return;
+    }
+
+    for (const guildId of guildIds) {
+      await client.application.commands.set(data, guildId);
+      log.info(`Registered ${data.length} slash commands in guild ${guildId}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.error(`Failed to register slash commands: ${message}`);
+  }
+};
+
+/**
+ * Reply to a command with embeds for the given matches
+ */
+const replyWithMatches = async (
+  interaction: ChatInputCommandInteraction,
+  matches: TokenMatch[],
+  userLog: Log
+): Promise<void> => {
+  const { embeds, files, tokens, embedLog } = await buildEmbedsForMatches(
+    matches,
+    userLog,
+    getRequestScope(interaction)
+  );
+
+  if (embeds.length === 0) {
+    const labels = matches.map((m) => `${m.collection.name} #${m.tokenId}`);
+    await interaction.editReply(`Could not find ${labels.join(", ")}`);
+    return;
+  }
+
+  await interaction.editReply({
+    embeds,
+    files,
+    components: buildButtonRows(tokens),
+  });
+  userLog.push(embedLog);
+};
+
+/**
+ * Handle the /nft and /history commands
+ */
+const handleNftCommand = async (
+  interaction: ChatInputCommandInteraction,
+  userLog: Log
+): Promise<void> => {
+  const collection = resolveCollectionChoice(
+    interaction.options.getString("collection"),
+    getRequestScope(interaction)
+  );
+  if (!collection) {
+    await interaction.editReply("Unknown collection");
+    return;
+  }
+
+  const tokenId = interaction.options.getInteger("token", true);
+  if (!(await checkDynamicTokenId(collection, tokenId, userLog))) {
+    await interaction.editReply(
+      `${collection.name} token IDs range from ${collection.minTokenId} to ${collection.maxTokenId}`
+    );
+    return;
+  }
+
+  const match: TokenMatch =
+    interaction.commandName === COMMAND_NAMES.history
+      ? { collection, tokenId, mode: "history" }
+      : { collection, tokenId };
+  await replyWithMatches(interaction, [match], userLog);
+};
+
+/**
+ * Handle the /random command
+ */
+const handleRandomCommand = async (
+  interaction: ChatInputCommandInteraction,
+  userLog: Log
+): Promise<void> => {
+  const collection = resolveCollectionChoice(
+    interaction.options.getString("collection"),
+    getRequestScope(interaction)
+  );
+  if (!collection) {
+    await interaction.editReply("Unknown collection");
+    return;
+  }
+
+  const picked = await getUnflaggedRandomToken(collection, userLog);
+  if (!picked) {
+    await interaction.editReply(
+      `Could not find a random ${collection.name} token`
+    );
+    return;
+  }
+
+  // Build from the NFT fetched to check its flags, so it isn't fetched again
+  const { tokenId, nft } = picked;
+  const built = await buildEmbedForNFT(collection, tokenId, nft, {
+    userLog,
+    scope: getRequestScope(interaction),
+  });
+  if (!built) {
+    await interaction.editReply(
+      `Could not find ${collection.name} #${tokenId}`
+    );
+    return;
+  }
+
+  const match: TokenMatch = { collection, tokenId, isRandom: true };
+  await interaction.editReply({
+    embeds: [built.embed],
+    files: built.files,
+    components: buildButtonRows([match]),
+  });
+  userLog.push(`Replied with random ${collection.prefix}#${tokenId}`);
+};
+
+/**
+ * Check if a command fetches NFTs (and so counts against rate limits)
+ */
+const isRateLimitedCommand = (commandName: string): boolean =>
+  commandName === COMMAND_NAMES.nft ||
+  commandName === COMMAND_NAMES.random ||
+  commandName === COMMAND_NAMES.history;
+
+/**
+ * Run a slash command
+ */
+const runCommand = async (
+  interaction: ChatInputCommandInteraction,
+  userLog: Log
+): Promise<void> => {
+  if (interaction.commandName === ADMIN_COMMAND_NAME) {
+    await handleAdminCommand(interaction, userLog);
+    return;
+  }
+
+  if (interaction.commandName === COMMAND_NAMES.help) {
+    await interaction.reply({
+      embeds: [buildHelpEmbed(getRequestScope(interaction))],
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  if (
+    isRateLimitedCommand(interaction.commandName) &&
+    !(await checkInteractionRateLimit(interaction, userLog))
+  ) {
+    return;
+  }
+
+  await interaction.deferReply();
+
+  switch (interaction.commandName) {
+    case COMMAND_NAMES.nft:
+    case COMMAND_NAMES.history:
+      await handleNftCommand(interaction, userLog);
+      break;
+    case COMMAND_NAMES.random:
+      await handleRandomCommand(interaction, userLog);
+      break;
+    case COMMAND_NAMES.collections:
+      await interaction.editReply({
+        embeds: [buildCollectionsEmbed(getRequestScope(interaction))],
+      });
+      break;
+    default:
+      log.warn(`Unknown command: ${interaction.commandName}`);
+      await interaction.editReply("Unknown command");
+  }
+};
+
+/**
+ * Process a slash command interaction
+ */
+const processCommand = async (
+  interaction: ChatInputCommandInteraction
+): Promise<void> => {
+  const userLog: Log = [];
+  const startTime = Date.now();
+
+  userLog.push(
+    `Command from ${interaction.user.username}: ${interaction.toString()}`
+  );
+
+  try {
+    await runCommand(interaction, userLog);
+
+    const duration = Date.now() - startTime;
+    log.info(`Handled /${interaction.commandName} (${duration}ms)`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    userLog.push(`Error: ${errorMessage}`);
+    log.error(`Error processing command: ${errorMessage}`);
+    if (interaction.deferred) {
+      try {
+        await interaction.editReply("Something went wrong fetching that NFT");
+      } catch {
+        // Interaction may have expired
+      }
+    }
+  }
+
+  for (const line of userLog) {
+    log.info(line);
+  }
+};
+
+/**
+ * Respond to an autocomplete interaction
+ */
+const processAutocomplete = async (
+  interaction: AutocompleteInteraction
+): Promise<void> => {
+  const userLog: Log = [];
+  const focused = interaction.options.getFocused(true);
+
+  try {
+    if (focused.name === "collection") {
+      await interaction.respond(
+        getCollectionAutocomplete(focused.value, getRequestScope(interaction))
+      );
+      return;
+    }
+
+    if (focused.name === "token") {
+      const collection = resolveCollectionChoice(
+        interaction.options.getString("collection"),
+        getRequestScope(interaction)
+      );
+      const results = collection
+        ? await getTokenAutocomplete(collection, focused.value, userLog)
+        : [];
+      await interaction.respond(results);
+      return;
+    }
+
+    await interaction.respond([]);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    log.debug(`Autocomplete failed for ${focused.name}: ${errorMessage}`);
+  }
+};
+
+/**
+ * Handle an incoming Discord interaction
+ */
+export const handleInteraction = async (
+  interaction: Interaction
+): Promise<void> => {
+  if (interaction.isAutocomplete()) {
+    await processAutocomplete(interaction);
+    return;
+  }
+  if (interaction.isChatInputCommand()) {
+    await processCommand(interaction);
+    return;
+  }
+  if (interaction.isButton()) {
+    await handleButton(interaction);
+  }
+};
@@ -0,0 +1,39 @@
+import { EmbedBuilder } from "discord.js";
+import { getHelpText } from "../config/collection";
+import { DEFAULT_EMBED_COLOR } from "../config/constants";
+import type { RequestScope } from "../lib/types";
+import { formatSchedule, getSchedule } from "./schedules";
+
+/** Trigger syntax supported in messages */
+const SYNTAX_LINES = [
+  "**Syntax:**",
+  "• `#1234` - a token by ID",
+  "• `#random`, `#rand` or `#?` - a random token",
+  "• `#1234 history` - a token's sales history with a price chart",
+  "• `#1234 provenance` - a token's owners and sales since its mint",
+  "• Add `grid` to show several tokens as one collage, e.g. `#1 #2 #3 #4 grid`",
+  "• `#username` - a random token owned by an OpenSea user",
+  "• Add a prefix for other collections, e.g. `prefix#1234` or `prefix#random`",
+  "• Slash commands: `/nft`, `/random`, `/history`, `/collections` and `/help`",
+];
+
+/**
+ * Build the help embed for a scope
+ * Lists the scope's collections, the trigger syntax and the channel's
+ * random post schedule (if any).
+ */
+export const buildHelpEmbed = (scope?: RequestScope): EmbedBuilder => {
+  const sections = [getHelpText(scope), SYNTAX_LINES.join("\n")];
+
+  const schedule = scope?.channelId ? getSchedule(scope.channelId) : undefined;
+  if (schedule) {
+    sections.push(
+      `**Random posts in this channel:**\n• ${formatSchedule(schedule)}`
+    );
+  }
+
+  return new EmbedBuilder()
+    .setColor(DEFAULT_EMBED_COLOR)
+    .setTitle("How to use this bot")
+    .setDescription(sections.join("\n\n"));
+};
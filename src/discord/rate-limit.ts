@@ -0,0 +1,146 @@
+import { MessageFlags, type RepliableInteraction } from "discord.js";
+import { ONE_SECOND_MS } from "../config/constants";
+import { createLogger } from "../lib/logger";
+import { RateLimiter } from "../lib/rate-limiter";
+import type { Log } from "../lib/types";
+
+const log = createLogger("RateLimit");
+
+const {
+  // Format: requests/seconds (e.g. 10/60), or 0 to disable
+  RATE_LIMIT_USER,
+  RATE_LIMIT_CHANNEL,
+  RATE_LIMIT_GLOBAL,
+} = process.env;
+
+/** Default per-user limit: 10 NFTs per minute */
+const DEFAULT_USER_LIMIT = "10/60";
+
+/** Default per-channel limit: 30 NFTs per minute */
+const DEFAULT_CHANNEL_LIMIT = "30/60";
+
+/** Reaction added to messages that are over the rate limit */
+export const RATE_LIMITED_REACTION = "⏳";
+
+/** Who a request is charged to */
+export type RateLimitSubject = {
+  userId: string;
+  channelId?: string;
+};
+
+/**
+ * Parse a limit in the form requests/seconds
+ * Returns undefined if the limit is disabled ("0") or invalid
+ */
+const parseLimit = (
+  name: string,
+  value: string | undefined
+): RateLimiter | undefined => {
+  if (!value || value.trim() === "0") {
+    return;
+  }
+
+  const [requestsStr, secondsStr] = value.split("/");
+  const requests = Number(requestsStr);
+  const seconds = Number(secondsStr);
+
+  if (!(Number.isInteger(requests) && requests > 0 && seconds > 0)) {
+    log.warn(`Invalid ${name} (expected requests/seconds): ${value}`);
+    return;
+  }
+
+  return new RateLimiter(requests, seconds * ONE_SECOND_MS);
+};
+
+const userLimiter = parseLimit(
+  "RATE_LIMIT_USER",
+  RATE_LIMIT_USER ?? DEFAULT_USER_LIMIT
+);
+const channelLimiter = parseLimit(
+  "RATE_LIMIT_CHANNEL",
+  RATE_LIMIT_CHANNEL ?? DEFAULT_CHANNEL_LIMIT
+);
+const globalLimiter = parseLimit("RATE_LIMIT_GLOBAL", RATE_LIMIT_GLOBAL);
+
+/**
+ * Get the limiters (and bucket keys) that apply to a subject
+ */
+const getBuckets = (
+  subject: RateLimitSubject
+): { limiter: RateLimiter; key: string }[] => {
+  const buckets: { limiter: RateLimiter; key: string }[] = [];
+  if (userLimiter) {
+    buckets.push({ limiter: userLimiter, key: subject.userId });
+  }
+  if (channelLimiter && subject.channelId) {
+    buckets.push({ limiter: channelLimiter, key: subject.channelId });
+  }
+  if (globalLimiter) {
+    buckets.push({ limiter: globalLimiter, key: "global" });
+  }
+  return buckets;
+};
+
+/**
+ * Charge a request against the user, channel and global limits
+ *
+ * The cost is the number of NFTs the request fetches. Nothing is charged
+ * unless every limit has room, so a rejected request doesn't use up tokens.
+ *
+ * @returns 0 if allowed, otherwise the ms until the request would be allowed
+ */
+export const checkRateLimit = (
+  subject: RateLimitSubject,
+  cost = 1,
+  now = Date.now()
+): number => {
+  const buckets = getBuckets(subject);
+  const retryAfterMs = Math.max(
+    0,
+    ...buckets.map(({ limiter, key }) => limiter.retryAfter(key, cost, now))
+  );
+
+  if (retryAfterMs > 0) {
+    log.debug(
+      `Rate limited user ${subject.userId} (cost ${cost}, retry in ${retryAfterMs}ms)`
+    );
+    return retryAfterMs;
+  }
+
+  for (const { limiter, key } of buckets) {
+    limiter.consume(key, cost, now);
+  }
+  return 0;
+};
+
+/**
+ * Build the cooldown notice shown to rate limited users
+ */
+export const getCooldownMessage = (retryAfterMs: number): string => {
+  const seconds = Math.max(1, Math.ceil(retryAfterMs / ONE_SECOND_MS));
+  return `You're requesting NFTs too quickly. Try again in ${seconds}s.`;
+};
+
+/**
+ * Charge an interaction against the rate limits
+ * Sends an ephemeral cooldown notice if the user is over the limit
+ *
+ * @returns true if the interaction may be handled
+ */
+export const checkInteractionRateLimit = async (
+  interaction: RepliableInteraction,
+  userLog: Log
+): Promise<boolean> => {
+  const retryAfterMs = checkRateLimit({
+    userId: interaction.user.id,
+    channelId: interaction.channelId ?? undefined,
+  });
+  if (retryAfterMs === 0) {
+    return true;
+  }
+
+  const notice = getCooldownMessage(retryAfterMs);
+  userLog.push(`Rate limited ${interaction.user.username}: ${notice}`);
+  await interaction.reply({ content: notice, flags: MessageFlags.Ephemeral });
+  return false;
+};
@@ -0,0 +1,570 @@
+import type { Client, TextBasedChannel } from "discord.js";
+import { fetchNFT, NFTNotFoundError } from "../api/opensea";
+import { getCollections, randomTokenId } from "../config/collection";
+import { ONE_SECOND_MS, SECONDS_PER_MINUTE } from "../config/constants";
+import { isFlaggedNFT } from "../config/content-policy";
+import { buildButtonRows } from "../embed/components";
+import { buildEmbedForNFT } from "../embed/embed";
+import { createLogger } from "../lib/logger";
+import type {
+  BuiltEmbed,
+  CollectionConfig,
+  Log,
+  NFT,
+  RandomSchedule,
+  RequestScope,
+  TokenMatch,
+} from "../lib/types";
+import { getRequestScope } from "../lib/utils";
+import { getStateManager } from "../state/state";
+
+const log = createLogger("Schedules");
+
+const { RANDOM_INTERVALS } = process.env;
+
+/** Max attempts to find a non-duplicate (or unflagged) random token */
+const MAX_RANDOM_ATTEMPTS = 10;
+
+/** Max retries when a random NFT doesn't exist */
+const MAX_NFT_FETCH_RETRIES = 3;
+
+/**
+ * Get channel name for logging
+ */
+const getChannelName = (channel: TextBasedChannel | null): string => {
+  if (!channel) {
+    return "unknown-channel";
+  }
+  // Guild channels have names, DMs don't
+  if ("name" in channel && channel.name) {
+    return channel.name;
+  }
+  return channel.id;
+};
+
+/**
+ * Get the request scope for a channel (DM channels have no guild)
+ */
+export const getChannelScope = (channel: TextBasedChannel): RequestScope =>
+  getRequestScope({
+    guildId: channel.isDMBased() ? null : channel.guildId,
+    channelId: channel.id,
+    channel,
+  });
+
+/**
+ * Send an embed (with its buttons) to a channel
+ */
+const sendEmbed = async (
+  channel: TextBasedChannel | null,
+  { embed, files }: BuiltEmbed,
+  token: TokenMatch
+): Promise<void> => {
+  if (!channel?.isSendable()) {
+    return;
+  }
+  await channel.send({
+    embeds: [embed],
+    files,
+    components: buildButtonRows([token]),
+  });
+};
+
+/**
+ * Fetch a token, returning undefined if OpenSea flags it as disabled, NSFW
+ * or suspicious
+ */
+const fetchUnflaggedNFT = async (
+  collection: CollectionConfig,
+  tokenId: number,
+  userLog: Log
+): Promise<NFT | undefined> => {
+  const nft = await fetchNFT(collection, tokenId, userLog);
+  if (isFlaggedNFT(nft)) {
+    log.debug(`Token #${tokenId} is flagged on OpenSea`);
+    return;
+  }
+  return nft;
+};
+
+/**
+ * Get a random token that hasn't been recently sent to a channel
+ * The token is returned with its NFT, fetched to skip tokens flagged as
+ * disabled, NSFW or suspicious (so the embed is built without fetching it
+ * again). Returns undefined if only flagged tokens were found.
+ */
+export const getUniqueRandomToken = async (
+  collection: CollectionConfig,
+  channelId: string,
+  userLog: Log
+): Promise<{ tokenId: number; nft: NFT } | undefined> => {
+  const stateManager = getStateManager();
+
+  for (let attempt = 0; attempt < MAX_RANDOM_ATTEMPTS; attempt++) {
+    const tokenId = randomTokenId(collection);
+    if (stateManager.wasRecentlySent(channelId, tokenId)) {
+      log.debug(
+        `Token #${tokenId} recently sent to channel ${channelId}, trying again`
+      );
+      continue;
+    }
+    const nft = await fetchUnflaggedNFT(collection, tokenId, userLog);
+    if (nft) {
+      log.debug(
+        `Found unique token #${tokenId} for channel ${channelId} (attempt ${attempt + 1})`
+      );
+      return { tokenId, nft };
+    }
+  }
+
+  // Fall back to any random token if we can't find a unique one
+  const tokenId = randomTokenId(collection);
+  const nft = await fetchUnflaggedNFT(collection, tokenId, userLog);
+  if (!nft) {
+    log.debug(
+      `Could not find an unflagged token after ${MAX_RANDOM_ATTEMPTS} attempts`
+    );
+    return;
+  }
+  log.debug(
+    `Could not find unique token after ${MAX_RANDOM_ATTEMPTS} attempts, using #${tokenId}`
+  );
+  return { tokenId, nft };
+};
+
+/**
+ * Get a random token OpenSea doesn't flag as disabled, NSFW or suspicious
+ * (for /random and Reroll, which don't track recently sent tokens)
+ * Missing tokens are skipped too. Returns undefined if no token was found.
+ */
+export const getUnflaggedRandomToken = async (
+  collection: CollectionConfig,
+  userLog: Log
+): Promise<{ tokenId: number; nft: NFT } | undefined> => {
+  for (let attempt = 0; attempt < MAX_RANDOM_ATTEMPTS; attempt++) {
+    const tokenId = randomTokenId(collection);
+    try {
+      const nft = await fetchUnflaggedNFT(collection, tokenId, userLog);
+      if (nft) {
+        return { tokenId, nft };
+      }
+    } catch (error) {
+      if (!(error instanceof NFTNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+
+  log.debug(
+    `Could not find an unflagged ${collection.name} token after ${MAX_RANDOM_ATTEMPTS} attempts`
+  );
+  return;
+};
+
+/**
+ * Parse random interval config to get target collections
+ *
+ * Format: CHANNEL_ID=minutes[:collection_option]
+ * - No option: rotate through all collections
+ * - `*`: rotate through all collections (explicit)
+ * - `prefix`: specific collection by prefix
+ * - `prefix1+prefix2`: rotate through listed collections (use + since , is separator)
+ */
+export const parseRandomCollections = (
+  collectionOption: string | undefined,
+  scope?: RequestScope
+): CollectionConfig[] => {
+  const allCollections = getCollections(scope);
+
+  // No option or "*" = rotate through all collections
+  if (!collectionOption || collectionOption === "*") {
+    return allCollections;
+  }
+
+  // Specific collection(s) by prefix - use + as separator since , separates intervals
+  const prefixes = collectionOption.split("+").map((p) => p.trim());
+  const result: CollectionConfig[] = [];
+
+  for (const prefix of prefixes) {
+    const collection = allCollections.find((c) => c.prefix === prefix);
+    if (collection) {
+      result.push(collection);
+    } else {
+      log.warn(`Unknown collection prefix in random config: "${prefix}"`);
+    }
+  }
+
+  return result;
+};
+
+/** Track rotation index per channel for multi-collection random */
+const rotationIndex = new Map<string, number>();
+
+/**
+ * Get the next collection in rotation for a channel
+ */
+const getNextCollection = (
+  channelId: string,
+  collections: CollectionConfig[]
+): CollectionConfig => {
+  if (collections.length === 1) {
+    return collections.at(0) as CollectionConfig;
+  }
+
+  const currentIndex = rotationIndex.get(channelId) ?? 0;
+  const collection = collections.at(
+    currentIndex % collections.length
+  ) as CollectionConfig;
+  rotationIndex.set(channelId, currentIndex + 1);
+
+  return collection;
+};
+
+type RandomEmbedContext = {
+  collection: CollectionConfig;
+  channelId: string;
+  chanName: string;
+  channel: TextBasedChannel;
+  userLog: Log;
+  startTime: number;
+};
+
+/**
+ * Attempt to build and send a random embed
+ * @returns true if successful, false if NFT not found (should retry)
+ * @throws for non-NFT errors
+ */
+const tryBuildRandomEmbed = async (
+  ctx: RandomEmbedContext
+): Promise<boolean> => {
+  const { collection, channelId, chanName, channel, userLog, startTime } = ctx;
+  const stateManager = getStateManager();
+  const prefix = collection.prefix ? `${collection.prefix}#` : "#";
+
+  try {
+    const picked = await getUniqueRandomToken(collection, channelId, userLog);
+    if (!picked) {
+      log.warn(
+        `No unflagged random ${collection.name} token found, retrying...`
+      );
+      return false;
+    }
+
+    const { tokenId, nft } = picked;
+    const built = await buildEmbedForNFT(collection, tokenId, nft, {
+      userLog,
+      scope: getChannelScope(channel),
+    });
+
+    if (built) {
+      stateManager.addRecentToken(channelId, tokenId);
+      stateManager.setLastRandomPost(channelId);
+      await stateManager.save();
+
+      userLog.push(
+        `Sending random ${collection.name} ${prefix}${tokenId} to #${chanName}`
+      );
+      await sendEmbed(channel, built, { collection, tokenId, isRandom: true });
+
+      const duration = Date.now() - startTime;
+      log.info(
+        `Sent random ${collection.name} ${prefix}${tokenId} to #${chanName} (${duration}ms)`
+      );
+      return true;
+    }
+    return false;
+  } catch (error) {
+    if (error instanceof NFTNotFoundError) {
+      log.warn(
+        `NFT not found for random post: ${collection.name} #${error.tokenId} (contract: ${collection.address}), retrying...`
+      );
+      return false;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Post a random NFT to a channel
+ * Retries with a different random token if NFT not found
+ */
+const postRandomToChannel = async (
+  channel: TextBasedChannel,
+  channelId: string,
+  chanName: string,
+  targetCollections: CollectionConfig[]
+): Promise<void> => {
+  const userLog: Log = [];
+  const startTime = Date.now();
+  const collection = getNextCollection(channelId, targetCollections);
+
+  const ctx: RandomEmbedContext = {
+    collection,
+    channelId,
+    chanName,
+    channel,
+    userLog,
+    startTime,
+  };
+
+  for (let attempt = 1; attempt <= MAX_NFT_FETCH_RETRIES; attempt++) {
+    log.debug(`Random posting to #${chanName}, attempt ${attempt}`);
+
+    const success = await tryBuildRandomEmbed(ctx);
+
+    if (success) {
+      break;
+    }
+
+    if (attempt === MAX_NFT_FETCH_RETRIES) {
+      log.error(
+        `Failed to find valid NFT after ${MAX_NFT_FETCH_RETRIES} attempts for ${collection.name} (contract: ${collection.address})`
+      );
+    }
+  }
+
+  for (const line of userLog) {
+    log.info(line);
+  }
+};
+
+/** Schedules by channel ID */
+const schedules = new Map<string, RandomSchedule>();
+
+/** Running timers by channel ID */
+const timers = new Map<string, ReturnType<typeof setInterval>>();
+
+/** Client used to post (set once the bot is ready) */
+let discordClient: Client | undefined;
+
+/**
+ * Parse schedules from RANDOM_INTERVALS
+ *
+ * Format: CHANNEL_ID=minutes[:collection_option]
+ * Examples:
+ *   - 123456=30           (rotate all collections every 30 min)
+ *   - 123456=30:*         (rotate all collections every 30 min, explicit)
+ *   - 123456=30:artifacts (artifacts collection every 30 min)
+ *   - 123456=30:bots+artifacts (rotate between bots and artifacts)
+ */
+export const parseRandomIntervals = (
+  value: string | undefined
+): RandomSchedule[] => {
+  const parsed: RandomSchedule[] = [];
+
+  for (const interval of (value ?? "").split(",")) {
+    if (!interval.trim()) {
+      continue;
+    }
+
+    const [channelId, configStr] = interval.trim().split("=");
+    const [minutesStr, collections] = (configStr ?? "").split(":");
+    const minutes = Number(minutesStr);
+
+    if (!channelId || Number.isNaN(minutes) || minutes <= 0) {
+      log.warn(`Invalid random interval config: ${interval}`);
+      continue;
+    }
+
+    parsed.push({ channelId, minutes, collections: collections || undefined });
+  }
+
+  return parsed;
+};
+
+/**
+ * Load schedules from RANDOM_INTERVALS plus changes made with /admin
+ * (persisted in state, which must be loaded first)
+ */
+export const initSchedules = (): void => {
+  schedules.clear();
+
+  for (const schedule of parseRandomIntervals(RANDOM_INTERVALS)) {
+    schedules.set(schedule.channelId, schedule);
+  }
+
+  const overrides = getStateManager().getScheduleOverrides();
+  for (const [channelId, schedule] of Object.entries(overrides)) {
+    if (schedule) {
+      schedules.set(channelId, schedule);
+    } else {
+      schedules.delete(channelId);
+    }
+  }
+
+  log.debug(`Loaded ${schedules.size} random schedule(s)`);
+};
+
+/**
+ * Get all schedules
+ */
+export const getSchedules = (): RandomSchedule[] => [...schedules.values()];
+
+/**
+ * Get the schedule for a channel
+ */
+export const getSchedule = (channelId: string): RandomSchedule | undefined =>
+  schedules.get(channelId);
+
+/**
+ * Describe a schedule (e.g. "every 30 min - GlyphBots, Artifacts (paused)")
+ */
+export const formatSchedule = (schedule: RandomSchedule): string => {
+  const scope = { guildId: schedule.guildId, channelId: schedule.channelId };
+  const names = parseRandomCollections(schedule.collections, scope)
+    .map((c) => c.name)
+    .join(", ");
+  const status = schedule.paused ? " (paused)" : "";
+  return `every ${schedule.minutes} min - ${names || "no collections"}${status}`;
+};
+
+/**
+ * Stop a channel's timer (if running)
+ */
+const stopTimer = (channelId: string): void => {
+  const timer = timers.get(channelId);
+  if (timer) {
+    clearInterval(timer);
+    timers.delete(channelId);
+  }
+};
+
+/**
+ * Post the next random NFT for a schedule
+ * Collections are resolved on every post so collection changes apply.
+ */
+const postScheduled = async (
+  schedule: RandomSchedule,
+  channel: TextBasedChannel
+): Promise<void> => {
+  const targetCollections = parseRandomCollections(
+    schedule.collections,
+    getChannelScope(channel)
+  );
+  if (targetCollections.length === 0) {
+    log.warn(`No valid collections for random schedule in ${channel.id}`);
+    return;
+  }
+
+  try {
+    await postRandomToChannel(
+      channel,
+      schedule.channelId,
+      getChannelName(channel),
+      targetCollections
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    log.error(`Error posting random to ${schedule.channelId}: ${errorMessage}`);
+  }
+};
+
+/**
+ * (Re)start the timer for a schedule
+ *
+ * Posts immediately (without waiting for the post) if no previous post exists
+ * or the interval has elapsed. Paused schedules are stopped.
+ */
+const startSchedule = async (schedule: RandomSchedule): Promise<void> => {
+  const { channelId, minutes, paused } = schedule;
+  stopTimer(channelId);
+
+  if (paused) {
+    log.info(`Random schedule for ${channelId} is paused`);
+    return;
+  }
+  if (!discordClient) {
+    return;
+  }
+
+  let channel: Awaited<ReturnType<Client["channels"]["fetch"]>>;
+  try {
+    channel = await discordClient.channels.fetch(channelId);
+  } catch {
+    channel = null;
+  }
+  if (!channel?.isTextBased()) {
+    log.warn(`Channel ${channelId} is not a text channel, skipping`);
+    return;
+  }
+
+  // Remember the guild so schedules can be listed per server
+  schedule.guildId = getChannelScope(channel).guildId;
+
+  // A newer save or a delete may have landed while the channel was fetched
+  if (schedules.get(channelId) !== schedule) {
+    return;
+  }
+
+  const intervalMs = minutes * SECONDS_PER_MINUTE * ONE_SECOND_MS;
+  stopTimer(channelId);
+  timers.set(
+    channelId,
+    setInterval(() => postScheduled(schedule, channel), intervalMs)
+  );
+
+  if (getStateManager().shouldPostRandom(channelId, intervalMs)) {
+    log.info(`Posting initial random to #${getChannelName(channel)}`);
+    // Not awaited so admin commands can reply before the post is sent
+    postScheduled(schedule, channel);
+  }
+};
+
+/**
+ * Start posting for all schedules
+ */
+export const startSchedules = async (client: Client): Promise<void> => {
+  discordClient = client;
+
+  if (schedules.size === 0) {
+    log.debug("No random intervals configured");
+    return;
+  }
+
+  for (const schedule of schedules.values()) {
+    await startSchedule(schedule);
+  }
+};
+
+/**
+ * Create or replace a channel's schedule, persist it and restart its timer
+ */
+export const saveSchedule = async (schedule: RandomSchedule): Promise<void> => {
+  schedules.set(schedule.channelId, schedule);
+
+  const stateManager = getStateManager();
+  stateManager.setScheduleOverride(schedule.channelId, schedule);
+  await stateManager.save();
+
+  log.info(
+    `Saved random schedule for ${schedule.channelId}: every ${schedule.minutes} min${schedule.paused ? " (paused)" : ""}`
+  );
+  await startSchedule(schedule);
+};
+
+/**
+ * Delete a channel's schedule and stop its timer
+ * Returns false if the channel has no schedule
+ */
+export const deleteSchedule = async (channelId: string): Promise<boolean> => {
+  if (!schedules.delete(channelId)) {
+    return false;
+  }
+  stopTimer(channelId);
+
+  const stateManager = getStateManager();
+  stateManager.setScheduleOverride(channelId, null);
+  await stateManager.save();
+
+  log.info(`Deleted random schedule for ${channelId}`);
+  return true;
+};
+
+/**
+ * Stop all timers (for shutdown and tests)
+ */
+export const stopSchedules = (): void => {
+  for (const channelId of timers.keys()) {
+    stopTimer(channelId);
+  }
+};
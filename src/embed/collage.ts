@@ -0,0 +1,246 @@
+import {
+  AttachmentBuilder,
+  EmbedBuilder,
+  type HexColorString,
+} from "discord.js";
+import sharp from "sharp";
+import { fetchNFT, NFTNotFoundError } from "../api/opensea";
+import { checkDynamicTokenId } from "../config/collection";
+import {
+  COLLAGE_FETCH_CONCURRENCY,
+  MAX_COLLAGE_TOKENS,
+  MAX_MEDIA_ATTACHMENT_BYTES,
+  MEDIA_FETCH_TIMEOUT_MS,
+} from "../config/constants";
+import { getNsfwAction } from "../config/content-policy";
+import { renderCollage } from "../lib/collage";
+import { createLogger } from "../lib/logger";
+import type {
+  CollectionConfig,
+  EmbedResult,
+  Log,
+  NFT,
+  RequestScope,
+  TokenMatch,
+} from "../lib/types";
+import { pluralize, readBodyWithLimit, resolveMediaUrl } from "../lib/utils";
+import { renderSvgImage } from "./svg";
+
+const log = createLogger("Collage");
+
+/** Attachment name for collage images */
+export const COLLAGE_FILE_NAME = "collage.png";
+
+/** A token loaded for a collage */
+type CollageItem = {
+  match: TokenMatch;
+  nft: NFT;
+  image?: Buffer;
+  /** NSFW image hidden by the scope's policy */
+  hidden?: boolean;
+};
+
+/**
+ * Get the image URL to show for a token in a collage
+ * Uses the custom image URL if provided (often a PNG when the NFT is an SVG).
+ * IPFS and Arweave URLs are rewritten to HTTP gateways.
+ */
+const getCollageImageUrl = (
+  collection: CollectionConfig,
+  tokenId: number,
+  nft: NFT
+): Promise<string | undefined> =>
+  resolveMediaUrl(
+    collection.customImageUrl?.replace(/{id}/g, tokenId.toString()) ??
+      nft.image_url
+  );
+
+/**
+ * Download a token image
+ * Returns undefined if the download fails, the image is too large or it
+ * can't be decoded.
+ */
+export const fetchCollageImage = async (
+  url: string
+): Promise<Buffer | undefined> => {
+  try {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(MEDIA_FETCH_TIMEOUT_MS),
+    });
+    const size = Number(response.headers.get("content-length"));
+    if (!response.ok || size > MAX_MEDIA_ATTACHMENT_BYTES) {
+      log.debug(`Not using ${url} (${response.status}, ${size} bytes)`);
+      return;
+    }
+
+    const data = await readBodyWithLimit(response, MAX_MEDIA_ATTACHMENT_BYTES);
+    if (!data) {
+      log.debug(`Not using ${url} (over ${MAX_MEDIA_ATTACHMENT_BYTES} bytes)`);
+      return;
+    }
+    // Throws for data that isn't an image format sharp supports
+    await sharp(data).metadata();
+    return data;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(`Failed to load collage image ${url}: ${message}`);
+  }
+};
+
+/**
+ * Load a token's image for a collage
+ * SVGs are rendered when SVG_RENDER_SIZE is set, the same as in embeds.
+ */
+const loadCollageImage = async (
+  { collection, tokenId }: TokenMatch,
+  nft: NFT
+): Promise<Buffer | undefined> => {
+  const rendered = collection.customImageUrl
+    ? undefined
+    : await renderSvgImage(nft.image_url, collection, tokenId);
+  if (rendered) {
+    return rendered;
+  }
+  const url = await getCollageImageUrl(collection, tokenId, nft);
+  return url ? fetchCollageImage(url) : undefined;
+};
+
+/**
+ * Fetch a token and its image for a collage
+ * Returns undefined if the token is invalid, can't be found or is refused by
+ * the scope's NSFW policy. A single tile can't be blurred, so spoilered NSFW
+ * images are hidden like with the hide policy.
+ */
+const loadCollageItem = async (
+  match: TokenMatch,
+  userLog: Log,
+  scope?: RequestScope
+): Promise<CollageItem | undefined> => {
+  const { collection, tokenId } = match;
+  if (!(await checkDynamicTokenId(collection, tokenId, userLog))) {
+    userLog.push(`Skipping invalid token: ${collection.name} #${tokenId}`);
+    return;
+  }
+
+  try {
+    const nft = await fetchNFT(collection, tokenId, userLog);
+    const nsfwAction = getNsfwAction(nft, scope);
+    if (nsfwAction === "refuse") {
+      userLog.push(`Not showing NSFW token: ${collection.name} #${tokenId}`);
+      return;
+    }
+    if (nsfwAction !== "show") {
+      return { match, nft, hidden: true };
+    }
+    return { match, nft, image: await loadCollageImage(match, nft) };
+  } catch (error) {
+    if (error instanceof NFTNotFoundError) {
+      userLog.push(`Could not find ${collection.name} #${tokenId}`);
+      return;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Load tokens for a collage a few at a time (keeps request order)
+ */
+const loadCollageItems = async (
+  matches: TokenMatch[],
+  userLog: Log,
+  scope?: RequestScope
+): Promise<CollageItem[]> => {
+  const items: CollageItem[] = [];
+  for (let i = 0; i < matches.length; i += COLLAGE_FETCH_CONCURRENCY) {
+    const batch = matches.slice(i, i + COLLAGE_FETCH_CONCURRENCY);
+    const loaded = await Promise.all(
+      batch.map((match) => loadCollageItem(match, userLog, scope))
+    );
+    items.push(...loaded.filter((item) => item !== undefined));
+  }
+  return items;
+};
+
+/** Marks tokens OpenSea flags as suspicious in a collage's list */
+const SUSPICIOUS_MARK = "⚠️ ";
+
+/**
+ * Build the footer for a collage noting hidden and missing images
+ */
+const formatCollageFooter = (items: CollageItem[]): string => {
+  const hidden = items.filter((item) => item.hidden).length;
+  const missing = items.filter((item) => !(item.image || item.hidden)).length;
+  return [
+    hidden > 0 ? `${hidden} NSFW ${pluralize(hidden, "image")} hidden` : "",
+    missing > 0
+      ? `${missing} ${pluralize(missing, "image")} couldn't be loaded`
+      : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+};
+
+/**
+ * Build the summary embed for a collage
+ * The description lists the tokens in grid order, linked to OpenSea (with
+ * suspicious tokens marked).
+ */
+const buildCollageSummary = (items: CollageItem[]): EmbedBuilder => {
+  const collections = new Set(items.map((item) => item.match.collection));
+  const [first] = collections;
+  const title =
+    collections.size === 1
+      ? `${first.name} (${items.length})`
+      : `${items.length} ${pluralize(items.length, "NFT")}`;
+
+  const lines = items.map(
+    ({ match, nft }, index) =>
+      `${index + 1}. ${nft.is_suspicious ? SUSPICIOUS_MARK : ""}[${match.collection.name} #${match.tokenId}](${nft.opensea_url})`
+  );
+
+  const embed = new EmbedBuilder()
+    .setColor((first.color ?? "#121212") as HexColorString)
+    .setTitle(title)
+    .setDescription(lines.join("\n"))
+    .setImage(`attachment://${COLLAGE_FILE_NAME}`);
+
+  const footer = formatCollageFooter(items);
+  if (footer) {
+    embed.setFooter({ text: footer });
+  }
+  return embed;
+};
+
+/**
+ * Build a single collage embed for several token matches
+ * Token images are combined into one labelled grid PNG (up to
+ * MAX_COLLAGE_TOKENS tokens). NSFW tokens follow the scope's policy.
+ * Collage embeds don't have buttons.
+ */
+export const buildCollageForMatches = async (
+  matches: TokenMatch[],
+  userLog: Log,
+  scope?: RequestScope
+): Promise<EmbedResult> => {
+  const requested = matches.slice(0, MAX_COLLAGE_TOKENS);
+  log.debug(`Building collage for ${requested.length} tokens`);
+
+  const items = await loadCollageItems(requested, userLog, scope);
+  if (items.length === 0) {
+    return { embeds: [], files: [], tokens: [], embedLog: "" };
+  }
+
+  const png = await renderCollage(
+    items.map(({ match, image }) => ({ label: `#${match.tokenId}`, image }))
+  );
+  const parts = items.map(
+    ({ match }) => `${match.collection.prefix}#${match.tokenId}`
+  );
+
+  return {
+    embeds: [buildCollageSummary(items)],
+    files: [new AttachmentBuilder(png, { name: COLLAGE_FILE_NAME })],
+    tokens: [undefined],
+    embedLog: `Replied with a collage of ${parts.join(", ")}`,
+  };
+};
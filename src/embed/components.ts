@@ -0,0 +1,133 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from "discord.js";
+import { MAX_ACTION_ROWS_PER_MESSAGE } from "../config/constants";
+import type { TokenMatch } from "../lib/types";
+
+/** Namespace for embed button custom IDs */
+const BUTTON_ID_NAMESPACE = "embed";
+
+/** Actions available on embed buttons */
+export type EmbedButtonAction = "refresh" | "reroll" | "traits";
+
+/** Decoded embed button custom ID */
+export type EmbedButtonId = {
+  action: EmbedButtonAction;
+  /** Collection prefix (empty string for default) */
+  prefix: string;
+  tokenId: number;
+  /** Index of the embed within its message */
+  slot: number;
+};
+
+const BUTTON_ACTIONS: readonly EmbedButtonAction[] = [
+  "refresh",
+  "reroll",
+  "traits",
+];
+
+/**
+ * Encode a button custom ID
+ *
+ * Format: embed:action:prefix:tokenId:slot
+ * Everything needed to handle the click is in the ID, so buttons keep
+ * working after a restart.
+ */
+export const encodeButtonId = ({
+  action,
+  prefix,
+  tokenId,
+  slot,
+}: EmbedButtonId): string =>
+  `${BUTTON_ID_NAMESPACE}:${action}:${prefix}:${tokenId}:${slot}`;
+
+/**
+ * Decode a button custom ID
+ * Returns undefined if the ID is not an embed button
+ */
+export const parseButtonId = (customId: string): EmbedButtonId | undefined => {
+  const [namespace, action, prefix, tokenIdStr, slotStr] = customId.split(":");
+
+  if (
+    namespace !== BUTTON_ID_NAMESPACE ||
+    !BUTTON_ACTIONS.includes(action as EmbedButtonAction) ||
+    prefix === undefined
+  ) {
+    return;
+  }
+
+  const tokenId = Number(tokenIdStr);
+  const slot = Number(slotStr);
+  if (!(Number.isInteger(tokenId) && Number.isInteger(slot))) {
+    return;
+  }
+
+  return { action: action as EmbedButtonAction, prefix, tokenId, slot };
+};
+
+/**
+ * Build the button row for a single embed
+ *
+ * @param match - Token shown by the embed
+ * @param slot - Index of the embed within its message
+ * @param labelWithToken - Append the token ID to labels (for multi-embed messages)
+ */
+export const buildButtonRow = (
+  match: TokenMatch,
+  slot: number,
+  labelWithToken: boolean
+): ActionRowBuilder<ButtonBuilder> => {
+  const { collection, tokenId, isRandom } = match;
+  const suffix = labelWithToken ? ` #${tokenId}` : "";
+  const id = (action: EmbedButtonAction) =>
+    encodeButtonId({ action, prefix: collection.prefix, tokenId, slot });
+
+  const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(id("refresh"))
+      .setLabel(`Refresh${suffix}`)
+      .setStyle(ButtonStyle.Secondary)
+  );
+
+  if (isRandom) {
+    row.addComponents(
+      new ButtonBuilder()
+        .setCustomId(id("reroll"))
+        .setLabel(`Reroll${suffix}`)
+        .setStyle(ButtonStyle.Secondary)
+    );
+  }
+
+  row.addComponents(
+    new ButtonBuilder()
+      .setCustomId(id("traits"))
+      .setLabel(`Traits${suffix}`)
+      .setStyle(ButtonStyle.Secondary)
+  );
+
+  return row;
+};
+
+/**
+ * Build button rows for a message's embeds
+ *
+ * Discord allows at most 5 action rows per message, so embeds past that
+ * limit are sent without buttons.
+ *
+ * @param tokens - Token shown by each embed (same order as the embeds)
+ */
+export const buildButtonRows = (
+  tokens: (TokenMatch | undefined)[]
+): ActionRowBuilder<ButtonBuilder>[] => {
+  const rows: ActionRowBuilder<ButtonBuilder>[] = [];
+  const labelWithToken = tokens.length > 1;
+
+  for (const [slot, match] of tokens.entries()) {
+    if (rows.length >= MAX_ACTION_ROWS_PER_MESSAGE) {
+      break;
+    }
+    if (match) {
+      rows.push(buildButtonRow(match, slot, labelWithToken));
+    }
+  }
+
+  return rows;
+};
@@ -0,0 +1,1105 @@
+import {
+  type AttachmentBuilder,
+  EmbedBuilder,
+  type HexColorString,
+} from "discord.js";
+import { formatUnits } from "ethers";
+import {
+  fetchBestListing,
+  fetchBestOffer,
+  fetchCollectionStats,
+  fetchHoldings,
+  fetchLastSale,
+  fetchNFT,
+  fetchRandomUserNFT,
+  getUsername,
+} from "../api/opensea";
+import {
+  type FiatRates,
+  formatFiat,
+  getFiatRates,
+  normalizeSymbol,
+} from "../api/price-oracle";
+import { getRarity, traitPercentKey } from "../api/rarity";
+import { getRpcProvider } from "../api/rpc";
+import {
+  checkDynamicTokenId,
+  getCollections,
+  getSlugForCollection,
+} from "../config/collection";
+import { getTraitFilter, type TraitFilter } from "../config/collection-options";
+import {
+  MAX_EMBEDS_PER_MESSAGE,
+  MAX_FIELDS_PER_EMBED,
+  ONE_SECOND_MS,
+} from "../config/constants";
+import { getNsfwAction, type NsfwAction } from "../config/content-policy";
+import {
+  type BuiltInField,
+  DEFAULT_TEMPLATE,
+  type EmbedTemplate,
+  formatTemplateText,
+  getEmbedTemplate,
+  templateHasField,
+} from "../config/templates";
+import { logger } from "../lib/logger";
+import type {
+  AccountNFT,
+  BestListing,
+  BestOffer,
+  BuiltEmbed,
+  CollectionConfig,
+  CollectionStats,
+  EmbedResult,
+  Holdings,
+  LastSale,
+  Log,
+  NFT,
+  NFTFlags,
+  NFTTrait,
+  Rarity,
+  RequestScope,
+  TokenMatch,
+  UsernameMatch,
+} from "../lib/types";
+import {
+  formatAmount,
+  formatFloorDifference,
+  formatShortDate,
+  getHighResImage,
+  resolveMediaUrl,
+} from "../lib/utils";
+import { buildHistoryEmbed } from "./history";
+import {
+  fetchImageAttachment,
+  fetchMediaAttachment,
+  formatAnimationLink,
+  getAnimationUrl,
+} from "./media";
+import { buildProvenanceEmbed } from "./provenance";
+import { fetchSvgAttachment } from "./svg";
+
+const log = logger;
+
+/** Regex to match NFT name pattern like "Name #123 - " */
+const NFT_NAME_PATTERN = /^.+\s#\d+\s*-\s*/;
+
+type EmbedField = { name: string; value: string; inline: boolean };
+
+/** Trait percentages below this show as "<0.1%" */
+const MIN_SHOWN_PERCENT = 0.1;
+
+/**
+ * Format a trait value using its display_type
+ *
+ * - number: "5 of 10" when max_value is set
+ * - boost_number / boost_percentage: "+5" / "+5%"
+ * - date: Discord timestamp (value is unix seconds)
+ */
+export const formatTraitValue = (trait: NFTTrait): string => {
+  const { value, display_type: displayType, max_value: maxValue } = trait;
+  const numeric = Number(value);
+
+  switch (displayType) {
+    case "number":
+      return maxValue === null || maxValue === undefined
+        ? String(value)
+        : `${value} of ${maxValue}`;
+    case "boost_number":
+      return numeric >= 0 ? `+${value}` : String(value);
+    case "boost_percentage":
+      return numeric >= 0 ? `+${value}%` : `${value}%`;
+    case "date":
+      return Number.isFinite(numeric)
+        ? `<t:${Math.floor(numeric)}:D>`
+        : String(value);
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Format a trait percentage (e.g. "4.2%", "<0.1%")
+ */
+const formatPercent = (percent: number): string =>
+  percent < MIN_SHOWN_PERCENT ? "<0.1%" : `${percent.toFixed(1)}%`;
+
+/**
+ * Convert traits to inline embed fields
+ * Adds the share of tokens with each trait when rarity is known.
+ */
+const traitsToFields = (traits: NFTTrait[], rarity?: Rarity): EmbedField[] =>
+  traits.map((trait) => {
+    const value = formatTraitValue(trait);
+    const percent = rarity?.traitPercents.get(traitPercentKey(trait));
+    return {
+      name: trait.trait_type,
+      value:
+        percent === undefined ? value : `${value} (${formatPercent(percent)})`,
+      inline: true,
+    };
+  });
+
+/**
+ * Format a rarity rank (e.g. "Rank 123 / 11111")
+ */
+const formatRank = (rarity: Rarity | undefined): string | undefined => {
+  if (!rarity?.rank) {
+    return;
+  }
+  return rarity.total
+    ? `Rank ${rarity.rank} / ${rarity.total}`
+    : `Rank ${rarity.rank}`;
+};
+
+/**
+ * Add rarity rank field to embed fields
+ */
+const addRarityField = (
+  fields: EmbedField[],
+  rarity: Rarity | undefined
+): void => {
+  const rank = formatRank(rarity);
+  if (!rank) {
+    return;
+  }
+  fields.push({ name: "Rarity", value: rank, inline: true });
+  log.debug(`Rarity: ${rank}`);
+};
+
+/**
+ * Add trait fields to embed fields (if the collection shows traits)
+ * Fields past Discord's per-embed limit are dropped.
+ */
+const addTraitFields = (
+  fields: EmbedField[],
+  nft: NFT,
+  filter: TraitFilter | undefined,
+  rarity: Rarity | undefined
+): void => {
+  const traits = nft.traits ?? [];
+  if (!filter || traits.length === 0) {
+    return;
+  }
+
+  const allowed =
+    filter === "all" ? undefined : filter.map((t) => t.toLowerCase());
+  const shown = traits.filter(
+    (trait) => !allowed || allowed.includes(trait.trait_type.toLowerCase())
+  );
+
+  const room = MAX_FIELDS_PER_EMBED - fields.length;
+  fields.push(...traitsToFields(shown, rarity).slice(0, Math.max(0, room)));
+  log.debug(`Traits: ${shown.length} of ${traits.length} shown`);
+};
+
+/**
+ * Format how many tokens of the collection the owner holds (e.g., "holds 14")
+ */
+const formatHoldings = ({ count, truncated }: Holdings): string =>
+  `holds ${count.toLocaleString("en-US")}${truncated ? "+" : ""}`;
+
+/**
+ * Add owner field to embed fields
+ * Includes the owner's token count for the collection when known.
+ */
+const addOwnerField = async (
+  fields: EmbedField[],
+  nft: NFT,
+  holdings: Holdings | undefined,
+  userLog: Log
+): Promise<void> => {
+  const owner = nft.owners?.at(0);
+  if (!owner) {
+    return;
+  }
+  const name = await getUsername(owner.address, userLog);
+  const value = holdings?.count
+    ? `${name} (${formatHoldings(holdings)})`
+    : name;
+  fields.push({ name: "Owner", value, inline: true });
+  log.debug(`Owner: ${value}`);
+};
+
+/** Significant digits shown for the floor price */
+const FLOOR_PRECISION = 4;
+
+/** Collection floor price */
+type Floor = { price: number; symbol: string };
+
+/** Floor and fiat rates used to annotate prices */
+type PriceContext = { floor?: Floor; fiat?: FiatRates };
+
+/** A token amount from a sale, listing or offer */
+type PriceAmount = { value: number; decimals: number; currency: string };
+
+/** Prices fetched for an embed */
+type EmbedPrices = {
+  lastSale?: LastSale;
+  bestListing?: BestListing;
+  bestOffer?: BestOffer;
+  stats?: CollectionStats;
+};
+
+/** Fields that show the floor (on its own or compared against a price) */
+const FLOOR_FIELDS: readonly BuiltInField[] = [
+  "floor",
+  "lastSale",
+  "listing",
+  "offer",
+];
+
+/**
+ * Get the collection floor from its stats
+ */
+const getFloor = (stats: CollectionStats | undefined): Floor | undefined => {
+  const { floor_price: price, floor_price_symbol: symbol } = stats?.total ?? {};
+  if (!(price && symbol)) {
+    return;
+  }
+  return { price, symbol };
+};
+
+/**
+ * Get the floor and fiat rates for an embed's prices
+ */
+const getPriceContext = async (
+  prices: EmbedPrices,
+  scope: RequestScope | undefined
+): Promise<PriceContext> => {
+  const floor = getFloor(prices.stats);
+  const symbols = [
+    prices.lastSale?.payment.symbol,
+    prices.bestListing?.price?.current?.currency,
+    prices.bestOffer?.price?.currency,
+    floor?.symbol,
+  ].filter((symbol): symbol is string => symbol !== undefined);
+
+  const fiat =
+    symbols.length > 0 ? await getFiatRates(symbols, scope) : undefined;
+  return { floor, fiat };
+};
+
+/**
+ * Format a price with its fiat value, how far it is from the floor and a note
+ * e.g., "0.42 ETH (~$1,280, +18% vs floor)" or "0.267 ETH (~$812, Dec '24)"
+ */
+const formatPrice = (
+  { value, decimals, currency }: PriceAmount,
+  { floor, fiat }: PriceContext,
+  note?: string
+): string => {
+  const price = formatAmount(value, decimals, currency);
+  const amount = Number(formatUnits(value, decimals));
+
+  // Offers are usually in WETH, so compare normalized symbols
+  const vsFloor =
+    floor && normalizeSymbol(currency) === normalizeSymbol(floor.symbol)
+      ? formatFloorDifference(amount, floor.price)
+      : undefined;
+
+  const notes = [formatFiat(amount, currency, fiat), vsFloor, note].filter(
+    (n): n is string => n !== undefined
+  );
+  return notes.length > 0 ? `${price} (${notes.join(", ")})` : price;
+};
+
+/**
+ * Add last sale field to embed fields
+ */
+const addLastSaleField = (
+  fields: EmbedField[],
+  lastSale: LastSale | undefined,
+  prices: PriceContext
+): void => {
+  if (!lastSale) {
+    return;
+  }
+  const { quantity, decimals, symbol } = lastSale.payment;
+  const date = new Date(lastSale.closing_date * ONE_SECOND_MS);
+  const price = formatPrice(
+    { value: quantity, decimals, currency: symbol },
+    { fiat: prices.fiat },
+    formatShortDate(date)
+  );
+  fields.push({ name: "Last Sale", value: price, inline: true });
+  log.debug(`Last sale: ${price}`);
+};
+
+/**
+ * Add listing field to embed fields
+ */
+const addListingField = (
+  fields: EmbedField[],
+  bestListing: BestListing | undefined,
+  prices: PriceContext
+): void => {
+  if (!bestListing?.price?.current) {
+    return;
+  }
+  const price = formatPrice(bestListing.price.current, prices);
+  fields.push({ name: "Listed For", value: price, inline: true });
+  log.debug(`Listed for: ${price}`);
+};
+
+/**
+ * Add best offer field to embed fields (skip collection-wide offers)
+ */
+const addOfferField = (
+  fields: EmbedField[],
+  bestOffer: BestOffer | undefined,
+  prices: PriceContext
+): void => {
+  if (!bestOffer?.price || bestOffer.criteria?.collection) {
+    return;
+  }
+  const price = formatPrice(bestOffer.price, prices);
+  fields.push({ name: "Best Offer", value: price, inline: true });
+  log.debug(`Best offer: ${price}`);
+};
+
+/**
+ * Add collection floor field to embed fields
+ */
+const addFloorField = (fields: EmbedField[], prices: PriceContext): void => {
+  const { floor, fiat } = prices;
+  if (!floor) {
+    return;
+  }
+  const price = `${Number(floor.price.toPrecision(FLOOR_PRECISION))} ${floor.symbol}`;
+  const fiatPrice = formatFiat(floor.price, floor.symbol, fiat);
+  const value = fiatPrice ? `${price} (${fiatPrice})` : price;
+  fields.push({ name: "Floor", value, inline: true });
+  log.debug(`Floor: ${value}`);
+};
+
+/**
+ * Add editions field for ERC1155 tokens
+ */
+const addEditionsField = (fields: EmbedField[], nft: NFT): void => {
+  // Only show editions for ERC1155 tokens
+  if (nft.token_standard !== "erc1155") {
+    return;
+  }
+
+  // Calculate total editions from all owners
+  const totalEditions =
+    nft.owners?.reduce((sum, owner) => sum + (owner.quantity ?? 0), 0) ?? 0;
+
+  if (totalEditions === 0) {
+    return;
+  }
+
+  // Format as "1/1" for singles or "×3" for multiples
+  const editionsDisplay = totalEditions === 1 ? "1/1" : `×${totalEditions}`;
+  fields.push({ name: "Editions", value: editionsDisplay, inline: true });
+  log.debug(`Editions: ${editionsDisplay}`);
+};
+
+/**
+ * Add animation link field to embed fields
+ */
+const addAnimationField = (
+  fields: EmbedField[],
+  animationUrl: string | undefined
+): void => {
+  if (!animationUrl) {
+    return;
+  }
+  fields.push({
+    name: "Animation",
+    value: formatAnimationLink(animationUrl),
+    inline: true,
+  });
+  log.debug(`Animation: ${animationUrl}`);
+};
+
+/**
+ * Pick the embed image
+ *
+ * Uses the custom image URL if provided (supports an {id} placeholder),
+ * then an attached GIF (so it plays in the embed), then the still image (the
+ * poster frame for videos). SVGs, which Discord can't display, are rendered
+ * to an attached PNG when SVG_RENDER_SIZE is set. IPFS and Arweave URLs are
+ * rewritten to HTTP gateways.
+ */
+const getEmbedImage = async (
+  collection: CollectionConfig,
+  tokenId: number,
+  nft: NFT,
+  attachment: AttachmentBuilder | undefined
+): Promise<{ url?: string; file?: AttachmentBuilder }> => {
+  if (collection.customImageUrl) {
+    return {
+      url: await resolveMediaUrl(
+        collection.customImageUrl.replace(/{id}/g, tokenId.toString())
+      ),
+    };
+  }
+  if (attachment?.name?.endsWith(".gif")) {
+    return { url: `attachment://${attachment.name}` };
+  }
+  const rendered = await fetchSvgAttachment(nft.image_url, collection, tokenId);
+  if (rendered) {
+    return { url: `attachment://${rendered.name}`, file: rendered };
+  }
+  return { url: await resolveMediaUrl(getHighResImage(nft.image_url)) };
+};
+
+/** An embed's image and files to attach */
+type EmbedMedia = { url?: string; files: AttachmentBuilder[] };
+
+/**
+ * Apply an NSFW action to an embed's image and files
+ * Hidden NFTs have neither. Discord can't blur embed images, so spoilered
+ * images are downloaded and attached as spoilers instead (or hidden if
+ * that fails).
+ */
+const applyNsfwAction = async (
+  media: EmbedMedia,
+  nsfwAction: NsfwAction,
+  token: { collection: Pick<CollectionConfig, "prefix">; tokenId: number }
+): Promise<EmbedMedia> => {
+  if (nsfwAction === "hide") {
+    return { files: [] };
+  }
+  if (nsfwAction !== "spoiler") {
+    return media;
+  }
+
+  const files = [...media.files];
+  if (media.url?.startsWith("http")) {
+    const downloaded = await fetchImageAttachment(
+      media.url,
+      token.collection,
+      token.tokenId
+    );
+    if (downloaded) {
+      files.push(downloaded);
+    }
+  }
+  return { files: files.map((file) => file.setSpoiler(true)) };
+};
+
+/**
+ * Get an embed's image and files to attach under its NSFW action
+ */
+const getEmbedMedia = async (
+  collection: CollectionConfig,
+  tokenId: number,
+  nft: NFT,
+  context: { attachment?: AttachmentBuilder; nsfwAction: NsfwAction }
+): Promise<EmbedMedia> => {
+  const { attachment, nsfwAction } = context;
+  // Hidden images aren't rendered or downloaded
+  if (nsfwAction === "hide") {
+    return { files: [] };
+  }
+
+  const image = await getEmbedImage(collection, tokenId, nft, attachment);
+  const files = [attachment, image.file].filter((file) => file !== undefined);
+  return applyNsfwAction({ url: image.url, files }, nsfwAction, {
+    collection,
+    tokenId,
+  });
+};
+
+/**
+ * Build notices shown above an NFT's description (suspicious tokens and
+ * hidden or spoilered NSFW images)
+ */
+const formatNotices = (nft: NFTFlags, nsfwAction: NsfwAction): string[] =>
+  [
+    nft.is_suspicious ? SUSPICIOUS_NOTICE : "",
+    NSFW_NOTICES[nsfwAction] ?? "",
+  ].filter(Boolean);
+
+/** Data fetched for an embed (only what its template shows) */
+type EmbedData = {
+  prices: PriceContext;
+  lastSale?: LastSale;
+  bestListing?: BestListing;
+  bestOffer?: BestOffer;
+  holdings?: Holdings;
+  rarity?: Rarity;
+  animationUrl?: string;
+  attachment?: AttachmentBuilder;
+};
+
+/**
+ * Fetch an NFT's prices, owner holdings, rarity and media in parallel
+ * Sales, listings, offers and holdings are only fetched if the template
+ * shows them.
+ */
+const fetchEmbedData = async (
+  collection: CollectionConfig,
+  tokenId: number,
+  nft: NFT,
+  context: {
+    slug: string;
+    template: EmbedTemplate;
+    userLog: Log;
+    scope?: RequestScope;
+  }
+): Promise<EmbedData> => {
+  const { slug, template, userLog, scope } = context;
+  const shows = (name: BuiltInField) => templateHasField(template, name);
+
+  log.debug(`Fetching metadata for ${collection.name} #${tokenId}`);
+  // Rewritten to a gateway like images, so ipfs:// animations can be linked
+  const animationUrl = await resolveMediaUrl(getAnimationUrl(nft));
+  const owner = shows("owner") ? nft.owners?.at(0) : undefined;
+  const [
+    lastSale,
+    bestOffer,
+    bestListing,
+    stats,
+    holdings,
+    rarity,
+    attachment,
+  ] = await Promise.all([
+    shows("lastSale") ? fetchLastSale(collection, tokenId, userLog) : undefined,
+    shows("offer") ? fetchBestOffer(slug, tokenId, userLog) : undefined,
+    shows("listing") ? fetchBestListing(slug, tokenId, userLog) : undefined,
+    FLOOR_FIELDS.some(shows) ? fetchCollectionStats(slug, userLog) : undefined,
+    owner
+      ? fetchHoldings(owner.address, collection.chain, slug, userLog)
+      : undefined,
+    getRarity(collection, tokenId, nft, userLog),
+    animationUrl
+      ? fetchMediaAttachment(animationUrl, collection, tokenId)
+      : undefined,
+  ]);
+
+  const prices = await getPriceContext(
+    { lastSale, bestListing, bestOffer, stats },
+    scope
+  );
+  return {
+    prices,
+    lastSale,
+    bestListing,
+    bestOffer,
+    holdings,
+    rarity,
+    animationUrl,
+    attachment,
+  };
+};
+
+/** What template fields are built from */
+type FieldContext = {
+  collection: CollectionConfig;
+  template: EmbedTemplate;
+  nft: NFT;
+  data: EmbedData;
+  userLog: Log;
+};
+
+/**
+ * Build the embed fields for a built-in template field
+ */
+const buildBuiltInFields = async (
+  name: BuiltInField,
+  { collection, template, nft, data, userLog }: FieldContext
+): Promise<EmbedField[]> => {
+  const fields: EmbedField[] = [];
+  switch (name) {
+    case "owner":
+      await addOwnerField(fields, nft, data.holdings, userLog);
+      break;
+    case "editions":
+      addEditionsField(fields, nft);
+      break;
+    case "lastSale":
+      addLastSaleField(fields, data.lastSale, data.prices);
+      break;
+    case "listing":
+      addListingField(fields, data.bestListing, data.prices);
+      break;
+    case "offer":
+      addOfferField(fields, data.bestOffer, data.prices);
+      break;
+    case "floor":
+      addFloorField(fields, data.prices);
+      break;
+    case "animation":
+      addAnimationField(fields, data.animationUrl);
+      break;
+    case "rarity":
+      addRarityField(fields, data.rarity);
+      break;
+    case "traits": {
+      // Templates that list traits show every trait unless COLLECTION_TRAITS narrows them
+      const filter =
+        getTraitFilter(collection) ??
+        (template === DEFAULT_TEMPLATE ? undefined : "all");
+      addTraitFields(fields, nft, filter, data.rarity);
+      break;
+    }
+    default:
+      break;
+  }
+  return fields;
+};
+
+/**
+ * Build the embed field for a single trait (matched case-insensitively)
+ */
+const buildTraitField = (
+  traitType: string,
+  nft: NFT,
+  rarity: Rarity | undefined
+): EmbedField[] => {
+  const trait = nft.traits?.find(
+    (t) => t.trait_type.toLowerCase() === traitType.toLowerCase()
+  );
+  return trait ? traitsToFields([trait], rarity) : [];
+};
+
+/**
+ * Build the embed field for a top-level NFT property (e.g. token_standard)
+ * Only strings, numbers and booleans are shown.
+ */
+const buildPropertyField = (property: string, nft: NFT): EmbedField[] => {
+  const value = (nft as Record<string, unknown>)[property];
+  const shown =
+    typeof value === "number" ||
+    typeof value === "boolean" ||
+    (typeof value === "string" && value !== "");
+  return shown ? [{ name: property, value: String(value), inline: true }] : [];
+};
+
+/**
+ * Build an embed's fields in template order, applying label and inline overrides
+ * Fields past Discord's per-embed limit are dropped.
+ */
+const buildTemplateFields = async (
+  context: FieldContext
+): Promise<EmbedField[]> => {
+  const { template, nft, data } = context;
+  const fields: EmbedField[] = [];
+  for (const field of template.fields) {
+    let built: EmbedField[];
+    if (field.kind === "builtIn") {
+      built = await buildBuiltInFields(field.name, context);
+    } else if (field.kind === "trait") {
+      built = buildTraitField(field.traitType, nft, data.rarity);
+    } else {
+      built = buildPropertyField(field.property, nft);
+    }
+
+    // Trait groups keep each trait's own name
+    const relabel = field.kind !== "builtIn" || field.name !== "traits";
+    fields.push(
+      ...built.map((f) => ({
+        name: (relabel ? field.label : undefined) ?? f.name,
+        value: f.value,
+        inline: field.inline ?? f.inline,
+      }))
+    );
+  }
+  return fields.slice(0, MAX_FIELDS_PER_EMBED);
+};
+
+/**
+ * Get the name portion after a "Name #123 - " pattern, if present
+ * e.g., "GlyphBot #1 - Vector" → "Vector"
+ */
+const getNamePart = (nft: NFT): string | undefined =>
+  nft.name && NFT_NAME_PATTERN.test(nft.name)
+    ? nft.name.replace(NFT_NAME_PATTERN, "")
+    : nft.name;
+
+/**
+ * Build the description: the NFT name as a subtitle, then the collection's
+ * custom description
+ */
+const buildDescription = (
+  collection: CollectionConfig,
+  tokenId: number,
+  namePart: string | undefined
+): string => {
+  const customDesc = (collection.customDescription ?? "").replace(
+    /{id}/g,
+    tokenId.toString()
+  );
+  const description = namePart ? `**${namePart}**` : "";
+  if (customDesc) {
+    return description ? `${description}\n${customDesc}` : customDesc;
+  }
+  return description;
+};
+
+/** Notice for tokens OpenSea flags as suspicious */
+const SUSPICIOUS_NOTICE = "⚠️ Flagged as suspicious on OpenSea";
+
+/** Notices for NSFW tokens whose image isn't shown in the embed */
+const NSFW_NOTICES: Partial<Record<NsfwAction, string>> = {
+  hide: "🔞 NSFW image hidden",
+  spoiler: "🔞 NSFW image attached as a spoiler",
+};
+
+/** Footer for embeds built from on-chain data */
+const ONCHAIN_FOOTER = "OpenSea unavailable: showing on-chain data";
+
+/**
+ * Build the embed footer from the template and a note for on-chain NFTs
+ */
+const formatFooter = (
+  template: EmbedTemplate,
+  nft: NFT,
+  values: Parameters<typeof formatTemplateText>[1]
+): string =>
+  [
+    template.footer ? formatTemplateText(template.footer, values) : "",
+    nft.onchain ? ONCHAIN_FOOTER : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+/**
+ * Build a Discord embed for a single NFT (fetching it unless it's given)
+ */
+const buildTokenEmbed = async (
+  collection: CollectionConfig,
+  tokenId: number,
+  context: { userLog: Log; scope?: RequestScope; nft?: NFT }
+): Promise<BuiltEmbed | undefined> => {
+  const { userLog, scope } = context;
+  // Use dynamic check for collections with dynamic supply (handles new mints)
+  const isValid = await checkDynamicTokenId(collection, tokenId, userLog);
+  if (!isValid) {
+    userLog.push(`Skipping invalid token: ${collection.name} #${tokenId}`);
+    log.debug(`Invalid token ID: ${collection.name} #${tokenId}`);
+    return;
+  }
+
+  log.debug(`Building embed for ${collection.name} #${tokenId}`);
+  const startTime = Date.now();
+
+  // Without a slug, only an on-chain embed can be built
+  const slug = await getSlugForCollection(collection, userLog);
+  if (!(slug || getRpcProvider(collection.chain))) {
+    userLog.push(`No slug found for collection: ${collection.name}`);
+    log.warn(`No slug found for collection: ${collection.name}`);
+    return;
+  }
+
+  const nft = context.nft ?? (await fetchNFT(collection, tokenId, userLog));
+  const nsfwAction = getNsfwAction(nft, scope);
+  if (nsfwAction === "refuse") {
+    userLog.push(`Not showing NSFW token: ${collection.name} #${tokenId}`);
+    log.info(`Refused NSFW token: ${collection.name} #${tokenId}`);
+    return;
+  }
+  const template = getEmbedTemplate(collection);
+  // On-chain NFTs have no market data (sales, listings, offers, floor)
+  const data: EmbedData =
+    slug && !nft.onchain
+      ? await fetchEmbedData(collection, tokenId, nft, {
+          slug,
+          template,
+          userLog,
+          scope,
+        })
+      : { prices: {} };
+  const fields = await buildTemplateFields({
+    collection,
+    template,
+    nft,
+    data,
+    userLog,
+  });
+
+  // Build the embed
+  const namePart = getNamePart(nft);
+  const description = [
+    ...formatNotices(nft, nsfwAction),
+    buildDescription(collection, tokenId, namePart),
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  // Title is "CollectionName #123" unless the template changes it
+  const textValues = {
+    collection: collection.name,
+    id: tokenId,
+    name: namePart,
+  };
+  const title = formatTemplateText(template.title, textValues);
+
+  const embed = new EmbedBuilder()
+    .setColor((collection.color ?? "#121212") as HexColorString)
+    .setTitle(title)
+    .setURL(nft.opensea_url)
+    .setFields(fields);
+
+  if (description) {
+    embed.setDescription(description);
+  }
+
+  const footer = formatFooter(template, nft, textValues);
+  if (footer) {
+    embed.setFooter({ text: footer });
+  }
+
+  const { url: imageUrl, files } = await getEmbedMedia(
+    collection,
+    tokenId,
+    nft,
+    { attachment: data.attachment, nsfwAction }
+  );
+  if (imageUrl) {
+    embed.setImage(imageUrl);
+  }
+
+  const duration = Date.now() - startTime;
+  log.debug(
+    `Built embed for ${collection.name} #${tokenId} with ${fields.length} fields (${duration}ms)`
+  );
+
+  return { embed, files };
+};
+
+/**
+ * Build a Discord embed for a single NFT
+ * Animated NFTs get a link to the animation, and small GIFs and videos are
+ * returned as files to attach so they play inline (as are SVG images
+ * rendered to PNGs). If OpenSea is down, the
+ * embed is built from on-chain data without market fields.
+ */
+export const buildEmbed = (
+  collection: CollectionConfig,
+  tokenId: number,
+  userLog: Log,
+  scope?: RequestScope
+): Promise<BuiltEmbed | undefined> =>
+  buildTokenEmbed(collection, tokenId, { userLog, scope });
+
+/**
+ * Build a Discord embed for an NFT that was already fetched (so it isn't
+ * fetched again)
+ */
+export const buildEmbedForNFT = (
+  collection: CollectionConfig,
+  tokenId: number,
+  nft: NFT,
+  context: { userLog: Log; scope?: RequestScope }
+): Promise<BuiltEmbed | undefined> =>
+  buildTokenEmbed(collection, tokenId, { ...context, nft });
+
+/**
+ * Build an embed listing an NFT's traits (with rarity, if known)
+ */
+export const buildTraitsEmbed = (
+  collection: CollectionConfig,
+  tokenId: number,
+  nft: NFT,
+  rarity?: Rarity
+): EmbedBuilder => {
+  const embed = new EmbedBuilder()
+    .setColor((collection.color ?? "#121212") as HexColorString)
+    .setTitle(`${collection.name} #${tokenId} Traits`)
+    .setURL(nft.opensea_url);
+
+  const rank = formatRank(rarity);
+  if (rank) {
+    embed.setDescription(`**${rank}**`);
+  }
+
+  const traits = nft.traits ?? [];
+  if (traits.length === 0) {
+    return embed.setDescription("This token has no traits");
+  }
+
+  return embed.setFields(
+    traitsToFields(traits.slice(0, MAX_FIELDS_PER_EMBED), rarity)
+  );
+};
+
+/** Embed builders for token modes (#123 history, #123 provenance) */
+const MODE_BUILDERS = {
+  history: buildHistoryEmbed,
+  provenance: buildProvenanceEmbed,
+};
+
+/**
+ * Format a match as it would be typed (e.g., "prefix#123 history")
+ */
+const formatMatchLabel = ({ collection, tokenId, mode }: TokenMatch): string =>
+  `${collection.prefix}#${tokenId}${mode ? ` ${mode}` : ""}`;
+
+/**
+ * Build embeds for multiple token matches
+ */
+export const buildEmbedsForMatches = async (
+  matches: TokenMatch[],
+  userLog: Log,
+  scope?: RequestScope
+): Promise<EmbedResult> => {
+  const embeds: EmbedBuilder[] = [];
+  const files: AttachmentBuilder[] = [];
+  const tokens: (TokenMatch | undefined)[] = [];
+  const parts: string[] = [];
+
+  log.debug(
+    `Building embeds for ${matches.length} ${matches.length === 1 ? "match" : "matches"}`
+  );
+
+  for (const match of matches.slice(0, MAX_EMBEDS_PER_MESSAGE)) {
+    const build = match.mode ? MODE_BUILDERS[match.mode] : buildEmbed;
+    const built = await build(match.collection, match.tokenId, userLog, scope);
+    if (built) {
+      embeds.push(built.embed);
+      files.push(...built.files);
+      // History and provenance embeds don't have buttons
+      tokens.push(match.mode ? undefined : match);
+      parts.push(formatMatchLabel(match));
+    }
+  }
+
+  const embedLog = parts.length > 0 ? `Replied with ${parts.join(", ")}` : "";
+  return { embeds, files, tokens, embedLog };
+};
+
+/**
+ * Build a basic embed for an NFT outside the configured collections
+ * NSFW and suspicious tokens are handled like in buildEmbed.
+ */
+const buildBasicEmbed = async (
+  nft: AccountNFT,
+  tokenId: number,
+  userLog: Log,
+  scope?: RequestScope
+): Promise<BuiltEmbed | undefined> => {
+  const label = nft.name ?? `NFT #${tokenId}`;
+  const nsfwAction = getNsfwAction(nft, scope);
+  if (nsfwAction === "refuse") {
+    userLog.push(`Not showing NSFW token: ${label}`);
+    log.info(`Refused NSFW token: ${label}`);
+    return;
+  }
+  log.debug(`Building basic embed for ${label}`);
+
+  const embed = new EmbedBuilder()
+    .setColor("#121212")
+    .setTitle(label)
+    .setURL(nft.opensea_url);
+
+  const description = [...formatNotices(nft, nsfwAction), nft.description ?? ""]
+    .filter(Boolean)
+    .join("\n");
+  if (description) {
+    embed.setDescription(description);
+  }
+
+  const { url, files } = await applyNsfwAction(
+    {
+      url:
+        nsfwAction === "hide"
+          ? undefined
+          : await resolveMediaUrl(nft.image_url),
+      files: [],
+    },
+    nsfwAction,
+    { collection: { prefix: "" }, tokenId }
+  );
+  if (url) {
+    embed.setImage(url);
+  }
+
+  return { embed, files };
+};
+
+/**
+ * Build embed for a username random request
+ * Returns the token shown when the NFT belongs to a configured collection
+ */
+const buildEmbedForUsernameMatch = async (
+  match: UsernameMatch,
+  userLog: Log,
+  scope?: RequestScope
+): Promise<(BuiltEmbed & { token?: TokenMatch }) | undefined> => {
+  const { username, collection } = match;
+
+  // Get collection slug if filtering by collection
+  let collectionSlug: string | undefined;
+  if (collection) {
+    collectionSlug = await getSlugForCollection(collection, userLog);
+  }
+
+  // Get the chain from collection or default to ethereum
+  const chain = collection?.chain ?? "ethereum";
+
+  // Fetch random NFT from user
+  const result = await fetchRandomUserNFT(
+    username,
+    chain,
+    userLog,
+    collectionSlug
+  );
+
+  if (!result) {
+    return;
+  }
+
+  const { nft, tokenId } = result;
+
+  // Find the matching collection config for this NFT
+  let nftCollection = collection;
+  if (!nftCollection) {
+    // Try to find collection by contract address
+    const allCollections = getCollections(scope);
+    nftCollection = allCollections.find(
+      (c) => c.address.toLowerCase() === nft.contract.toLowerCase()
+    );
+  }
+
+  // If we have a collection config, use buildEmbed
+  if (nftCollection) {
+    const built = await buildEmbed(nftCollection, tokenId, userLog, scope);
+    if (!built) {
+      return;
+    }
+    return { ...built, token: { collection: nftCollection, tokenId } };
+  }
+
+  // Otherwise build a basic embed from the NFT data
+  return buildBasicEmbed(nft, tokenId, userLog, scope);
+};
+
+/**
+ * Build embeds for username matches
+ */
+export const buildEmbedsForUsernameMatches = async (
+  matches: UsernameMatch[],
+  userLog: Log,
+  scope?: RequestScope
+): Promise<EmbedResult> => {
+  const embeds: EmbedBuilder[] = [];
+  const files: AttachmentBuilder[] = [];
+  const tokens: (TokenMatch | undefined)[] = [];
+  const parts: string[] = [];
+
+  log.debug(
+    `Building embeds for ${matches.length} username ${matches.length === 1 ? "match" : "matches"}`
+  );
+
+  for (const match of matches.slice(0, MAX_EMBEDS_PER_MESSAGE)) {
+    const result = await buildEmbedForUsernameMatch(match, userLog, scope);
+    if (result) {
+      embeds.push(result.embed);
+      files.push(...result.files);
+      tokens.push(result.token);
+      const prefix = match.collection?.prefix
+        ? `${match.collection.prefix}#`
+        : "#";
+      parts.push(`${prefix}${match.username}`);
+    }
+  }
+
+  const embedLog =
+    parts.length > 0 ? `Replied with random from ${parts.join(", ")}` : "";
+  return { embeds, files, tokens, embedLog };
+};
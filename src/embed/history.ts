@@ -0,0 +1,206 @@
+import {
+  AttachmentBuilder,
+  EmbedBuilder,
+  type EmbedField,
+  type HexColorString,
+} from "discord.js";
+import { formatUnits } from "ethers";
+import { fetchNFT, fetchSaleHistory, getUsername } from "../api/opensea";
+import {
+  type FiatRates,
+  formatFiat,
+  getFiatRates,
+  normalizeSymbol,
+} from "../api/price-oracle";
+import { checkDynamicTokenId } from "../config/collection";
+import { HISTORY_TABLE_ROWS, ONE_SECOND_MS } from "../config/constants";
+import { renderPriceChart } from "../lib/chart";
+import { createLogger } from "../lib/logger";
+import type {
+  BuiltEmbed,
+  CollectionConfig,
+  Log,
+  RequestScope,
+  SaleEvent,
+} from "../lib/types";
+import { formatAmount, formatShortDate } from "../lib/utils";
+
+const log = createLogger("History");
+
+/** Longest buyer or seller name shown in the sales table (fits short addresses) */
+const MAX_NAME_LENGTH = 14;
+
+/**
+ * Get the attachment name for a token's history chart
+ */
+export const historyChartName = (prefix: string, tokenId: number): string =>
+  `history-${prefix || "nft"}-${tokenId}.png`;
+
+/**
+ * Get a sale's price as a number of tokens
+ */
+const saleAmount = ({ payment }: SaleEvent): number =>
+  Number(formatUnits(payment.quantity, payment.decimals));
+
+/**
+ * Format a sale's price (e.g., "0.42 ETH")
+ */
+const formatSalePrice = ({ payment }: SaleEvent): string =>
+  formatAmount(payment.quantity, payment.decimals, payment.symbol);
+
+/**
+ * Format a sale date as YYYY-MM-DD
+ */
+const formatSaleDate = (sale: SaleEvent): string =>
+  new Date(sale.closing_date * ONE_SECOND_MS).toISOString().slice(0, 10);
+
+/**
+ * Shorten a name to fit the sales table
+ */
+const truncateName = (name: string): string =>
+  name.length > MAX_NAME_LENGTH
+    ? `${name.slice(0, MAX_NAME_LENGTH - 1)}…`
+    : name;
+
+/**
+ * Build a monospace table of sales (date, price, seller → buyer)
+ */
+const formatSalesTable = async (
+  sales: SaleEvent[],
+  userLog: Log
+): Promise<string> => {
+  const addresses = [...new Set(sales.flatMap((s) => [s.seller, s.buyer]))];
+  const names = new Map(
+    await Promise.all(
+      addresses.map(
+        async (address) =>
+          [address, await getUsername(address, userLog)] as const
+      )
+    )
+  );
+
+  const rows = sales.map((sale) => [
+    formatSaleDate(sale),
+    formatSalePrice(sale),
+    `${truncateName(names.get(sale.seller) ?? "")} → ${truncateName(names.get(sale.buyer) ?? "")}`,
+  ]);
+  const priceWidth = Math.max(...rows.map(([, price]) => price.length));
+  const lines = rows.map(
+    ([date, price, parties]) =>
+      `${date}  ${price.padEnd(priceWidth)}  ${parties}`
+  );
+  return `\`\`\`\n${lines.join("\n")}\n\`\`\``;
+};
+
+/**
+ * Format a price with its fiat value (e.g., "0.42 ETH (~$1,280)")
+ */
+const formatWithFiat = (sale: SaleEvent, fiat: FiatRates | undefined) => {
+  const value = formatFiat(saleAmount(sale), sale.payment.symbol, fiat);
+  const price = formatSalePrice(sale);
+  return value ? `${price} (${value})` : price;
+};
+
+/**
+ * Add sale count and price range fields
+ * When older sales weren't fetched, the count and first sale are marked as
+ * lower bounds (e.g. "200+").
+ */
+const addSummaryFields = (
+  fields: EmbedField[],
+  history: { sales: SaleEvent[]; charted: SaleEvent[]; truncated: boolean },
+  fiat: FiatRates | undefined
+): void => {
+  const { sales, charted, truncated } = history;
+  const byPrice = [...charted].sort((a, b) => saleAmount(a) - saleAmount(b));
+  const low = byPrice.at(0);
+  const high = byPrice.at(-1);
+  const first = sales.at(-1);
+
+  fields.push({
+    name: "Sales",
+    value: `${sales.length}${truncated ? "+" : ""}`,
+    inline: true,
+  });
+  if (low && high) {
+    fields.push(
+      { name: "Low", value: formatWithFiat(low, fiat), inline: true },
+      { name: "High", value: formatWithFiat(high, fiat), inline: true }
+    );
+  }
+  if (first) {
+    const date = new Date(first.closing_date * ONE_SECOND_MS);
+    fields.push({
+      name: "First Sale",
+      value: `${formatShortDate(date)}${truncated ? " or earlier" : ""}`,
+      inline: true,
+    });
+  }
+};
+
+/**
+ * Build a sales history embed for an NFT
+ * Includes a price-over-time chart (attached as a PNG) and a table of the
+ * most recent sales. Only sales in the latest sale's currency are charted,
+ * and only the newest HISTORY_MAX_PAGES pages of sales are fetched.
+ */
+export const buildHistoryEmbed = async (
+  collection: CollectionConfig,
+  tokenId: number,
+  userLog: Log,
+  scope?: RequestScope
+): Promise<BuiltEmbed | undefined> => {
+  const isValid = await checkDynamicTokenId(collection, tokenId, userLog);
+  if (!isValid) {
+    userLog.push(`Skipping invalid token: ${collection.name} #${tokenId}`);
+    return;
+  }
+
+  log.debug(`Building history embed for ${collection.name} #${tokenId}`);
+  const [nft, { sales, truncated }] = await Promise.all([
+    fetchNFT(collection, tokenId, userLog),
+    fetchSaleHistory(collection, tokenId, userLog),
+  ]);
+
+  const embed = new EmbedBuilder()
+    .setColor((collection.color ?? "#121212") as HexColorString)
+    .setTitle(`${collection.name} #${tokenId} Sales History`)
+    .setURL(nft.opensea_url);
+
+  const latest = sales.at(0);
+  if (!latest) {
+    const description = truncated ? "Couldn't load sales" : "No sales yet";
+    return { embed: embed.setDescription(description), files: [] };
+  }
+
+  const symbol = normalizeSymbol(latest.payment.symbol);
+  const charted = sales.filter(
+    (sale) => normalizeSymbol(sale.payment.symbol) === symbol
+  );
+  const [table, fiat] = await Promise.all([
+    formatSalesTable(sales.slice(0, HISTORY_TABLE_ROWS), userLog),
+    getFiatRates([latest.payment.symbol], scope),
+  ]);
+
+  const fields: EmbedField[] = [];
+  addSummaryFields(fields, { sales, charted, truncated }, fiat);
+  embed.setDescription(table).setFields(fields);
+  if (truncated) {
+    embed.setFooter({ text: "Older sales not shown" });
+  }
+
+  const chart = await renderPriceChart(
+    charted.map((sale) => ({
+      time: sale.closing_date,
+      price: saleAmount(sale),
+    })),
+    { color: collection.color }
+  );
+  const name = historyChartName(collection.prefix, tokenId);
+  embed.setImage(`attachment://${name}`);
+
+  log.debug(
+    `Built history embed for ${collection.name} #${tokenId} (${sales.length} sales, ${charted.length} charted)`
+  );
+  return { embed, files: [new AttachmentBuilder(chart, { name })] };
+};
@@ -0,0 +1,174 @@
+import { AttachmentBuilder } from "discord.js";
+import {
+  MAX_MEDIA_ATTACHMENT_BYTES,
+  MEDIA_FETCH_TIMEOUT_MS,
+} from "../config/constants";
+import { createLogger } from "../lib/logger";
+import type { CollectionConfig, NFT } from "../lib/types";
+
+const log = createLogger("Media");
+
+/** Kind of animation an NFT has */
+export type MediaKind = "gif" | "video" | "html" | "other";
+
+/** Extensions for attachable media by content type */
+const ATTACHABLE_TYPES: Record<string, string> = {
+  "image/gif": "gif",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+  "video/quicktime": "mov",
+};
+
+/** Extensions for attachable images by content type */
+const IMAGE_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+/** Link labels by media kind */
+const MEDIA_LABELS: Record<MediaKind, string> = {
+  gif: "GIF",
+  video: "Video",
+  html: "Interactive",
+  other: "Animation",
+};
+
+const GIF_PATTERN = /\.gif(\?|$)/i;
+const VIDEO_PATTERN = /\.(mp4|webm|mov|m4v)(\?|$)/i;
+const HTML_PATTERN = /\.html?(\?|$)/i;
+
+/**
+ * Added to the media prefix for animation attachments, so they don't clash
+ * with image attachments of the same type (e.g. a spoilered GIF image)
+ */
+const ANIMATION_FILE_SUFFIX = "animation.";
+
+/** Discord blurs attachments whose names start with SPOILER_ */
+const SPOILER_PATTERN = /^SPOILER_/;
+
+/**
+ * Get an NFT's animation URL (OpenSea's display version if available)
+ */
+export const getAnimationUrl = (nft: NFT): string | undefined =>
+  nft.display_animation_url ?? nft.animation_url ?? undefined;
+
+/**
+ * Guess the kind of media at a URL from its extension
+ */
+export const getMediaKind = (url: string): MediaKind => {
+  if (GIF_PATTERN.test(url)) {
+    return "gif";
+  }
+  if (VIDEO_PATTERN.test(url)) {
+    return "video";
+  }
+  if (HTML_PATTERN.test(url)) {
+    return "html";
+  }
+  return "other";
+};
+
+/**
+ * Build a markdown link to an animation (e.g. "[Video](https://...)")
+ */
+export const formatAnimationLink = (url: string): string =>
+  `[${MEDIA_LABELS[getMediaKind(url)]}](${url})`;
+
+/**
+ * Get the attachment name prefix for a token's media
+ * Used to tell which attachments belong to which embed in a message.
+ */
+export const mediaFilePrefix = (prefix: string, tokenId: number): string =>
+  `${prefix || "nft"}-${tokenId}.`;
+
+/**
+ * Check if an attachment is one of a token's media files (even if it's
+ * marked as a spoiler)
+ */
+export const isTokenMediaFile = (
+  name: string,
+  prefix: string,
+  tokenId: number
+): boolean =>
+  name
+    .replace(SPOILER_PATTERN, "")
+    .startsWith(mediaFilePrefix(prefix, tokenId));
+
+/**
+ * Download a file of one of the given types as a Discord attachment
+ * Returns undefined for other types, files over the upload limit, or if the
+ * download fails.
+ */
+const downloadAttachment = async (
+  url: string,
+  namePrefix: string,
+  types: Record<string, string>
+): Promise<AttachmentBuilder | undefined> => {
+  try {
+    // Check type and size first so large files aren't downloaded
+    const head = await fetch(url, {
+      method: "HEAD",
+      signal: AbortSignal.timeout(MEDIA_FETCH_TIMEOUT_MS),
+    });
+    const contentType = head.headers.get("content-type")?.split(";")[0];
+    const extension = contentType ? types[contentType] : undefined;
+    const size = Number(head.headers.get("content-length"));
+    if (!(head.ok && extension && size > 0)) {
+      log.debug(`Not attaching ${url} (${contentType ?? "unknown type"})`);
+      return;
+    }
+    if (size > MAX_MEDIA_ATTACHMENT_BYTES) {
+      log.debug(`Not attaching ${url} (${size} bytes is too large)`);
+      return;
+    }
+
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(MEDIA_FETCH_TIMEOUT_MS),
+    });
+    const buffer = Buffer.from(await response.arrayBuffer());
+    if (!response.ok || buffer.length > MAX_MEDIA_ATTACHMENT_BYTES) {
+      return;
+    }
+
+    const name = `${namePrefix}${extension}`;
+    log.debug(`Attaching ${url} as ${name} (${buffer.length} bytes)`);
+    return new AttachmentBuilder(buffer, { name });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(`Failed to fetch media ${url}: ${message}`);
+  }
+};
+
+/**
+ * Download an animation as a Discord attachment
+ * Only GIFs and videos within the upload limit are attached, so they play
+ * inline (named e.g. "nft-1.animation.mp4"). Returns undefined for other
+ * media or if the download fails.
+ */
+export const fetchMediaAttachment = (
+  url: string,
+  collection: CollectionConfig,
+  tokenId: number
+): Promise<AttachmentBuilder | undefined> =>
+  downloadAttachment(
+    url,
+    `${mediaFilePrefix(collection.prefix, tokenId)}${ANIMATION_FILE_SUFFIX}`,
+    ATTACHABLE_TYPES
+  );
+
+/**
+ * Download an image as a Discord attachment (used for spoiler images, which
+ * can't be blurred in an embed)
+ */
+export const fetchImageAttachment = (
+  url: string,
+  collection: Pick<CollectionConfig, "prefix">,
+  tokenId: number
+): Promise<AttachmentBuilder | undefined> =>
+  downloadAttachment(
+    url,
+    mediaFilePrefix(collection.prefix, tokenId),
+    IMAGE_TYPES
+  );
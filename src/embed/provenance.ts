@@ -0,0 +1,227 @@
+import { EmbedBuilder, type EmbedField, type HexColorString } from "discord.js";
+import { ZeroAddress } from "ethers";
+import { fetchNFT, fetchOwnershipEvents, getUsername } from "../api/opensea";
+import { checkDynamicTokenId } from "../config/collection";
+import { ONE_SECOND_MS, PROVENANCE_MAX_ENTRIES } from "../config/constants";
+import { createLogger } from "../lib/logger";
+import type {
+  BuiltEmbed,
+  CollectionConfig,
+  Log,
+  OwnershipEvent,
+  SaleEvent,
+} from "../lib/types";
+import {
+  formatAmount,
+  formatDuration,
+  formatShortDate,
+  pluralize,
+} from "../lib/utils";
+
+const log = createLogger("Provenance");
+
+/** A change of owner in a token's timeline */
+type TimelineEntry = {
+  kind: "mint" | "transfer" | "sale";
+  /** Unix timestamp (seconds) */
+  time: number;
+  /** The new owner */
+  owner: string;
+  sale?: SaleEvent;
+};
+
+/**
+ * Convert an event into a timeline entry
+ * Transfers from the zero address are mints.
+ */
+const toTimelineEntry = (event: OwnershipEvent): TimelineEntry => {
+  if (event.event_type === "sale") {
+    return {
+      kind: "sale",
+      time: event.closing_date,
+      owner: event.buyer,
+      sale: event,
+    };
+  }
+  const isMint =
+    event.event_type === "mint" || event.from_address === ZeroAddress;
+  return {
+    kind: isMint ? "mint" : "transfer",
+    time: event.event_timestamp,
+    owner: event.to_address,
+  };
+};
+
+/**
+ * Build a chronological timeline from a token's events (newest first)
+ * A sale's transfer is dropped in favor of the sale itself.
+ */
+const buildTimeline = (events: OwnershipEvent[]): TimelineEntry[] => {
+  const saleTransactions = new Set(
+    events.flatMap((event) =>
+      event.event_type === "sale" && event.transaction
+        ? [event.transaction]
+        : []
+    )
+  );
+  return events
+    .filter(
+      (event) =>
+        event.event_type === "sale" ||
+        !(event.transaction && saleTransactions.has(event.transaction))
+    )
+    .map(toTimelineEntry)
+    .sort((a, b) => a.time - b.time);
+};
+
+/**
+ * Format how long an entry's owner held the token
+ * The last owner is still holding it.
+ */
+const formatHeld = (entry: TimelineEntry, next: TimelineEntry | undefined) => {
+  if (next) {
+    return `held ${formatDuration(next.time - entry.time)}`;
+  }
+  const now = Math.floor(Date.now() / ONE_SECOND_MS);
+  return `holding ${formatDuration(now - entry.time)}`;
+};
+
+/**
+ * Format a timeline entry (e.g., "`2024-03-05` Sold to **bob** for 0.42 ETH · held 2mo")
+ */
+const formatEntry = (
+  entry: TimelineEntry,
+  next: TimelineEntry | undefined,
+  names: Map<string, string>
+): string => {
+  const date = new Date(entry.time * ONE_SECOND_MS).toISOString().slice(0, 10);
+  const owner = `**${names.get(entry.owner) ?? entry.owner}**`;
+  let action = `Transferred to ${owner}`;
+  if (entry.kind === "mint") {
+    action = `Minted by ${owner}`;
+  } else if (entry.sale) {
+    const { quantity, decimals, symbol } = entry.sale.payment;
+    action = `Sold to ${owner} for ${formatAmount(quantity, decimals, symbol)}`;
+  }
+  return `\`${date}\` ${action} · ${formatHeld(entry, next)}`;
+};
+
+/** Line shown above timelines whose older events weren't fetched */
+const EARLIER_EVENTS_LINE = "… earlier events not shown";
+
+/**
+ * Format the timeline as lines, keeping the first entry (usually the mint)
+ * and the most recent ones when there are more than PROVENANCE_MAX_ENTRIES
+ * When older events weren't fetched, the oldest fetched entry isn't the
+ * first, so only the most recent entries are kept below a note.
+ */
+const formatTimeline = (
+  timeline: TimelineEntry[],
+  names: Map<string, string>,
+  truncated: boolean
+): string => {
+  const lines = timeline.map((entry, index) =>
+    formatEntry(entry, timeline.at(index + 1), names)
+  );
+  if (truncated) {
+    return [EARLIER_EVENTS_LINE, ...lines.slice(-PROVENANCE_MAX_ENTRIES)].join(
+      "\n"
+    );
+  }
+  if (lines.length <= PROVENANCE_MAX_ENTRIES) {
+    return lines.join("\n");
+  }
+  const hidden = lines.length - PROVENANCE_MAX_ENTRIES;
+  return [
+    lines[0],
+    `… ${hidden} more ${pluralize(hidden, "event")}`,
+    ...lines.slice(hidden + 1),
+  ].join("\n");
+};
+
+/**
+ * Build owner, sale and transfer count fields
+ * When older events weren't fetched, counts are marked as lower bounds
+ * (e.g. "200+") and the mint date is left out.
+ */
+const buildSummaryFields = (
+  timeline: TimelineEntry[],
+  truncated: boolean
+): EmbedField[] => {
+  const suffix = truncated ? "+" : "";
+  const count = (kind: TimelineEntry["kind"]) =>
+    timeline.filter((entry) => entry.kind === kind).length;
+  const owners = new Set(timeline.map((entry) => entry.owner));
+
+  const fields: EmbedField[] = [
+    { name: "Owners", value: `${owners.size}${suffix}`, inline: true },
+    { name: "Sales", value: `${count("sale")}${suffix}`, inline: true },
+    { name: "Transfers", value: `${count("transfer")}${suffix}`, inline: true },
+  ];
+  const mint = truncated
+    ? undefined
+    : timeline.find((entry) => entry.kind === "mint");
+  if (mint) {
+    fields.push({
+      name: "Minted",
+      value: formatShortDate(new Date(mint.time * ONE_SECOND_MS)),
+      inline: true,
+    });
+  }
+  return fields;
+};
+
+/**
+ * Build a provenance embed for an NFT
+ * Lists the minter, each later owner and how long they held the token, and
+ * the price of each sale, oldest first.
+ */
+export const buildProvenanceEmbed = async (
+  collection: CollectionConfig,
+  tokenId: number,
+  userLog: Log
+): Promise<BuiltEmbed | undefined> => {
+  const isValid = await checkDynamicTokenId(collection, tokenId, userLog);
+  if (!isValid) {
+    userLog.push(`Skipping invalid token: ${collection.name} #${tokenId}`);
+    return;
+  }
+
+  log.debug(`Building provenance embed for ${collection.name} #${tokenId}`);
+  const [nft, { events, truncated }] = await Promise.all([
+    fetchNFT(collection, tokenId, userLog),
+    fetchOwnershipEvents(collection, tokenId, userLog),
+  ]);
+
+  const embed = new EmbedBuilder()
+    .setColor((collection.color ?? "#121212") as HexColorString)
+    .setTitle(`${collection.name} #${tokenId} Provenance`)
+    .setURL(nft.opensea_url);
+
+  const timeline = buildTimeline(events);
+  if (timeline.length === 0) {
+    return { embed: embed.setDescription("No transfers yet"), files: [] };
+  }
+
+  const owners = [...new Set(timeline.map((entry) => entry.owner))];
+  const names = new Map(
+    await Promise.all(
+      owners.map(
+        async (address) =>
+          [address, await getUsername(address, userLog)] as const
+      )
+    )
+  );
+
+  embed
+    .setDescription(formatTimeline(timeline, names, truncated))
+    .setFields(buildSummaryFields(timeline, truncated));
+  if (truncated) {
+    embed.setFooter({ text: "Older events not shown" });
+  }
+
+  log.debug(
+    `Built provenance embed for ${collection.name} #${tokenId} (${timeline.length} events)`
+  );
+  return { embed, files: [] };
+};
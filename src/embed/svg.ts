@@ -0,0 +1,238 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { AttachmentBuilder } from "discord.js";
+import sharp from "sharp";
+import { decodeDataUri } from "../api/onchain";
+import {
+  MEDIA_FETCH_TIMEOUT_MS,
+  SVG_FAILURE_CACHE_CAPACITY,
+  SVG_FAILURE_CACHE_TTL_MS,
+  SVG_MAX_BYTES,
+  SVG_MAX_RENDER_SIZE,
+} from "../config/constants";
+import { createLogger } from "../lib/logger";
+import { LRUCache } from "../lib/lru-cache";
+import type { CollectionConfig } from "../lib/types";
+import { normalizeMediaUrl, readBodyWithLimit } from "../lib/utils";
+import { getStateDir } from "../state/state";
+import { mediaFilePrefix } from "./media";
+
+const log = createLogger("SVG");
+
+// Size of rendered SVG images (longer side in pixels; unset disables rendering)
+const { SVG_RENDER_SIZE } = process.env;
+
+/** Directory in the state directory for rendered images */
+const RENDER_CACHE_DIR = "svg";
+
+const SVG_DATA_URI_PREFIX = "data:image/svg+xml";
+const SVG_CONTENT_TYPE = "image/svg+xml";
+
+/** Density SVGs are sized at by default (dots per inch) */
+const DEFAULT_SVG_DENSITY = 72;
+/** Highest density libvips renders SVGs at */
+const MAX_SVG_DENSITY = 100_000;
+
+const SVG_EXTENSION_PATTERN = /\.svg(\?|#|$)/i;
+const RASTER_EXTENSION_PATTERN = /\.(png|jpe?g|gif|webp|avif|bmp)(\?|#|$)/i;
+
+/**
+ * Parse SVG_RENDER_SIZE (0 if unset or invalid, at most SVG_MAX_RENDER_SIZE)
+ */
+export const parseRenderSize = (value: string | undefined): number => {
+  if (!value) {
+    return 0;
+  }
+  const size = Number(value);
+  if (!Number.isInteger(size) || size <= 0) {
+    log.warn(`Invalid SVG_RENDER_SIZE (expected pixels): ${value}`);
+    return 0;
+  }
+  return Math.min(size, SVG_MAX_RENDER_SIZE);
+};
+
+const renderSize = parseRenderSize(SVG_RENDER_SIZE);
+
+/**
+ * Check if SVG images are rendered to PNGs (SVG_RENDER_SIZE is set)
+ */
+export const isSvgRenderingEnabled = (): boolean => renderSize > 0;
+
+/** Tokens whose SVGs couldn't be rendered (so they aren't fetched again) */
+const unrenderable = new LRUCache<string, boolean>(
+  SVG_FAILURE_CACHE_CAPACITY,
+  SVG_FAILURE_CACHE_TTL_MS
+);
+
+/**
+ * Check if a response's content type is SVG
+ */
+const hasSvgType = (response: Response): boolean =>
+  response.headers.get("content-type")?.split(";")[0].trim() ===
+  SVG_CONTENT_TYPE;
+
+/**
+ * Download an SVG document
+ * URLs without an SVG or image extension are checked with a HEAD request
+ * first, so other images aren't downloaded. Returns undefined if the URL
+ * isn't an SVG, is too large or the request fails.
+ */
+const fetchSvgText = async (url: string): Promise<string | undefined> => {
+  if (url.startsWith(SVG_DATA_URI_PREFIX)) {
+    return decodeDataUri(url);
+  }
+  if (!url.startsWith("http") || RASTER_EXTENSION_PATTERN.test(url)) {
+    return;
+  }
+
+  try {
+    if (!SVG_EXTENSION_PATTERN.test(url)) {
+      const head = await fetch(url, {
+        method: "HEAD",
+        signal: AbortSignal.timeout(MEDIA_FETCH_TIMEOUT_MS),
+      });
+      if (!(head.ok && hasSvgType(head))) {
+        return;
+      }
+    }
+
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(MEDIA_FETCH_TIMEOUT_MS),
+    });
+    const size = Number(response.headers.get("content-length"));
+    if (!response.ok || size > SVG_MAX_BYTES) {
+      log.debug(`Not rendering ${url} (${response.status}, ${size} bytes)`);
+      return;
+    }
+    const body = await readBodyWithLimit(response, SVG_MAX_BYTES);
+    if (!body) {
+      log.debug(`Not rendering ${url} (over ${SVG_MAX_BYTES} bytes)`);
+      return;
+    }
+    return body.toString("utf8");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(`Failed to fetch SVG ${url}: ${message}`);
+  }
+};
+
+/**
+ * Render an SVG document as a PNG with its longer side at the render size
+ * Rendering runs on libvips' thread pool, so it doesn't block the event
+ * loop. Throws if the document isn't an SVG that can be rendered.
+ */
+const rasterizeSvg = async (svg: string): Promise<Buffer> => {
+  const input = Buffer.from(svg);
+  const { width = 0, height = 0, format } = await sharp(input).metadata();
+  const longer = Math.max(width, height);
+  if (format !== "svg" || longer === 0) {
+    throw new Error("Not an SVG document");
+  }
+
+  // Render at the target size rather than scaling up a small render
+  const density = Math.min(
+    (DEFAULT_SVG_DENSITY * renderSize) / longer,
+    MAX_SVG_DENSITY
+  );
+  return sharp(input, { density })
+    .resize(renderSize, renderSize, { fit: "inside" })
+    .png()
+    .toBuffer();
+};
+
+/**
+ * Get the cache file for a token's rendered image
+ * Keyed by chain, contract and token ID (and the size, so changing it
+ * renders again).
+ */
+const getCachePath = (collection: CollectionConfig, tokenId: number): string =>
+  join(
+    getStateDir(),
+    RENDER_CACHE_DIR,
+    `${collection.chain}-${collection.address.toLowerCase()}-${tokenId}-${renderSize}.png`
+  );
+
+const readCachedRender = async (path: string): Promise<Buffer | undefined> => {
+  try {
+    return await readFile(path);
+  } catch {
+    // Not rendered yet
+  }
+};
+
+const writeCachedRender = async (path: string, png: Buffer): Promise<void> => {
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, new Uint8Array(png));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(`Failed to cache rendered SVG ${path}: ${message}`);
+  }
+};
+
+/**
+ * Render a token's SVG image as a PNG
+ *
+ * Rendered PNGs are cached on disk in the state directory, keyed by
+ * contract and token ID. Returns undefined if rendering is disabled, the
+ * image isn't an SVG, or it can't be rendered, so the original image URL
+ * can be used instead.
+ */
+export const renderSvgImage = async (
+  url: string | undefined,
+  collection: CollectionConfig,
+  tokenId: number
+): Promise<Buffer | undefined> => {
+  if (!(url && isSvgRenderingEnabled()) || RASTER_EXTENSION_PATTERN.test(url)) {
+    return;
+  }
+
+  const path = getCachePath(collection, tokenId);
+  if (unrenderable.get(path)) {
+    return;
+  }
+  const cached = await readCachedRender(path);
+  if (cached) {
+    log.debug(`Using cached render of ${collection.name} #${tokenId}`);
+    return cached;
+  }
+
+  const source = url.startsWith("data:") ? url : normalizeMediaUrl(url);
+  const svg = await fetchSvgText(source);
+  if (svg === undefined) {
+    return;
+  }
+
+  let png: Buffer;
+  try {
+    png = await rasterizeSvg(svg);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.info(`Can't render ${collection.name} #${tokenId} SVG: ${message}`);
+    unrenderable.put(path, true);
+    return;
+  }
+
+  log.debug(
+    `Rendered ${collection.name} #${tokenId} SVG (${png.length} bytes)`
+  );
+  await writeCachedRender(path, png);
+  return png;
+};
+
+/**
+ * Render a token's SVG image as a PNG attachment (named like its other
+ * media, so refreshing the embed replaces it)
+ */
+export const fetchSvgAttachment = async (
+  url: string | undefined,
+  collection: CollectionConfig,
+  tokenId: number
+): Promise<AttachmentBuilder | undefined> => {
+  const png = await renderSvgImage(url, collection, tokenId);
+  if (!png) {
+    return;
+  }
+  const name = `${mediaFilePrefix(collection.prefix, tokenId)}png`;
+  return new AttachmentBuilder(png, { name });
+};
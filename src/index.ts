@@ -1,487 +1,278 @@
 import "dotenv/config";
 
 import {
+  type ActionRowBuilder,
+  type AttachmentBuilder,
+  type ButtonBuilder,
   ChannelType,
   Client,
-  EmbedBuilder,
+  type EmbedBuilder,
   Events,
   GatewayIntentBits,
-  type HexColorString,
   type Message,
+  type PartialMessage,
   Partials,
-  type TextBasedChannel,
 } from "discord.js";
+import { GET_OPTS, urls } from "./api/opensea";
+import { startRarityIndexing } from "./api/rarity";
+import { getChannelConfig, isChannelAllowed } from "./config/channels";
 import {
-  fetchBestListing,
-  fetchBestOffer,
-  fetchLastSale,
-  fetchNFT,
-  fetchRandomUserNFT,
-  GET_OPTS,
-  getUsername,
-  NFTNotFoundError,
-  urls,
-} from "./api/opensea";
-import {
-  checkDynamicTokenId,
+  applyCollectionOverrides,
   getCollections,
-  getSlugForCollection,
+  getConfiguredGuildIds,
   initCollectionSlugs,
   initCollections,
+  isGridRequest,
   parseMessageMatches,
   parseUsernameMatches,
-  randomTokenId,
 } from "./config/collection";
 import {
+  MAX_COLLAGE_TOKENS,
   MAX_EMBEDS_PER_MESSAGE,
-  ONE_SECOND_MS,
-  SECONDS_PER_MINUTE,
   SEPARATOR,
 } from "./config/constants";
+import { handleInteraction, registerCommands } from "./discord/commands";
+import { buildHelpEmbed } from "./discord/help";
+import {
+  checkRateLimit,
+  getCooldownMessage,
+  RATE_LIMITED_REACTION,
+} from "./discord/rate-limit";
+import {
+  getChannelScope,
+  getSchedules,
+  initSchedules,
+  parseRandomCollections,
+  startSchedules,
+} from "./discord/schedules";
+import { buildCollageForMatches } from "./embed/collage";
+import { buildButtonRows } from "./embed/components";
+import {
+  buildEmbedsForMatches,
+  buildEmbedsForUsernameMatches,
+} from "./embed/embed";
 import { logger } from "./lib/logger";
 import type {
-  BestListing,
-  BestOffer,
   CollectionConfig,
-  EmbedResult,
-  LastSale,
   Log,
-  NFT,
+  RequestScope,
   TokenMatch,
   UsernameMatch,
 } from "./lib/types";
-import { formatAmount, formatShortDate, getHighResImage } from "./lib/utils";
+import { getRequestScope } from "./lib/utils";
 import { getStateManager } from "./state/state";
 
 const log = logger;
 
-const { DISCORD_TOKEN, RANDOM_INTERVALS } = process.env;
-
-/** Regex to match NFT name pattern like "Name #123 - " */
-const NFT_NAME_PATTERN = /^.+\s#\d+\s*-\s*/;
-
-/** Max attempts to find a non-duplicate random token */
-const MAX_RANDOM_ATTEMPTS = 10;
-
-/** Max retries when a random NFT doesn't exist */
-const MAX_NFT_FETCH_RETRIES = 3;
-
-type EmbedField = { name: string; value: string; inline: boolean };
+const { DISCORD_TOKEN } = process.env;
 
 /**
- * Add owner field to embed fields
+ * Get channel display name from a message
  */
-const addOwnerField = async (
-  fields: EmbedField[],
-  nft: NFT,
-  userLog: Log
-): Promise<void> => {
-  const owner = nft.owners?.at(0);
-  if (!owner) {
-    return;
+const getChannelDisplay = (message: Message): string => {
+  const { channel } = message;
+  if (channel.type === ChannelType.DM) {
+    return "DM";
   }
-  const name = await getUsername(owner.address, userLog);
-  fields.push({ name: "Owner", value: name, inline: true });
-  log.debug(`Owner: ${name}`);
-};
-
-/**
- * Add last sale field to embed fields
- */
-const addLastSaleField = (
-  fields: EmbedField[],
-  lastSale: LastSale | undefined
-): void => {
-  if (!lastSale) {
-    return;
+  if ("name" in channel && channel.name) {
+    return channel.name;
   }
-  const { quantity, decimals, symbol } = lastSale.payment;
-  const price = formatAmount(quantity, decimals, symbol);
-  const date = new Date(lastSale.closing_date * ONE_SECOND_MS);
-  const formattedDate = formatShortDate(date);
-  fields.push({
-    name: "Last Sale",
-    value: `${price} (${formattedDate})`,
-    inline: true,
-  });
-  log.debug(`Last sale: ${price}`);
+  return channel.id;
 };
 
-/**
- * Add listing field to embed fields
- */
-const addListingField = (
-  fields: EmbedField[],
-  bestListing: BestListing | undefined
-): void => {
-  if (!bestListing?.price?.current) {
-    return;
-  }
-  const { value, decimals, currency } = bestListing.price.current;
-  const price = formatAmount(value, decimals, currency);
-  fields.push({ name: "Listed For", value: price, inline: true });
-  log.debug(`Listed for: ${price}`);
+/** Reply built from a message's matches */
+type MessageReply = {
+  embeds: EmbedBuilder[];
+  files: AttachmentBuilder[];
+  components: ActionRowBuilder<ButtonBuilder>[];
+  replyLog: string;
 };
 
-/**
- * Add best offer field to embed fields (skip collection-wide offers)
- */
-const addOfferField = (
-  fields: EmbedField[],
-  bestOffer: BestOffer | undefined
-): void => {
-  if (!bestOffer?.price || bestOffer.criteria?.collection) {
-    return;
-  }
-  const { value, decimals, currency } = bestOffer.price;
-  const price = formatAmount(value, decimals, currency);
-  fields.push({ name: "Best Offer", value: price, inline: true });
-  log.debug(`Best offer: ${price}`);
+/** Token and username requests parsed from a message */
+type MessageRequests = {
+  tokenMatches: TokenMatch[];
+  usernameMatches: UsernameMatch[];
+  /** Whether several tokens should be shown as one collage */
+  grid: boolean;
 };
 
 /**
- * Add editions field for ERC1155 tokens
+ * Parse a message's content for token and username requests
+ * Returns undefined if the content has no matches
  */
-const addEditionsField = (fields: EmbedField[], nft: NFT): void => {
-  // Only show editions for ERC1155 tokens
-  if (nft.token_standard !== "erc1155") {
+const parseMessageRequests = (
+  content: string,
+  scope?: RequestScope
+): MessageRequests | undefined => {
+  const tokenMatches = parseMessageMatches(content, scope);
+  const usernameMatches = parseUsernameMatches(content, scope);
+
+  if (tokenMatches.length === 0 && usernameMatches.length === 0) {
     return;
   }
 
-  // Calculate total editions from all owners
-  const totalEditions =
-    nft.owners?.reduce((sum, owner) => sum + (owner.quantity ?? 0), 0) ?? 0;
-
-  if (totalEditions === 0) {
-    return;
-  }
-
-  // Format as "1/1" for singles or "×3" for multiples
-  const editionsDisplay = totalEditions === 1 ? "1/1" : `×${totalEditions}`;
-  fields.push({ name: "Editions", value: editionsDisplay, inline: true });
-  log.debug(`Editions: ${editionsDisplay}`);
+  const grid = tokenMatches.length > 1 && isGridRequest(content);
+  return { tokenMatches, usernameMatches, grid };
 };
 
 /**
- * Build a Discord embed for a single NFT
+ * Charge a message's requests against the rate limits
+ * Reacts to the message instead of replying if the sender is over the limit
+ *
+ * @returns true if the message may be answered
  */
-const buildEmbed = async (
-  collection: CollectionConfig,
-  tokenId: number,
+const checkMessageRateLimit = async (
+  message: Message,
+  requests: MessageRequests,
   userLog: Log
-): Promise<EmbedBuilder | undefined> => {
-  // Use dynamic check for collections with dynamic supply (handles new mints)
-  const isValid = await checkDynamicTokenId(collection, tokenId, userLog);
-  if (!isValid) {
-    userLog.push(`Skipping invalid token: ${collection.name} #${tokenId}`);
-    log.debug(`Invalid token ID: ${collection.name} #${tokenId}`);
-    return;
-  }
-
-  log.debug(`Building embed for ${collection.name} #${tokenId}`);
-  const startTime = Date.now();
-
-  const slug = await getSlugForCollection(collection, userLog);
-  if (!slug) {
-    userLog.push(`No slug found for collection: ${collection.name}`);
-    log.warn(`No slug found for collection: ${collection.name}`);
-    return;
-  }
-
-  const fields: EmbedField[] = [];
-  const nft = await fetchNFT(collection, tokenId, userLog);
-
-  // Fetch all metadata in parallel
-  log.debug(`Fetching metadata for ${collection.name} #${tokenId}`);
-  const [lastSale, bestOffer, bestListing] = await Promise.all([
-    fetchLastSale(collection, tokenId, userLog),
-    fetchBestOffer(slug, tokenId, userLog),
-    fetchBestListing(slug, tokenId, userLog),
-  ]);
-
-  // Build fields
-  await addOwnerField(fields, nft, userLog);
-  addEditionsField(fields, nft);
-  addLastSaleField(fields, lastSale);
-  addListingField(fields, bestListing);
-  addOfferField(fields, bestOffer);
-
-  // Build the embed
-  const customDesc = (collection.customDescription ?? "").replace(
-    /{id}/g,
-    tokenId.toString()
+): Promise<boolean> => {
+  const cost = Math.min(
+    requests.tokenMatches.length + requests.usernameMatches.length,
+    requests.grid ? MAX_COLLAGE_TOKENS : MAX_EMBEDS_PER_MESSAGE
   );
-
-  // Title is just "CollectionName #123"
-  const title = `${collection.name} #${tokenId}`;
-
-  // NFT name as subtitle (first line of description)
-  let description = "";
-  if (nft.name) {
-    // Extract name portion after "Name #123 - " pattern if present
-    // e.g., "GlyphBot #1 - Vector" → "Vector"
-    const namePart = NFT_NAME_PATTERN.test(nft.name)
-      ? nft.name.replace(NFT_NAME_PATTERN, "")
-      : nft.name;
-    description = `**${namePart}**`;
-  }
-  if (customDesc) {
-    description = description ? `${description}\n${customDesc}` : customDesc;
-  }
-
-  const embed = new EmbedBuilder()
-    .setColor((collection.color ?? "#121212") as HexColorString)
-    .setTitle(title)
-    .setURL(nft.opensea_url)
-    .setFields(fields);
-
-  if (description) {
-    embed.setDescription(description);
-  }
-
-  // Use custom image URL if provided (useful when Discord can't display SVGs)
-  // Template supports {id} placeholder for token ID
-  const image = collection.customImageUrl
-    ? collection.customImageUrl.replace(/{id}/g, tokenId.toString())
-    : getHighResImage(nft.image_url);
-  if (image) {
-    embed.setImage(image);
+  const retryAfterMs = checkRateLimit(
+    { userId: message.author.id, channelId: message.channelId },
+    cost
+  );
+  if (retryAfterMs === 0) {
+    return true;
   }
 
-  const duration = Date.now() - startTime;
-  log.debug(
-    `Built embed for ${collection.name} #${tokenId} with ${fields.length} fields (${duration}ms)`
+  userLog.push(
+    `Rate limited ${message.author.username}: ${getCooldownMessage(retryAfterMs)}`
   );
-
-  return embed;
+  try {
+    await message.react(RATE_LIMITED_REACTION);
+  } catch {
+    // Missing permission to react
+  }
+  return false;
 };
 
 /**
- * Build embeds for multiple token matches
+ * Build the reply for a message's parsed requests
  */
-const buildEmbedsForMatches = async (
-  matches: TokenMatch[],
-  userLog: Log
-): Promise<EmbedResult> => {
-  const embeds: EmbedBuilder[] = [];
-  const parts: string[] = [];
-
-  log.debug(
-    `Building embeds for ${matches.length} ${matches.length === 1 ? "match" : "matches"}`
-  );
+const buildMessageReply = async (
+  { tokenMatches, usernameMatches, grid }: MessageRequests,
+  userLog: Log,
+  scope?: RequestScope
+): Promise<MessageReply> => {
+  // Build embeds for both types of matches
+  const allEmbeds: EmbedBuilder[] = [];
+  const allFiles: AttachmentBuilder[] = [];
+  const allTokens: (TokenMatch | undefined)[] = [];
+  const allLogs: string[] = [];
+
+  if (tokenMatches.length > 0) {
+    const { embeds, files, tokens, embedLog } = grid
+      ? await buildCollageForMatches(tokenMatches, userLog, scope)
+      : await buildEmbedsForMatches(tokenMatches, userLog, scope);
+    allEmbeds.push(...embeds);
+    allFiles.push(...files);
+    allTokens.push(...tokens);
+    if (embedLog) {
+      allLogs.push(embedLog);
+    }
+  }
 
-  for (const match of matches.slice(0, MAX_EMBEDS_PER_MESSAGE)) {
-    const embed = await buildEmbed(match.collection, match.tokenId, userLog);
-    if (embed) {
-      embeds.push(embed);
-      const prefix = match.collection.prefix
-        ? `${match.collection.prefix}#`
-        : "#";
-      parts.push(`${prefix}${match.tokenId}`);
+  if (usernameMatches.length > 0) {
+    const { embeds, files, tokens, embedLog } =
+      await buildEmbedsForUsernameMatches(usernameMatches, userLog, scope);
+    allEmbeds.push(...embeds);
+    allFiles.push(...files);
+    allTokens.push(...tokens);
+    if (embedLog) {
+      allLogs.push(embedLog);
     }
   }
 
-  const embedLog = parts.length > 0 ? `Replied with ${parts.join(", ")}` : "";
-  return { embeds, embedLog };
+  return {
+    embeds: allEmbeds.slice(0, MAX_EMBEDS_PER_MESSAGE),
+    files: allFiles,
+    components: buildButtonRows(allTokens.slice(0, MAX_EMBEDS_PER_MESSAGE)),
+    replyLog: allLogs.join("; "),
+  };
 };
 
 /**
- * Build embed for a username random request
+ * Log a message that triggered the bot
  */
-const buildEmbedForUsernameMatch = async (
-  match: UsernameMatch,
-  userLog: Log
-): Promise<EmbedBuilder | undefined> => {
-  const { username, collection } = match;
-
-  // Get collection slug if filtering by collection
-  let collectionSlug: string | undefined;
-  if (collection) {
-    collectionSlug = await getSlugForCollection(collection, userLog);
-  }
-
-  // Get the chain from collection or default to ethereum
-  const chain = collection?.chain ?? "ethereum";
-
-  // Fetch random NFT from user
-  const result = await fetchRandomUserNFT(
-    username,
-    chain,
-    userLog,
-    collectionSlug
+const logTriggerMessage = (
+  message: Message,
+  userLog: Log,
+  action = "Message"
+): void => {
+  const channelDisplay = getChannelDisplay(message);
+  log.info(`${action} from ${message.author.username} in #${channelDisplay}`);
+  log.debug(`Content: ${message.content}`);
+  userLog.push(
+    `${action} from ${message.author.username} in #${channelDisplay}:\n> ${message.content}`
   );
-
-  if (!result) {
-    return;
-  }
-
-  const { nft, tokenId } = result;
-
-  // Find the matching collection config for this NFT
-  let nftCollection = collection;
-  if (!nftCollection) {
-    // Try to find collection by contract address
-    const allCollections = getCollections();
-    nftCollection = allCollections.find(
-      (c) => c.address.toLowerCase() === nft.contract.toLowerCase()
-    );
-  }
-
-  // If we have a collection config, use buildEmbed
-  if (nftCollection) {
-    return buildEmbed(nftCollection, tokenId, userLog);
-  }
-
-  // Otherwise build a basic embed from the NFT data
-  log.debug(`Building basic embed for ${nft.name ?? `#${tokenId}`}`);
-
-  const embed = new EmbedBuilder()
-    .setColor("#121212")
-    .setTitle(nft.name ?? `NFT #${tokenId}`)
-    .setURL(nft.opensea_url);
-
-  if (nft.description) {
-    embed.setDescription(nft.description);
-  }
-
-  if (nft.image_url) {
-    embed.setImage(nft.image_url);
-  }
-
-  return embed;
 };
 
 /**
- * Build embeds for username matches
+ * Reply to a message's requests and track the reply
  */
-const buildEmbedsForUsernameMatches = async (
-  matches: UsernameMatch[],
-  userLog: Log
-): Promise<EmbedResult> => {
-  const embeds: EmbedBuilder[] = [];
-  const parts: string[] = [];
-
-  log.debug(
-    `Building embeds for ${matches.length} username ${matches.length === 1 ? "match" : "matches"}`
-  );
-
-  for (const match of matches.slice(0, MAX_EMBEDS_PER_MESSAGE)) {
-    const embed = await buildEmbedForUsernameMatch(match, userLog);
-    if (embed) {
-      embeds.push(embed);
-      const prefix = match.collection?.prefix
-        ? `${match.collection.prefix}#`
-        : "#";
-      parts.push(`${prefix}${match.username}`);
-    }
+const replyToRequests = async (
+  message: Message,
+  requests: MessageRequests,
+  userLog: Log,
+  scope: RequestScope
+): Promise<void> => {
+  const startTime = Date.now();
+  const reply = await buildMessageReply(requests, userLog, scope);
+  if (reply.embeds.length === 0) {
+    return;
   }
 
-  const embedLog =
-    parts.length > 0 ? `Replied with random from ${parts.join(", ")}` : "";
-  return { embeds, embedLog };
-};
+  const sent = await message.reply({
+    embeds: reply.embeds,
+    files: reply.files,
+    components: reply.components,
+  });
+  userLog.push(reply.replyLog);
 
-/**
- * Get channel name for logging
- */
-const getChannelName = (channel: TextBasedChannel | null): string => {
-  if (!channel) {
-    return "unknown-channel";
-  }
-  // Guild channels have names, DMs don't
-  if ("name" in channel && channel.name) {
-    return channel.name;
-  }
-  return channel.id;
-};
+  // Track the reply so edits/deletes of the message can update it
+  const stateManager = getStateManager();
+  stateManager.setReply(message.id, sent.channelId, sent.id);
+  await stateManager.save();
 
-/**
- * Get channel display name from a message
- */
-const getChannelDisplay = (message: Message): string => {
-  const { channel } = message;
-  if (channel.type === ChannelType.DM) {
-    return "DM";
-  }
-  if ("name" in channel && channel.name) {
-    return channel.name;
-  }
-  return channel.id;
+  const duration = Date.now() - startTime;
+  log.info(`${reply.replyLog} (${duration}ms)`);
 };
 
 /**
- * Send an embed to a channel
+ * Check if a message @mentions the bot (ignoring reply pings and @everyone)
  */
-const sendEmbed = async (
-  channel: TextBasedChannel | null,
-  embed: EmbedBuilder
-): Promise<void> => {
-  if (!channel?.isSendable()) {
-    return;
-  }
-  await channel.send({ embeds: [embed] });
-};
+const isBotMentioned = (message: Message): boolean =>
+  message.client.user !== null &&
+  message.mentions.has(message.client.user, {
+    ignoreEveryone: true,
+    ignoreRoles: true,
+    ignoreRepliedUser: true,
+  });
 
 /**
  * Process an incoming Discord message
+ * Replies with NFT embeds for token requests, or with help if the bot is
+ * mentioned without any requests.
  */
 const processMessage = async (message: Message): Promise<void> => {
   const userLog: Log = [];
-  const startTime = Date.now();
 
   try {
-    // Parse both token matches and username matches
-    const tokenMatches = parseMessageMatches(message.content);
-    const usernameMatches = parseUsernameMatches(message.content);
-
-    if (tokenMatches.length === 0 && usernameMatches.length === 0) {
-      return;
-    }
+    const scope = getRequestScope(message);
+    const requests = parseMessageRequests(message.content, scope);
 
-    const channelDisplay = getChannelDisplay(message);
-
-    // Log the message
-    log.info(`Message from ${message.author.username} in #${channelDisplay}`);
-    log.debug(`Content: ${message.content}`);
-    userLog.push(
-      `Message from ${message.author.username} in #${channelDisplay}:\n> ${message.content}`
-    );
-
-    // Build embeds for both types of matches
-    const allEmbeds: EmbedBuilder[] = [];
-    const allLogs: string[] = [];
-
-    if (tokenMatches.length > 0) {
-      const { embeds, embedLog } = await buildEmbedsForMatches(
-        tokenMatches,
-        userLog
-      );
-      allEmbeds.push(...embeds);
-      if (embedLog) {
-        allLogs.push(embedLog);
+    if (requests) {
+      logTriggerMessage(message, userLog);
+      if (await checkMessageRateLimit(message, requests, userLog)) {
+        await replyToRequests(message, requests, userLog, scope);
       }
-    }
-
-    if (usernameMatches.length > 0) {
-      const { embeds, embedLog } = await buildEmbedsForUsernameMatches(
-        usernameMatches,
-        userLog
-      );
-      allEmbeds.push(...embeds);
-      if (embedLog) {
-        allLogs.push(embedLog);
-      }
-    }
-
-    if (allEmbeds.length > 0) {
-      await message.reply({
-        embeds: allEmbeds.slice(0, MAX_EMBEDS_PER_MESSAGE),
-      });
-      const combinedLog = allLogs.join("; ");
-      userLog.push(combinedLog);
-
-      const duration = Date.now() - startTime;
-      log.info(`${combinedLog} (${duration}ms)`);
+    } else if (isBotMentioned(message)) {
+      logTriggerMessage(message, userLog, "Mention");
+      await message.reply({ embeds: [buildHelpEmbed(scope)] });
+      userLog.push("Replied with help");
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -497,251 +288,116 @@ const processMessage = async (message: Message): Promise<void> => {
 };
 
 /**
- * Get a random token that hasn't been recently sent to a channel
+ * Fetch the bot's tracked reply to a message
+ * Stops tracking the reply if it no longer exists
  */
-const getUniqueRandomToken = (
-  collection: CollectionConfig,
-  channelId: string
-): number => {
+const fetchTrackedReply = async (
+  message: Message | PartialMessage
+): Promise<Message | undefined> => {
   const stateManager = getStateManager();
-
-  for (let attempt = 0; attempt < MAX_RANDOM_ATTEMPTS; attempt++) {
-    const tokenId = randomTokenId(collection);
-    if (!stateManager.wasRecentlySent(channelId, tokenId)) {
-      log.debug(
-        `Found unique token #${tokenId} for channel ${channelId} (attempt ${attempt + 1})`
-      );
-      return tokenId;
-    }
-    log.debug(
-      `Token #${tokenId} recently sent to channel ${channelId}, trying again`
-    );
-  }
-
-  // Fall back to any random token if we can't find a unique one
-  const tokenId = randomTokenId(collection);
-  log.debug(
-    `Could not find unique token after ${MAX_RANDOM_ATTEMPTS} attempts, using #${tokenId}`
-  );
-  return tokenId;
-};
-
-/**
- * Parse random interval config to get target collections
- *
- * Format: CHANNEL_ID=minutes[:collection_option]
- * - No option: rotate through all collections
- * - `*`: rotate through all collections (explicit)
- * - `prefix`: specific collection by prefix
- * - `prefix1+prefix2`: rotate through listed collections (use + since , is separator)
- */
-const parseRandomCollections = (
-  collectionOption: string | undefined
-): CollectionConfig[] => {
-  const allCollections = getCollections();
-
-  // No option or "*" = rotate through all collections
-  if (!collectionOption || collectionOption === "*") {
-    return allCollections;
+  const tracked = stateManager.getReply(message.id);
+  if (!tracked) {
+    return;
   }
 
-  // Specific collection(s) by prefix - use + as separator since , separates intervals
-  const prefixes = collectionOption.split("+").map((p) => p.trim());
-  const result: CollectionConfig[] = [];
-
-  for (const prefix of prefixes) {
-    const collection = allCollections.find((c) => c.prefix === prefix);
-    if (collection) {
-      result.push(collection);
-    } else {
-      log.warn(`Unknown collection prefix in random config: "${prefix}"`);
-    }
+  try {
+    return await message.channel.messages.fetch(tracked.replyId);
+  } catch {
+    log.debug(`Reply ${tracked.replyId} no longer exists`);
+    stateManager.deleteReply(message.id);
+    await stateManager.save();
   }
-
-  return result;
 };
 
-/** Track rotation index per channel for multi-collection random */
-const rotationIndex = new Map<string, number>();
-
 /**
- * Get the next collection in rotation for a channel
+ * Delete the bot's reply to a message (if any)
  */
-const getNextCollection = (
-  channelId: string,
-  collections: CollectionConfig[]
-): CollectionConfig => {
-  if (collections.length === 1) {
-    return collections.at(0) as CollectionConfig;
-  }
-
-  const currentIndex = rotationIndex.get(channelId) ?? 0;
-  const collection = collections.at(
-    currentIndex % collections.length
-  ) as CollectionConfig;
-  rotationIndex.set(channelId, currentIndex + 1);
-
-  return collection;
-};
-
-type RandomEmbedContext = {
-  collection: CollectionConfig;
-  channelId: string;
-  chanName: string;
-  channel: TextBasedChannel;
-  userLog: Log;
-  startTime: number;
-};
-
-/**
- * Attempt to build and send a random embed
- * @returns true if successful, false if NFT not found (should retry)
- * @throws for non-NFT errors
- */
-const tryBuildRandomEmbed = async (
-  ctx: RandomEmbedContext
-): Promise<boolean> => {
-  const { collection, channelId, chanName, channel, userLog, startTime } = ctx;
+const deleteTrackedReply = async (
+  message: Message | PartialMessage
+): Promise<void> => {
+  const reply = await fetchTrackedReply(message);
   const stateManager = getStateManager();
-  const tokenId = getUniqueRandomToken(collection, channelId);
-  const prefix = collection.prefix ? `${collection.prefix}#` : "#";
 
-  try {
-    const embed = await buildEmbed(collection, tokenId, userLog);
-
-    if (embed) {
-      stateManager.addRecentToken(channelId, tokenId);
-      stateManager.setLastRandomPost(channelId);
-      await stateManager.save();
-
-      userLog.push(
-        `Sending random ${collection.name} ${prefix}${tokenId} to #${chanName}`
-      );
-      await sendEmbed(channel, embed);
-
-      const duration = Date.now() - startTime;
-      log.info(
-        `Sent random ${collection.name} ${prefix}${tokenId} to #${chanName} (${duration}ms)`
-      );
-      return true;
-    }
-    return false;
-  } catch (error) {
-    if (error instanceof NFTNotFoundError) {
-      log.warn(
-        `NFT not found for random post: ${collection.name} #${tokenId} (contract: ${collection.address}), retrying...`
-      );
-      return false;
-    }
-    throw error;
+  if (reply) {
+    await reply.delete();
+    log.info(`Deleted reply ${reply.id} to message ${message.id}`);
+  }
+
+  if (stateManager.deleteReply(message.id)) {
+    await stateManager.save();
   }
 };
 
 /**
- * Post a random NFT to a channel
- * Retries with a different random token if NFT not found
+ * Edit the bot's reply to match a message's new requests
+ * Removes the reply if none of the requests could be answered.
  */
-const postRandomToChannel = async (
-  channel: TextBasedChannel,
-  channelId: string,
-  chanName: string,
-  targetCollections: CollectionConfig[]
+const editTrackedReply = async (
+  message: Message,
+  existing: Message,
+  requests: MessageRequests,
+  userLog: Log
 ): Promise<void> => {
-  const userLog: Log = [];
   const startTime = Date.now();
-  const collection = getNextCollection(channelId, targetCollections);
-
-  const ctx: RandomEmbedContext = {
-    collection,
-    channelId,
-    chanName,
-    channel,
+  const reply = await buildMessageReply(
+    requests,
     userLog,
-    startTime,
-  };
-
-  for (let attempt = 1; attempt <= MAX_NFT_FETCH_RETRIES; attempt++) {
-    log.debug(`Random posting to #${chanName}, attempt ${attempt}`);
-
-    const success = await tryBuildRandomEmbed(ctx);
-
-    if (success) {
-      break;
-    }
-
-    if (attempt === MAX_NFT_FETCH_RETRIES) {
-      log.error(
-        `Failed to find valid NFT after ${MAX_NFT_FETCH_RETRIES} attempts for ${collection.name} (contract: ${collection.address})`
-      );
-    }
+    getRequestScope(message)
+  );
+  if (reply.embeds.length === 0) {
+    await deleteTrackedReply(message);
+    return;
   }
 
-  for (const line of userLog) {
-    logger.info(line);
-  }
+  // Replace the old reply's attachments with the new media
+  await existing.edit({
+    embeds: reply.embeds,
+    files: reply.files,
+    attachments: [],
+    components: reply.components,
+  });
+  userLog.push(reply.replyLog);
+
+  const duration = Date.now() - startTime;
+  log.info(`Updated reply: ${reply.replyLog} (${duration}ms)`);
 };
 
 /**
- * Set up random interval posting for collections
+ * Process an edited Discord message
  *
- * Format: CHANNEL_ID=minutes[:collection_option]
- * Examples:
- *   - 123456=30           (rotate all collections every 30 min)
- *   - 123456=30:*         (rotate all collections every 30 min, explicit)
- *   - 123456=30:artifacts (artifacts collection every 30 min)
- *   - 123456=30:bots+artifacts (rotate between bots and artifacts)
- *
- * On startup, posts immediately if no previous post exists or if interval has elapsed.
+ * Edits the bot's reply to match the new content, removes it if the message
+ * no longer matches, or replies fresh if the message wasn't answered before.
  */
-const setupRandomIntervals = async (client: Client): Promise<void> => {
-  if (!RANDOM_INTERVALS) {
-    log.debug("No random intervals configured");
+const processMessageUpdate = async (message: Message): Promise<void> => {
+  const existing = await fetchTrackedReply(message);
+  if (!existing) {
+    await processMessage(message);
     return;
   }
 
-  const stateManager = getStateManager();
-
-  for (const interval of RANDOM_INTERVALS.split(",")) {
-    const [channelId, configStr] = interval.split("=");
-    const [minutesStr, collectionOption] = (configStr ?? "").split(":");
-    const minutes = Number(minutesStr);
+  const userLog: Log = [];
 
-    if (!channelId || Number.isNaN(minutes) || minutes <= 0) {
-      log.warn(`Invalid random interval config: ${interval}`);
-      continue;
+  try {
+    const scope = getRequestScope(message);
+    const requests = parseMessageRequests(message.content, scope);
+    if (!requests) {
+      await deleteTrackedReply(message);
+      return;
     }
 
-    const targetCollections = parseRandomCollections(collectionOption);
-    if (targetCollections.length === 0) {
-      log.warn(`No valid collections for random interval: ${interval}`);
-      continue;
-    }
+    logTriggerMessage(message, userLog, "Edit");
 
-    const channel = await client.channels.fetch(channelId);
-    if (!channel?.isTextBased()) {
-      log.warn(`Channel ${channelId} is not a text channel, skipping`);
-      continue;
-    }
-    const chanName = getChannelName(channel);
-    const intervalMs = minutes * SECONDS_PER_MINUTE * ONE_SECOND_MS;
-
-    // Post immediately on startup if no previous post or interval has elapsed
-    if (stateManager.shouldPostRandom(channelId, intervalMs)) {
-      log.info(`Posting initial random to #${chanName}`);
-      await postRandomToChannel(
-        channel,
-        channelId,
-        chanName,
-        targetCollections
-      );
+    if (await checkMessageRateLimit(message, requests, userLog)) {
+      await editTrackedReply(message, existing, requests, userLog);
     }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    userLog.push(`Error: ${errorMessage}`);
+    log.error(`Error processing message edit: ${errorMessage}`);
+  }
 
-    // Set up recurring interval
-    setInterval(
-      () =>
-        postRandomToChannel(channel, channelId, chanName, targetCollections),
-      intervalMs
-    );
+  for (const line of userLog) {
+    logger.info(line);
   }
 };
 
@@ -771,8 +427,11 @@ const printBanner = (): void => {
 /**
  * Get human-readable label for collection option in random intervals
  */
-const getCollectionLabel = (collectionOption: string | undefined): string => {
-  const collections = parseRandomCollections(collectionOption);
+const getCollectionLabel = (
+  collectionOption: string | undefined,
+  scope?: RequestScope
+): string => {
+  const collections = parseRandomCollections(collectionOption, scope);
   return collections.map((c) => c.name).join(", ");
 };
 
@@ -831,8 +490,30 @@ const formatReadableTimestamp = (date: Date): string =>
     hour12: true,
   });
 
+/**
+ * Resolve a channel's display name and scope for config output
+ * Falls back to the channel ID if the channel can't be fetched
+ */
+const resolveChannelInfo = async (
+  client: Client,
+  channelId: string
+): Promise<{ channelDisplay: string; scope?: RequestScope }> => {
+  try {
+    const channel = await client.channels.fetch(channelId);
+    const channelDisplay =
+      channel && "name" in channel && channel.name
+        ? `#${channel.name}`
+        : channelId;
+    const scope = channel?.isTextBased() ? getChannelScope(channel) : undefined;
+    return { channelDisplay, scope };
+  } catch {
+    return { channelDisplay: channelId };
+  }
+};
+
 const printRandomIntervalsConfig = async (client: Client): Promise<void> => {
-  if (!RANDOM_INTERVALS) {
+  const schedules = getSchedules();
+  if (schedules.length === 0) {
     return;
   }
 
@@ -842,30 +523,16 @@ const printRandomIntervalsConfig = async (client: Client): Promise<void> => {
   logger.info("├─ ⏱️  RANDOM INTERVALS");
   logger.info("│");
 
-  for (const interval of RANDOM_INTERVALS.split(",")) {
-    const [channelId, configStr] = interval.split("=");
-    const [minutesStr, collectionOption] = (configStr ?? "").split(":");
-    const minutes = Number(minutesStr);
-
-    if (!channelId || Number.isNaN(minutes) || minutes <= 0) {
-      continue;
-    }
-
-    const collectionLabel = getCollectionLabel(collectionOption);
+  for (const { channelId, minutes, collections, paused } of schedules) {
     const lastPost = stateManager.getLastRandomPost(channelId);
 
-    // Try to resolve channel name
-    let channelDisplay = channelId;
-    try {
-      const channel = await client.channels.fetch(channelId);
-      if (channel && "name" in channel && channel.name) {
-        channelDisplay = `#${channel.name}`;
-      }
-    } catch {
-      // Fall back to ID if channel can't be fetched
-    }
+    const { channelDisplay, scope } = await resolveChannelInfo(
+      client,
+      channelId
+    );
+    const collectionLabel = getCollectionLabel(collections, scope);
 
-    logger.info(`│  📢  ${channelDisplay}`);
+    logger.info(`│  📢  ${channelDisplay}${paused ? " (paused)" : ""}`);
     logger.info(`│     ├─ Interval: ${minutes} minute(s)`);
     logger.info(`│     ├─ Collections: ${collectionLabel}`);
 
@@ -880,6 +547,25 @@ const printRandomIntervalsConfig = async (client: Client): Promise<void> => {
   }
 };
 
+/**
+ * Print channel allow/deny lists and per-channel default collections
+ */
+const printChannelConfig = (): void => {
+  const { allowed, denied, defaults } = getChannelConfig();
+  if (allowed.length === 0 && denied.length === 0 && defaults.length === 0) {
+    return;
+  }
+
+  logger.info("│");
+  logger.info("├─ 💬 CHANNELS");
+  logger.info("│");
+  logger.info(`│  ✅  Allowed: ${allowed.join(", ") || "all"}`);
+  logger.info(`│  🚫  Denied: ${denied.join(", ") || "none"}`);
+  for (const [channelId, prefix] of defaults) {
+    logger.info(`│  🏷️   Default in ${channelId}: ${prefix}#`);
+  }
+};
+
 /**
  * Print state information
  */
@@ -898,7 +584,6 @@ const printStateInfo = (): void => {
  * Print configuration summary (does not close the box - call printConfigEnd after random intervals)
  */
 const printConfig = (): void => {
-  const collections = getCollections();
   const { OPENSEA_API_TOKEN, LOG_LEVEL } = process.env;
 
   logger.info("");
@@ -914,9 +599,21 @@ const printConfig = (): void => {
   logger.info("├─ 📦 COLLECTIONS");
   logger.info("│");
 
-  for (const c of collections) {
+  for (const c of getCollections()) {
     printCollectionConfig(c);
   }
+
+  for (const guildId of getConfiguredGuildIds()) {
+    logger.info("│");
+    logger.info(`├─ 📦 COLLECTIONS (guild ${guildId})`);
+    logger.info("│");
+
+    for (const c of getCollections({ guildId })) {
+      printCollectionConfig(c);
+    }
+  }
+
+  printChannelConfig();
 };
 
 /**
@@ -940,13 +637,19 @@ async function main(): Promise<void> {
   // Initialize collections from environment
   initCollections();
 
-  // Fetch slugs for all collections
-  await initCollectionSlugs();
-
   // Load persisted state
   const stateManager = getStateManager();
   await stateManager.load();
 
+  // Apply collection changes made with /admin
+  applyCollectionOverrides(stateManager.getCollectionOverrides());
+
+  // Fetch slugs for all collections
+  await initCollectionSlugs();
+
+  // Load random schedules (RANDOM_INTERVALS plus changes made with /admin)
+  initSchedules();
+
   // Print configuration (after state is loaded)
   printConfig();
 
@@ -972,16 +675,64 @@ async function main(): Promise<void> {
     logger.info(`🤖 Logged in as ${client.user?.tag}`);
     logger.info("👂 Listening for messages...");
     logger.info(SEPARATOR);
-    await setupRandomIntervals(client);
+    await registerCommands(client);
+    await startSchedules(client);
+
+    // Build local rarity indexes in the background (takes a while)
+    startRarityIndexing().catch((error) => {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      log.error(`Error building rarity index: ${errorMessage}`);
+    });
+  });
+
+  client.on(Events.InteractionCreate, async (interaction) => {
+    try {
+      await handleInteraction(interaction);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      log.error(`Error handling interaction: ${errorMessage}`);
+    }
   });
 
   client.on(Events.MessageCreate, async (message) => {
-    if (message.author.bot) {
+    if (message.author.bot || !isChannelAllowed(message.channelId)) {
       return;
     }
     await processMessage(message);
   });
 
+  client.on(Events.MessageUpdate, async (oldMessage, newMessage) => {
+    try {
+      const message = newMessage.partial
+        ? await newMessage.fetch()
+        : newMessage;
+      if (
+        message.author.bot ||
+        !isChannelAllowed(message.channelId) ||
+        oldMessage.content === message.content
+      ) {
+        return;
+      }
+      await processMessageUpdate(message);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      log.error(`Error handling message update: ${errorMessage}`);
+    }
+  });
+
+  client.on(Events.MessageDelete, async (message) => {
+    try {
+      await deleteTrackedReply(message);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      log.error(`Error handling message delete: ${errorMessage}`);
+    }
+  });
+
   log.debug("Connecting to Discord");
   await client.login(DISCORD_TOKEN);
 }
@@ -992,7 +743,7 @@ if (process.env.NODE_ENV !== "test") {
 }
 
 // Export for testing
-export { main, buildEmbed, processMessage };
+export { main, processMessage };
 
 // Re-export opensea utilities for test compatibility
 export const opensea = {
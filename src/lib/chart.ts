@@ -0,0 +1,100 @@
+import sharp from "sharp";
+
+/** A point on a price chart */
+export type ChartPoint = {
+  /** Unix timestamp (seconds) */
+  time: number;
+  price: number;
+};
+
+/** Chart rendering options */
+export type ChartOptions = {
+  width?: number;
+  height?: number;
+  /** Line and point color (#rrggbb) */
+  color?: string;
+};
+
+const DEFAULT_WIDTH = 800;
+const DEFAULT_HEIGHT = 300;
+const DEFAULT_LINE_COLOR = "#2081e2";
+const BACKGROUND = "#121212";
+const GRID = "#36393f";
+
+/** Space around the plot area (pixels) */
+const PADDING = 24;
+/** Horizontal grid lines (including top and bottom) */
+const GRID_LINES = 5;
+const POINT_RADIUS = 4;
+const LINE_THICKNESS = 2;
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Get the plot coordinates of chart points (sorted by time)
+ * Single points (or flat spans) are centered.
+ */
+const plotPoints = (
+  points: ChartPoint[],
+  width: number,
+  height: number
+): [number, number][] => {
+  const plotWidth = width - PADDING * 2;
+  const plotHeight = height - PADDING * 2;
+  const sorted = [...points].sort((a, b) => a.time - b.time);
+  const times = sorted.map((p) => p.time);
+  const prices = sorted.map((p) => p.price);
+  const minTime = Math.min(...times);
+  const timeSpan = Math.max(...times) - minTime;
+  const minPrice = Math.min(...prices);
+  const priceSpan = Math.max(...prices) - minPrice;
+
+  return sorted.map(({ time, price }) => [
+    PADDING +
+      (timeSpan > 0
+        ? ((time - minTime) / timeSpan) * plotWidth
+        : plotWidth / 2),
+    PADDING +
+      plotHeight -
+      (priceSpan > 0
+        ? ((price - minPrice) / priceSpan) * plotHeight
+        : plotHeight / 2),
+  ]);
+};
+
+/**
+ * Render a price-over-time line chart as a PNG
+ * The chart has no text (axis ranges are shown alongside it in the embed).
+ */
+export const renderPriceChart = (
+  points: ChartPoint[],
+  options: ChartOptions = {}
+): Promise<Buffer> => {
+  const width = options.width ?? DEFAULT_WIDTH;
+  const height = options.height ?? DEFAULT_HEIGHT;
+  const color =
+    options.color && HEX_COLOR_PATTERN.test(options.color)
+      ? options.color
+      : DEFAULT_LINE_COLOR;
+
+  const grid = Array.from({ length: GRID_LINES }, (_, i) => {
+    const y = PADDING + ((height - PADDING * 2) * i) / (GRID_LINES - 1);
+    return `<line x1="${PADDING}" y1="${y}" x2="${width - PADDING}" y2="${y}" stroke="${GRID}"/>`;
+  });
+  const coords = points.length > 0 ? plotPoints(points, width, height) : [];
+  const line = `<polyline points="${coords.map(([x, y]) => `${x},${y}`).join(" ")}" fill="none" stroke="${color}" stroke-width="${LINE_THICKNESS}" stroke-linejoin="round"/>`;
+  const dots = coords.map(
+    ([x, y]) =>
+      `<circle cx="${x}" cy="${y}" r="${POINT_RADIUS}" fill="${color}"/>`
+  );
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`,
+    `<rect width="${width}" height="${height}" fill="${BACKGROUND}"/>`,
+    ...grid,
+    coords.length > 1 ? line : "",
+    ...dots,
+    "</svg>",
+  ].join("");
+  return sharp(Buffer.from(svg)).png().toBuffer();
+};
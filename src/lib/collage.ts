@@ -0,0 +1,130 @@
+import sharp from "sharp";
+
+/** A collage tile (tiles without an image are drawn as placeholders) */
+export type CollageTile = {
+  label: string;
+  /** Encoded image in any format sharp can read */
+  image?: Buffer;
+};
+
+/** Collage rendering options */
+export type CollageOptions = {
+  /** Tile width and height (pixels) */
+  tileSize?: number;
+};
+
+const DEFAULT_TILE_SIZE = 256;
+/** Space between and around tiles (pixels) */
+const GAP = 4;
+const LABEL_FONT_SIZE = 14;
+/** Approximate width of a monospace character (relative to the font size) */
+const LABEL_CHAR_WIDTH = 0.6;
+const LABEL_PADDING = 4;
+
+const BACKGROUND = "#121212";
+const PLACEHOLDER = "#2f3136";
+const LABEL_BACKGROUND = "#000000";
+const LABEL_COLOR = "#ffffff";
+
+const XML_SPECIAL_PATTERN = /[<>&"]/g;
+
+/**
+ * Escape text for use in an SVG document
+ */
+const escapeXml = (text: string): string =>
+  text.replace(XML_SPECIAL_PATTERN, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Get the grid size for a number of tiles (2x2, 3x3 and so on)
+ * Rows that wouldn't have any tiles are dropped, e.g. 5 tiles use 3x2.
+ */
+export const collageLayout = (
+  count: number
+): { columns: number; rows: number } => {
+  const columns = Math.max(1, Math.ceil(Math.sqrt(count)));
+  return { columns, rows: Math.max(1, Math.ceil(count / columns)) };
+};
+
+/**
+ * Build an SVG overlay of a tile's label on a strip in its bottom-left corner
+ */
+const labelSvg = (label: string, tileSize: number): string => {
+  const height = LABEL_FONT_SIZE + LABEL_PADDING * 2;
+  const width = Math.min(
+    tileSize,
+    Math.ceil(label.length * LABEL_FONT_SIZE * LABEL_CHAR_WIDTH) +
+      LABEL_PADDING * 2
+  );
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`,
+    `<rect width="${width}" height="${height}" fill="${LABEL_BACKGROUND}"/>`,
+    `<text x="${LABEL_PADDING}" y="${height - LABEL_PADDING - 2}" font-family="monospace" font-weight="bold" font-size="${LABEL_FONT_SIZE}" fill="${LABEL_COLOR}">${escapeXml(label)}</text>`,
+    "</svg>",
+  ].join("");
+};
+
+/**
+ * Crop an image to a square tile (undefined if it can't be decoded)
+ */
+const renderTileImage = async (
+  image: Buffer,
+  tileSize: number
+): Promise<Buffer | undefined> => {
+  try {
+    return await sharp(image)
+      .resize(tileSize, tileSize, { fit: "cover" })
+      .png()
+      .toBuffer();
+  } catch {
+    return;
+  }
+};
+
+/**
+ * Render tiles as a labelled grid PNG
+ * Images are cropped to squares, and each label is drawn in the tile's
+ * bottom-left corner. Images that can't be decoded are left as placeholders.
+ */
+export const renderCollage = async (
+  tiles: CollageTile[],
+  options: CollageOptions = {}
+): Promise<Buffer> => {
+  const tileSize = options.tileSize ?? DEFAULT_TILE_SIZE;
+  const { columns, rows } = collageLayout(tiles.length);
+  const width = columns * (tileSize + GAP) + GAP;
+  const height = rows * (tileSize + GAP) + GAP;
+  const placeholder = await sharp({
+    create: {
+      width: tileSize,
+      height: tileSize,
+      channels: 4,
+      background: PLACEHOLDER,
+    },
+  })
+    .png()
+    .toBuffer();
+
+  const layers = await Promise.all(
+    tiles.map(async (tile, index) => {
+      const left = GAP + (index % columns) * (tileSize + GAP);
+      const top = GAP + Math.floor(index / columns) * (tileSize + GAP);
+      const image = tile.image
+        ? await renderTileImage(tile.image, tileSize)
+        : undefined;
+      const label = Buffer.from(labelSvg(tile.label, tileSize));
+      const labelHeight = LABEL_FONT_SIZE + LABEL_PADDING * 2;
+      return [
+        { input: placeholder, left, top },
+        ...(image ? [{ input: image, left, top }] : []),
+        { input: label, left, top: top + tileSize - labelHeight },
+      ];
+    })
+  );
+
+  return sharp({
+    create: { width, height, channels: 4, background: BACKGROUND },
+  })
+    .composite(layers.flat())
+    .png()
+    .toBuffer();
+};
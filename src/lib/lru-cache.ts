@@ -1,17 +1,24 @@
 /**
  * A simple Least Recently Used (LRU) cache implementation
  * Items are evicted when capacity is exceeded, starting with least recently accessed
+ * With a TTL, items also expire that many milliseconds after they were put.
  */
 export class LRUCache<K, V> {
   private readonly cache: Map<K, V>;
   private readonly order: K[];
   private readonly capacity: number;
+  private readonly ttlMs: number | undefined;
+  private readonly expiresAt = new Map<K, number>();
 
-  constructor(capacity: number) {
+  constructor(capacity: number, ttlMs?: number) {
     if (capacity <= 0) {
       throw new Error("LRU cache capacity must be positive");
     }
+    if (ttlMs !== undefined && ttlMs <= 0) {
+      throw new Error("LRU cache TTL must be positive");
+    }
     this.capacity = capacity;
+    this.ttlMs = ttlMs;
     this.cache = new Map();
     this.order = [];
   }
@@ -21,6 +28,7 @@ export class LRUCache<K, V> {
    * Marks the key as recently used
    */
   get(key: K): V | undefined {
+    this.deleteIfExpired(key);
     if (this.cache.has(key)) {
       this.updateOrder(key);
     }
@@ -31,6 +39,7 @@ export class LRUCache<K, V> {
    * Check if a key exists in the cache
    */
   has(key: K): boolean {
+    this.deleteIfExpired(key);
     return this.cache.has(key);
   }
 
@@ -39,6 +48,10 @@ export class LRUCache<K, V> {
    * Evicts the least recently used item if at capacity
    */
   put(key: K, value: V): void {
+    if (this.ttlMs !== undefined) {
+      this.expiresAt.set(key, Date.now() + this.ttlMs);
+    }
+
     // If key already exists, just update value and order
     if (this.cache.has(key)) {
       this.cache.set(key, value);
@@ -51,6 +64,7 @@ export class LRUCache<K, V> {
       const lru = this.order.shift();
       if (lru !== undefined) {
         this.cache.delete(lru);
+        this.expiresAt.delete(lru);
       }
     }
 
@@ -62,6 +76,7 @@ export class LRUCache<K, V> {
    * Remove a key from the cache
    */
   delete(key: K): boolean {
+    this.expiresAt.delete(key);
     const existed = this.cache.delete(key);
     if (existed) {
       const index = this.order.indexOf(key);
@@ -77,6 +92,7 @@ export class LRUCache<K, V> {
    */
   clear(): void {
     this.cache.clear();
+    this.expiresAt.clear();
     this.order.length = 0;
   }
 
@@ -94,6 +110,16 @@ export class LRUCache<K, V> {
     return [...this.order];
   }
 
+  /**
+   * Remove a key if its TTL has passed
+   */
+  private deleteIfExpired(key: K): void {
+    const expiresAt = this.expiresAt.get(key);
+    if (expiresAt !== undefined && Date.now() >= expiresAt) {
+      this.delete(key);
+    }
+  }
+
   /**
    * Move a key to the end of the order (most recently used)
    */
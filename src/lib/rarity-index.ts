@@ -0,0 +1,145 @@
+import type { NFTTrait } from "./types";
+
+/** Value used for tokens missing a trait type */
+const MISSING_VALUE = "<none>";
+
+/**
+ * Whether a trait counts towards rarity scores
+ * Numeric traits (numbers, boosts, dates) are unique per token so they're skipped.
+ */
+const isRankedTrait = (trait: NFTTrait): boolean => !trait.display_type;
+
+/**
+ * Build the lookup key for a trait value (case-insensitive)
+ */
+const traitKey = (traitType: string, value: string | number): string =>
+  `${traitType.toLowerCase()}\u0000${String(value).toLowerCase()}`;
+
+/**
+ * A trait index for a collection, built from each token's traits
+ * Scores tokens by summing the inverse frequency of their traits (tokens
+ * missing a trait type count as having a "none" value) and ranks them by score.
+ */
+export class RarityIndex {
+  private readonly tokens = new Map<number, NFTTrait[]>();
+  /** Trait key -> number of tokens with that value */
+  private readonly valueCounts = new Map<string, number>();
+  /** Ranked trait type (lowercase) -> number of tokens with that type */
+  private readonly typeCounts = new Map<string, number>();
+  /** Token ID -> rank (computed lazily, cleared when tokens change) */
+  private ranks: Map<number, number> | undefined;
+
+  /**
+   * Add (or replace) a token's traits
+   */
+  add(tokenId: number, traits: NFTTrait[]): void {
+    const existing = this.tokens.get(tokenId);
+    if (existing) {
+      this.count(existing, -1);
+    }
+    this.tokens.set(tokenId, traits);
+    this.count(traits, 1);
+    this.ranks = undefined;
+  }
+
+  /**
+   * Get the number of indexed tokens
+   */
+  get size(): number {
+    return this.tokens.size;
+  }
+
+  /**
+   * Get each indexed token's traits (e.g. to save the index)
+   */
+  entries(): [number, NFTTrait[]][] {
+    return [...this.tokens];
+  }
+
+  /**
+   * Get the percentage of indexed tokens sharing a trait value
+   */
+  traitPercent(trait: NFTTrait): number | undefined {
+    const count = this.valueCounts.get(traitKey(trait.trait_type, trait.value));
+    if (!count || this.tokens.size === 0) {
+      return;
+    }
+    return (count / this.tokens.size) * 100;
+  }
+
+  /**
+   * Get a token's rarity rank (1 is rarest, tied scores share a rank)
+   */
+  rank(tokenId: number): number | undefined {
+    if (!this.ranks) {
+      this.ranks = this.computeRanks();
+    }
+    return this.ranks.get(tokenId);
+  }
+
+  /**
+   * Update value and type counts for a token's traits
+   */
+  private count(traits: NFTTrait[], delta: number): void {
+    const types = new Set<string>();
+    for (const trait of traits) {
+      const key = traitKey(trait.trait_type, trait.value);
+      this.valueCounts.set(key, (this.valueCounts.get(key) ?? 0) + delta);
+      if (isRankedTrait(trait)) {
+        types.add(trait.trait_type.toLowerCase());
+      }
+    }
+    for (const type of types) {
+      this.typeCounts.set(type, (this.typeCounts.get(type) ?? 0) + delta);
+    }
+  }
+
+  /**
+   * Get the number of tokens with a trait value (or missing the trait type)
+   */
+  private valueCount(traitType: string, value: string | number): number {
+    if (value === MISSING_VALUE) {
+      return this.tokens.size - (this.typeCounts.get(traitType) ?? 0);
+    }
+    return this.valueCounts.get(traitKey(traitType, value)) ?? 0;
+  }
+
+  /**
+   * Score a token (higher is rarer)
+   */
+  private score(traits: NFTTrait[]): number {
+    const values = new Map<string, string | number>();
+    for (const trait of traits.filter(isRankedTrait)) {
+      values.set(trait.trait_type.toLowerCase(), trait.value);
+    }
+
+    let score = 0;
+    for (const [type, count] of this.typeCounts) {
+      if (count > 0) {
+        const value = values.get(type) ?? MISSING_VALUE;
+        score += this.tokens.size / Math.max(1, this.valueCount(type, value));
+      }
+    }
+    return score;
+  }
+
+  /**
+   * Rank every indexed token by score
+   */
+  private computeRanks(): Map<number, number> {
+    const scored = [...this.tokens].map(([tokenId, traits]) => ({
+      tokenId,
+      score: this.score(traits),
+    }));
+    scored.sort((a, b) => b.score - a.score);
+
+    const ranks = new Map<number, number>();
+    let previous: { score: number; rank: number } | undefined;
+    for (const [index, { tokenId, score }] of scored.entries()) {
+      const rank = previous?.score === score ? previous.rank : index + 1;
+      ranks.set(tokenId, rank);
+      previous = { score, rank };
+    }
+    return ranks;
+  }
+}
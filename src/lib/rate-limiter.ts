@@ -0,0 +1,82 @@
+/** Bucket state for a single key */
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+/** Prune full buckets once this many keys are tracked */
+const PRUNE_THRESHOLD = 1000;
+
+/**
+ * A token bucket rate limiter keyed by string
+ * Each key starts with `capacity` tokens, refilled continuously over `windowMs`
+ */
+export class RateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+
+  constructor(capacity: number, windowMs: number) {
+    if (capacity <= 0 || windowMs <= 0) {
+      throw new Error("Rate limiter capacity and window must be positive");
+    }
+    this.capacity = capacity;
+    this.refillPerMs = capacity / windowMs;
+  }
+
+  /**
+   * Get how long until `cost` tokens are available for a key (0 if now)
+   * Costs above capacity are clamped so a full bucket always allows a request.
+   */
+  retryAfter(key: string, cost = 1, now = Date.now()): number {
+    const needed = Math.min(cost, this.capacity);
+    const tokens = this.getTokens(key, now);
+    if (tokens >= needed) {
+      return 0;
+    }
+    return Math.ceil((needed - tokens) / this.refillPerMs);
+  }
+
+  /**
+   * Take `cost` tokens from a key's bucket (without checking availability)
+   */
+  consume(key: string, cost = 1, now = Date.now()): void {
+    const needed = Math.min(cost, this.capacity);
+    const tokens = this.getTokens(key, now);
+    this.buckets.set(key, { tokens: tokens - needed, updatedAt: now });
+
+    if (this.buckets.size > PRUNE_THRESHOLD) {
+      this.prune(now);
+    }
+  }
+
+  /**
+   * Get the current number of tracked keys
+   */
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  /**
+   * Get a key's tokens after refilling for elapsed time
+   */
+  private getTokens(key: string, now: number): number {
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      return this.capacity;
+    }
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    return Math.min(this.capacity, bucket.tokens + elapsed * this.refillPerMs);
+  }
+
+  /**
+   * Drop buckets that have refilled completely (same as untracked)
+   */
+  private prune(now: number): void {
+    for (const key of this.buckets.keys()) {
+      if (this.getTokens(key, now) >= this.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
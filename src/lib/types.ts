@@ -1,4 +1,4 @@
-import type { EmbedBuilder } from "discord.js";
+import type { AttachmentBuilder, EmbedBuilder } from "discord.js";
 
 /** Log accumulator for tracking operations */
 export type Log = string[];
@@ -34,16 +34,49 @@ export type OpenSeaOwner = {
   quantity?: number;
 };
 
+/** OpenSea NFT trait */
+export type NFTTrait = {
+  trait_type: string;
+  value: string | number;
+  display_type?: string | null;
+  max_value?: string | number | null;
+};
+
+/** OpenSea rarity data for an NFT */
+export type NFTRarity = {
+  strategy_id?: string;
+  strategy_version?: string;
+  rank?: number | null;
+  score?: number | null;
+};
+
 /** OpenSea NFT data */
 export type NFT = {
   name?: string;
   owners?: OpenSeaOwner[];
   opensea_url: string;
   image_url?: string;
+  /** Animation (video, GIF or HTML) */
+  animation_url?: string | null;
+  /** OpenSea's cached copy of the animation */
+  display_animation_url?: string | null;
   /** Token standard (erc721, erc1155) */
   token_standard?: string;
+  traits?: NFTTrait[] | null;
+  rarity?: NFTRarity | null;
+  /** Flagged by OpenSea as not safe for work */
+  is_nsfw?: boolean;
+  /** Flagged by OpenSea as suspicious (e.g. stolen or a copymint) */
+  is_suspicious?: boolean;
+  /** Trading disabled on OpenSea */
+  is_disabled?: boolean;
+  /** Read from the token's contract because OpenSea was unavailable */
+  onchain?: boolean;
 };
 
+/** OpenSea's NSFW, suspicious and disabled flags on an NFT */
+export type NFTFlags = Pick<NFT, "is_nsfw" | "is_suspicious" | "is_disabled">;
+
 /** OpenSea last sale event */
 export type LastSale = {
   payment: {
@@ -54,6 +87,28 @@ export type LastSale = {
   closing_date: number;
 };
 
+/** OpenSea sale event (with the accounts involved) */
+export type SaleEvent = LastSale & {
+  event_type?: "sale";
+  buyer: string;
+  seller: string;
+  transaction?: string;
+};
+
+/** OpenSea mint or transfer event */
+export type TransferEvent = {
+  event_type: "mint" | "transfer";
+  event_timestamp: number;
+  from_address: string;
+  to_address: string;
+  transaction?: string;
+};
+
+/** An OpenSea event that changes who owns a token */
+export type OwnershipEvent =
+  | (SaleEvent & { event_type: "sale" })
+  | TransferEvent;
+
 /** OpenSea best offer */
 export type BestOffer = {
   criteria?: {
@@ -77,22 +132,72 @@ export type BestListing = {
   };
 };
 
+/** OpenSea collection stats (from /collections/{slug}/stats endpoint) */
+export type CollectionStats = {
+  total: {
+    /** Floor price in whole units of floor_price_symbol (e.g. 0.42) */
+    floor_price?: number | null;
+    floor_price_symbol?: string | null;
+  };
+};
+
 /** OpenSea account data */
 export type OpenSeaAccount = {
   username?: string;
 };
 
+/** Where a request came from (used to pick guild-specific configuration) */
+export type RequestScope = {
+  /** Guild ID (undefined for DMs) */
+  guildId?: string;
+  /** Channel ID (used for per-channel default collections) */
+  channelId?: string;
+  /** Whether the channel is age-restricted (NSFW) */
+  nsfw?: boolean;
+};
+
+/** Scheduled random posts to a channel */
+export type RandomSchedule = {
+  channelId: string;
+  /** Guild of the channel (filled in once the channel is resolved) */
+  guildId?: string;
+  /** Minutes between posts */
+  minutes: number;
+  /** Collection option: prefix, prefix1+prefix2, or * (undefined) for all */
+  collections?: string;
+  /** Paused schedules keep their settings but don't post */
+  paused?: boolean;
+};
+
 /** Matched token request from a message */
 export type TokenMatch = {
   /** The collection this match belongs to */
   collection: CollectionConfig;
   /** The token ID to fetch (already resolved if random) */
   tokenId: number;
+  /** Whether the token ID was picked at random (#random, #rand, #?) */
+  isRandom?: boolean;
+  /**
+   * Show the token's sales history (#123 history) or ownership timeline
+   * (#123 provenance) instead of the NFT
+   */
+  mode?: "history" | "provenance";
+};
+
+/** A single built embed with the files it uses */
+export type BuiltEmbed = {
+  embed: EmbedBuilder;
+  /** Media attachments (GIFs and videos small enough to play inline) */
+  files: AttachmentBuilder[];
 };
 
 /** Result of building embeds */
 export type EmbedResult = {
   embeds: EmbedBuilder[];
+  /** Media attachments for all embeds */
+  files: AttachmentBuilder[];
+  /** Token shown by each embed (same order as embeds, undefined if none) */
+  tokens: (TokenMatch | undefined)[];
   embedLog: string;
 };
 
@@ -106,12 +211,22 @@ export type AccountNFT = {
   description?: string;
   image_url?: string;
   opensea_url: string;
+  is_nsfw?: boolean;
+  is_suspicious?: boolean;
+  is_disabled?: boolean;
 };
 
 /** Response from OpenSea account NFTs endpoint */
 export type AccountNFTsResponse = {
   nfts: AccountNFT[];
-  next?: string;
+  next?: string | null;
+};
+
+/** How many tokens of a collection an address holds */
+export type Holdings = {
+  count: number;
+  /** True if there were more pages than were counted */
+  truncated: boolean;
 };
 
 /** Match for a username random request (e.g., #username or artifacts#username) */
@@ -131,5 +246,25 @@ export type OpenSeaCollection = {
   unique_item_count?: number | null;
   rarity?: {
     total_supply: number;
-  };
+    /** Highest rank in the collection (number of ranked tokens) */
+    max_rank?: number | null;
+  } | null;
+};
+
+/** OpenSea trait counts (from /traits/{slug} endpoint) */
+export type OpenSeaTraits = {
+  /** Trait type -> value type (string, number, date) */
+  categories: Record<string, string>;
+  /** Trait type -> trait value -> number of tokens */
+  counts: Record<string, Record<string, number>>;
+};
+
+/** Rarity details for an NFT */
+export type Rarity = {
+  /** Rarity rank (1 is rarest) */
+  rank?: number;
+  /** Number of ranked tokens */
+  total?: number;
+  /** Percentage of tokens sharing each of the NFT's traits (see traitPercentKey) */
+  traitPercents: Map<string, number>;
 };
@@ -1,11 +1,26 @@
+import { Readable } from "node:stream";
 import { formatUnits } from "ethers";
 import {
   DECIMAL_TRIM_LENGTH,
   DECIMAL_TRIM_THRESHOLD,
+  DEFAULT_ARWEAVE_GATEWAYS,
+  DEFAULT_IPFS_GATEWAYS,
+  GATEWAY_CACHE_CAPACITY,
+  GATEWAY_CACHE_TTL_MS,
+  GATEWAY_CHECK_TIMEOUT_MS,
   HIGH_RES_IMAGE_WIDTH,
   IMAGE_WIDTH_REGEX,
+  SECONDS_PER_DAY,
   SEPARATOR,
 } from "../config/constants";
+import { createLogger } from "./logger";
+import { LRUCache } from "./lru-cache";
+import type { RequestScope } from "./types";
+
+const log = createLogger("Utils");
+
+// Ordered gateway base URLs (comma-separated) and whether to check them
+const { IPFS_GATEWAYS, ARWEAVE_GATEWAYS, CHECK_GATEWAYS } = process.env;
 
 /** Re-export separator for convenience */
 export const separator = SEPARATOR;
@@ -31,12 +46,177 @@ export const formatAmount = (
   return `${value} ${symbol}`;
 };
 
+/**
+ * Format how far a price is from the floor
+ * e.g., formatFloorDifference(0.42, 0.356) => "+18% vs floor"
+ */
+export const formatFloorDifference = (price: number, floor: number): string => {
+  const percent = Math.round((price / floor - 1) * 100);
+  if (percent === 0) {
+    return "at floor";
+  }
+  return `${percent > 0 ? "+" : ""}${percent}% vs floor`;
+};
+
 /**
  * Get high-resolution image URL from an NFT
  */
 export const getHighResImage = (imageUrl?: string): string | undefined =>
   imageUrl?.replace(IMAGE_WIDTH_REGEX, HIGH_RES_IMAGE_WIDTH);
 
+/**
+ * Check if a string is an absolute URL
+ */
+export const isValidUrl = (value: string): boolean => URL.canParse(value);
+
+/**
+ * Parse a comma-separated gateway list (each base URL ends with a slash)
+ */
+export const parseGateways = (
+  value: string | undefined,
+  defaults: string[]
+): string[] => {
+  const gateways = (value ?? "")
+    .split(",")
+    .map((gateway) => gateway.trim())
+    .filter(isValidUrl)
+    .map((gateway) => (gateway.endsWith("/") ? gateway : `${gateway}/`));
+  return gateways.length > 0 ? gateways : defaults;
+};
+
+const ipfsGateways = parseGateways(IPFS_GATEWAYS, DEFAULT_IPFS_GATEWAYS);
+const arweaveGateways = parseGateways(
+  ARWEAVE_GATEWAYS,
+  DEFAULT_ARWEAVE_GATEWAYS
+);
+
+/** A bare IPFS CID (v0 or base32 v1), optionally followed by a path */
+const CID_PATTERN = /^(?:Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})(?:\/.*)?$/;
+/** The CID and path of an HTTP gateway URL (https://host/ipfs/<cid>/...) */
+const GATEWAY_PATH_PATTERN = /^https?:\/\/[^/]+\/ipfs\/(.+)$/;
+const IPFS_PATH_PREFIX_PATTERN = /^ipfs\//;
+
+/**
+ * Get the HTTP URLs for a media URL, in gateway order
+ * ipfs://, ar:// and bare CID URLs are rewritten to each configured gateway.
+ * HTTP gateway URLs come first, followed by the configured IPFS gateways.
+ * Other URLs are returned as is.
+ */
+export const getGatewayUrls = (url: string): string[] => {
+  if (url.startsWith("ipfs://")) {
+    const path = url
+      .slice("ipfs://".length)
+      .replace(IPFS_PATH_PREFIX_PATTERN, "");
+    return ipfsGateways.map((gateway) => `${gateway}${path}`);
+  }
+  if (url.startsWith("ar://")) {
+    const path = url.slice("ar://".length);
+    return arweaveGateways.map((gateway) => `${gateway}${path}`);
+  }
+  if (CID_PATTERN.test(url)) {
+    return ipfsGateways.map((gateway) => `${gateway}${url}`);
+  }
+  const gatewayPath = GATEWAY_PATH_PATTERN.exec(url)?.[1];
+  if (gatewayPath) {
+    const alternatives = ipfsGateways
+      .map((gateway) => `${gateway}${gatewayPath}`)
+      .filter((alternative) => alternative !== url);
+    return [url, ...alternatives];
+  }
+  return [url];
+};
+
+/**
+ * Rewrite an ipfs://, ar:// or bare CID URL to an HTTP URL on the first
+ * configured gateway (other URLs are unchanged)
+ */
+export const normalizeMediaUrl = (url: string): string =>
+  getGatewayUrls(url)[0] ?? url;
+
+/** Resolved media URLs, when gateways are checked */
+const gatewayCache = new LRUCache<string, string>(
+  GATEWAY_CACHE_CAPACITY,
+  GATEWAY_CACHE_TTL_MS
+);
+
+/**
+ * Check if a URL responds (HEAD request)
+ */
+const isReachable = async (url: string): Promise<boolean> => {
+  try {
+    const response = await fetch(url, {
+      method: "HEAD",
+      signal: AbortSignal.timeout(GATEWAY_CHECK_TIMEOUT_MS),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Get an HTTP URL Discord can show for a media URL
+ * With CHECK_GATEWAYS=true, gateways are tried in order and the first that
+ * responds is used (cached); otherwise the first gateway is used.
+ */
+export const resolveMediaUrl = async (
+  url: string | undefined
+): Promise<string | undefined> => {
+  if (!url) {
+    return;
+  }
+  const candidates = getGatewayUrls(url);
+  // data: URIs (e.g. on-chain SVGs) can't be shown in embeds
+  if (!candidates[0].startsWith("http")) {
+    return;
+  }
+  if (CHECK_GATEWAYS !== "true" || candidates.length === 1) {
+    return candidates[0];
+  }
+
+  const cached = gatewayCache.get(url);
+  if (cached) {
+    return cached;
+  }
+  for (const candidate of candidates) {
+    if (await isReachable(candidate)) {
+      gatewayCache.put(url, candidate);
+      return candidate;
+    }
+    log.debug(`Gateway unreachable: ${candidate}`);
+  }
+  log.warn(`No gateway reachable for ${url}`);
+  return candidates[0];
+};
+
+/**
+ * Read a response body, giving up once it's larger than a number of bytes
+ * For responses without a content-length (e.g. chunked), so a large body is
+ * never held in memory. Returns undefined if the body is too large.
+ */
+export const readBodyWithLimit = async (
+  response: Response,
+  maxBytes: number
+): Promise<Buffer | undefined> => {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  // Readable.from also takes bodies that aren't web streams (e.g. from fetch
+  // polyfills); leaving the loop early cancels the rest of the body
+  for await (const chunk of Readable.from(
+    response.body
+  ) as AsyncIterable<Uint8Array>) {
+    size += chunk.byteLength;
+    if (size > maxBytes) {
+      return;
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
 /**
  * Format a date as "MMM 'YY" (e.g., "Dec '24")
  */
@@ -48,6 +228,30 @@ export const formatShortDate = (date: Date): string => {
   return formatted.replace(" ", " '");
 };
 
+/** Average days per month and months per year, for durations */
+const DAYS_PER_MONTH = 30.44;
+const MONTHS_PER_YEAR = 12;
+
+/**
+ * Format a duration in seconds compactly (e.g., "12d", "5mo", "2y 3mo")
+ */
+export const formatDuration = (seconds: number): string => {
+  const days = Math.floor(seconds / SECONDS_PER_DAY);
+  if (days < 1) {
+    return "<1d";
+  }
+  const months = Math.floor(days / DAYS_PER_MONTH);
+  if (months < 1) {
+    return `${days}d`;
+  }
+  if (months < MONTHS_PER_YEAR) {
+    return `${months}mo`;
+  }
+  const years = Math.floor(months / MONTHS_PER_YEAR);
+  const rest = months % MONTHS_PER_YEAR;
+  return rest > 0 ? `${years}y ${rest}mo` : `${years}y`;
+};
+
 /**
  * Pluralize a word based on count
  */
@@ -56,3 +260,34 @@ export const pluralize = (
   singular: string,
   plural?: string
 ): string => (count === 1 ? singular : (plural ?? `${singular}s`));
+
+/**
+ * Check if a Discord channel is age-restricted (NSFW)
+ */
+const isNsfwChannel = (channel: object | null | undefined): boolean => {
+  if (!channel) {
+    return false;
+  }
+  if ("nsfw" in channel) {
+    return channel.nsfw === true;
+  }
+  // Threads are age-restricted if their parent channel is
+  return (
+    "parent" in channel &&
+    typeof channel.parent === "object" &&
+    isNsfwChannel(channel.parent)
+  );
+};
+
+/**
+ * Get the request scope for a Discord message or interaction
+ */
+export const getRequestScope = (source: {
+  guildId: string | null;
+  channelId: string | null;
+  channel?: object | null;
+}): RequestScope => ({
+  guildId: source.guildId ?? undefined,
+  channelId: source.channelId ?? undefined,
+  nsfw: isNsfwChannel(source.channel),
+});
@@ -1,6 +1,7 @@
 import { mkdir, readFile, writeFile } from "node:fs/promises";
-import { dirname, join } from "node:path";
+import { dirname, join, resolve } from "node:path";
 import { createLogger, isDebugEnabled } from "../lib/logger";
+import type { CollectionConfig, RandomSchedule } from "../lib/types";
 
 const log = createLogger("State");
 
@@ -15,6 +16,19 @@ const STATE_FILE_NAME = "embed-bot-state.json";
 /** Recent tokens history size per channel */
 const RECENT_TOKENS_LIMIT = 50;
 
+/** How long to track bot replies for edits/deletes of the source message (24 hours) */
+const REPLY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Tracked bot reply to a user message */
+type TrackedReply = {
+  /** Channel containing both messages */
+  channelId: string;
+  /** Bot reply message ID */
+  replyId: string;
+  /** Expiry timestamp (ISO string) */
+  expiresAt: string;
+};
+
 /** State data structure */
 type StateData = {
   /** Version for future migrations */
@@ -25,6 +39,12 @@ type StateData = {
   recentTokens: Record<string, number[]>;
   /** Last random post timestamp per channel (ISO string) */
   lastRandomPost: Record<string, string>;
+  /** Bot replies by source message ID */
+  replies: Record<string, TrackedReply>;
+  /** Runtime collection changes per guild (prefix -> collection, null if removed) */
+  collectionOverrides: Record<string, Record<string, CollectionConfig | null>>;
+  /** Runtime random schedule changes by channel ID (null if deleted) */
+  scheduleOverrides: Record<string, RandomSchedule | null>;
   /** Custom state data (extensible) */
   custom: Record<string, unknown>;
 };
@@ -35,6 +55,9 @@ const createDefaultState = (): StateData => ({
   updatedAt: new Date().toISOString(),
   recentTokens: {},
   lastRandomPost: {},
+  replies: {},
+  collectionOverrides: {},
+  scheduleOverrides: {},
   custom: {},
 });
 
@@ -112,6 +135,16 @@ class StateManager {
     if (parsed.lastRandomPost !== undefined) {
       this.state.lastRandomPost = parsed.lastRandomPost;
     }
+    if (parsed.replies !== undefined) {
+      this.state.replies = parsed.replies;
+      this.pruneExpiredReplies();
+    }
+    if (parsed.collectionOverrides !== undefined) {
+      this.state.collectionOverrides = parsed.collectionOverrides;
+    }
+    if (parsed.scheduleOverrides !== undefined) {
+      this.state.scheduleOverrides = parsed.scheduleOverrides;
+    }
     if (parsed.custom !== undefined) {
       this.state.custom = parsed.custom;
     }
@@ -246,6 +279,120 @@ class StateManager {
     return shouldPost;
   }
 
+  /**
+   * Track the bot's reply to a message
+   * The entry expires after ttlMs (defaults to 24 hours)
+   */
+  setReply(
+    messageId: string,
+    channelId: string,
+    replyId: string,
+    ttlMs: number = REPLY_TTL_MS
+  ): void {
+    this.pruneExpiredReplies();
+    const expiresAt = new Date(Date.now() + ttlMs).toISOString();
+    this.state.replies[messageId] = { channelId, replyId, expiresAt };
+    this.markDirty();
+    log.debug(`Tracking reply ${replyId} to message ${messageId}`);
+  }
+
+  /**
+   * Get the bot's reply to a message
+   * Returns undefined if no reply is tracked or the entry has expired
+   */
+  getReply(messageId: string): Omit<TrackedReply, "expiresAt"> | undefined {
+    const reply = this.state.replies[messageId];
+    if (!reply) {
+      return;
+    }
+    if (new Date(reply.expiresAt).getTime() <= Date.now()) {
+      this.deleteReply(messageId);
+      return;
+    }
+    return { channelId: reply.channelId, replyId: reply.replyId };
+  }
+
+  /**
+   * Stop tracking the bot's reply to a message
+   */
+  deleteReply(messageId: string): boolean {
+    if (!(messageId in this.state.replies)) {
+      return false;
+    }
+    const { [messageId]: _, ...rest } = this.state.replies;
+    this.state.replies = rest;
+    this.markDirty();
+    log.debug(`Stopped tracking reply to message ${messageId}`);
+    return true;
+  }
+
+  /**
+   * Remove expired reply entries
+   */
+  private pruneExpiredReplies(): void {
+    const now = Date.now();
+    let pruned = 0;
+    for (const [messageId, reply] of Object.entries(this.state.replies)) {
+      if (new Date(reply.expiresAt).getTime() <= now) {
+        delete this.state.replies[messageId];
+        pruned += 1;
+      }
+    }
+    if (pruned > 0) {
+      this.markDirty();
+      log.debug(`Pruned ${pruned} expired replies`);
+    }
+  }
+
+  /**
+   * Get runtime collection changes for all guilds
+   */
+  getCollectionOverrides(): Readonly<
+    Record<string, Record<string, CollectionConfig | null>>
+  > {
+    return this.state.collectionOverrides;
+  }
+
+  /**
+   * Record a runtime collection change for a guild
+   * Pass null to record that the collection was removed.
+   */
+  setCollectionOverride(
+    guildId: string,
+    prefix: string,
+    collection: CollectionConfig | null
+  ): void {
+    const overrides = this.state.collectionOverrides[guildId] ?? {};
+    overrides[prefix] = collection;
+    this.state.collectionOverrides[guildId] = overrides;
+    this.markDirty();
+    log.debug(
+      `Set collection override for guild ${guildId}: "${prefix}" ${collection ? "updated" : "removed"}`
+    );
+  }
+
+  /**
+   * Get runtime random schedule changes by channel ID
+   */
+  getScheduleOverrides(): Readonly<Record<string, RandomSchedule | null>> {
+    return this.state.scheduleOverrides;
+  }
+
+  /**
+   * Record a runtime random schedule change for a channel
+   * Pass null to record that the schedule was deleted.
+   */
+  setScheduleOverride(
+    channelId: string,
+    schedule: RandomSchedule | null
+  ): void {
+    this.state.scheduleOverrides[channelId] = schedule;
+    this.markDirty();
+    log.debug(
+      `Set schedule override for channel ${channelId}: ${schedule ? "updated" : "deleted"}`
+    );
+  }
+
   /**
    * Get a custom state value
    */
@@ -320,6 +467,12 @@ class StateManager {
   }
 }
 
+/**
+ * Get the state directory (STATE_DIR, relative to the working directory)
+ */
+export const getStateDir = (): string =>
+  resolve(STATE_DIR ?? DEFAULT_STATE_DIR);
+
 /** Singleton state manager instance */
 let stateManager: StateManager | undefined;
 
@@ -331,9 +484,7 @@ export const getStateManager = (): StateManager => {
     return stateManager;
   }
 
-  const rootDir = process.cwd();
-  const stateDir = STATE_DIR ?? DEFAULT_STATE_DIR;
-  const filePath = join(rootDir, stateDir, STATE_FILE_NAME);
+  const filePath = join(getStateDir(), STATE_FILE_NAME);
   const enablePersistence = NODE_ENV !== "test";
 
   log.debug(`Initializing state manager: ${filePath}`);
@@ -0,0 +1,377 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ReadableStream } from "node:stream/web";
+import { Interface } from "ethers";
+import fetchMock from "jest-fetch-mock";
+import type { CollectionConfig, Log } from "../../src/lib/types";
+
+const NFT_INTERFACE = new Interface([
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function tokenURI(uint256 tokenId) view returns (string)",
+  "function uri(uint256 id) view returns (string)",
+]);
+
+const ERC1155_INTERFACE_ID = "0xd9b67a26";
+const OWNER = "0x00a839de7922491683f547a67795204763ff8237";
+const GLYPHBOTS = "0xb6c2c2d2999c1b532e089a7ad4cb7f8c91cf5075";
+const EDITIONS = "0x1234567890abcdef1234567890abcdef12345678";
+const IPFS_EDITIONS = "0xabcdefabcdefabcdefabcdefabcdefabcdefabcd";
+
+/** Fully on-chain metadata, as GlyphBots returns it */
+const glyphbotMetadata = {
+  name: "GlyphBot #1 - Vector the Kind",
+  image: `data:image/svg+xml;base64,${Buffer.from(
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 4 4"></svg>'
+  ).toString("base64")}`,
+  attributes: [
+    { trait_type: "Hat", value: "Cap" },
+    { trait_type: "Eyes", value: "Laser" },
+    { value: "untyped" },
+  ],
+};
+const glyphbotTokenUri = `data:application/json;base64,${Buffer.from(
+  JSON.stringify(glyphbotMetadata)
+).toString("base64")}`;
+
+/**
+ * A metadata response with a streamed body, like Node's fetch returns
+ * (jest-fetch-mock's responses have buffered bodies)
+ */
+const metadataResponse = (body: string, status = 200): Promise<Response> =>
+  Promise.resolve({
+    ok: status === 200,
+    status,
+    headers: new Headers(),
+    body: new ReadableStream({
+      start(controller) {
+        controller.enqueue(Buffer.from(body));
+        controller.close();
+      },
+    }),
+  } as unknown as Response);
+
+/** A stub contract: call results by function name and token ID */
+type StubContract = {
+  erc1155: boolean;
+  owners: Map<bigint, string>;
+  uri: (id: bigint) => string;
+};
+
+const contracts = new Map<string, StubContract>([
+  [
+    GLYPHBOTS,
+    {
+      erc1155: false,
+      owners: new Map([[1n, OWNER]]),
+      uri: () => glyphbotTokenUri,
+    },
+  ],
+  [
+    EDITIONS,
+    {
+      erc1155: true,
+      owners: new Map(),
+      uri: () => "https://meta.example.com/{id}.json",
+    },
+  ],
+]);
+
+/**
+ * Answer an eth_call to a stub contract (undefined means revert)
+ */
+const handleCall = (to: string, data: string): string | undefined => {
+  const contract = contracts.get(to.toLowerCase());
+  const call = NFT_INTERFACE.parseTransaction({ data });
+  if (!(contract && call)) {
+    return;
+  }
+  const [arg] = call.args;
+  switch (call.name) {
+    case "supportsInterface":
+      return NFT_INTERFACE.encodeFunctionResult(call.fragment, [
+        contract.erc1155 && arg === ERC1155_INTERFACE_ID,
+      ]);
+    case "ownerOf":
+    case "tokenURI": {
+      const owner = contract.owners.get(arg);
+      if (contract.erc1155 || !owner) {
+        return;
+      }
+      const result = call.name === "ownerOf" ? owner : contract.uri(arg);
+      return NFT_INTERFACE.encodeFunctionResult(call.fragment, [result]);
+    }
+    case "uri":
+      return contract.erc1155
+        ? NFT_INTERFACE.encodeFunctionResult(call.fragment, [contract.uri(arg)])
+        : undefined;
+    default:
+      return;
+  }
+};
+
+type RpcRequest = { id: number; method: string; params: unknown[] };
+
+/**
+ * Answer a JSON-RPC request like a node would
+ */
+const handleRpc = ({ id, method, params }: RpcRequest) => {
+  if (method === "eth_chainId") {
+    return { jsonrpc: "2.0", id, result: "0x1" };
+  }
+  if (method === "eth_call") {
+    const [{ to, data }] = params as [{ to: string; data: string }];
+    const result = handleCall(to, data);
+    return result
+      ? { jsonrpc: "2.0", id, result }
+      : {
+          jsonrpc: "2.0",
+          id,
+          error: { code: 3, message: "execution reverted", data: "0x" },
+        };
+  }
+  return {
+    jsonrpc: "2.0",
+    id,
+    error: { code: -32_601, message: "method not found" },
+  };
+};
+
+/**
+ * Start a local JSON-RPC server backed by the stub contracts
+ */
+const startStubRpc = (): Promise<{ server: Server; url: string }> =>
+  new Promise((resolve) => {
+    const server = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => {
+        body += chunk;
+      });
+      request.on("end", () => {
+        const payload = JSON.parse(body) as RpcRequest | RpcRequest[];
+        const reply = Array.isArray(payload)
+          ? payload.map(handleRpc)
+          : handleRpc(payload);
+        response.setHeader("content-type", "application/json");
+        response.end(JSON.stringify(reply));
+      });
+    });
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}` });
+    });
+  });
+
+const collection = (address: string): CollectionConfig => ({
+  prefix: "",
+  address,
+  name: "GlyphBots",
+  chain: "ethereum",
+  minTokenId: 1,
+  maxTokenId: 10_735,
+});
+
+describe("onchain", () => {
+  const originalEnv = process.env;
+  let server: Server;
+  let rpcUrl: string;
+
+  beforeAll(async () => {
+    ({ server, url: rpcUrl } = await startStubRpc());
+  });
+
+  afterAll(
+    () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      })
+  );
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv, RPC_URLS: `ethereum=${rpcUrl}` };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe("decodeDataUri", () => {
+    it("decodes base64, URL-encoded and raw data URIs", () => {
+      const { decodeDataUri } = require("../../src/api/onchain");
+
+      expect(decodeDataUri("data:application/json;base64,eyJhIjoxfQ==")).toBe(
+        '{"a":1}'
+      );
+      expect(decodeDataUri("data:application/json,%7B%22a%22%3A1%7D")).toBe(
+        '{"a":1}'
+      );
+      expect(decodeDataUri('data:application/json;utf8,{"a":"100%"}')).toBe(
+        '{"a":"100%"}'
+      );
+      expect(decodeDataUri("https://example.com/1.json")).toBeUndefined();
+    });
+  });
+
+  describe("fetchOnchainNFT", () => {
+    it("reads an ERC-721 owner and on-chain metadata", async () => {
+      const { fetchOnchainNFT } = require("../../src/api/onchain");
+      const log: Log = [];
+
+      const nft = await fetchOnchainNFT(collection(GLYPHBOTS), 1, log);
+
+      expect(nft).toEqual({
+        name: "GlyphBot #1 - Vector the Kind",
+        owners: [{ address: OWNER, quantity: 1 }],
+        opensea_url: `https://opensea.io/assets/ethereum/${GLYPHBOTS}/1`,
+        // Kept so the SVG can be rendered to a PNG
+        image_url: glyphbotMetadata.image,
+        animation_url: undefined,
+        token_standard: "erc721",
+        traits: [
+          { trait_type: "Hat", value: "Cap" },
+          { trait_type: "Eyes", value: "Laser" },
+        ],
+        onchain: true,
+      });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("reads ERC-1155 metadata from the uri with the ID filled in", async () => {
+      fetchMock.mockImplementationOnce(() =>
+        metadataResponse(
+          JSON.stringify({ name: "Edition 10", image: "ipfs://Qm123/10.png" })
+        )
+      );
+      const { fetchOnchainNFT } = require("../../src/api/onchain");
+
+      const nft = await fetchOnchainNFT(collection(EDITIONS), 16, []);
+
+      expect(String(fetchMock.mock.calls[0][0])).toBe(
+        `https://meta.example.com/${"10".padStart(64, "0")}.json`
+      );
+      expect(nft.owners).toBeUndefined();
+      expect(nft.token_standard).toBe("erc1155");
+      expect(nft.image_url).toBe("https://ipfs.io/ipfs/Qm123/10.png");
+    });
+
+    it("tries the next gateway when metadata can't be fetched", async () => {
+      contracts.set(IPFS_EDITIONS, {
+        erc1155: true,
+        owners: new Map(),
+        uri: () => "ipfs://QmMeta/{id}",
+      });
+      fetchMock
+        .mockImplementationOnce(() => metadataResponse("", 504))
+        .mockImplementationOnce(() =>
+          metadataResponse(JSON.stringify({ name: "Edition 1" }))
+        );
+      const { fetchOnchainNFT } = require("../../src/api/onchain");
+
+      const nft = await fetchOnchainNFT(collection(IPFS_EDITIONS), 1, []);
+
+      const id = "1".padStart(64, "0");
+      expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual([
+        `https://ipfs.io/ipfs/QmMeta/${id}`,
+        `https://dweb.link/ipfs/QmMeta/${id}`,
+      ]);
+      expect(nft.name).toBe("Edition 1");
+    });
+
+    it("skips metadata larger than the limit without a content-length", async () => {
+      const { MAX_MEDIA_ATTACHMENT_BYTES } = jest.requireActual(
+        "../../src/config/constants"
+      );
+      fetchMock.mockImplementationOnce(() =>
+        metadataResponse(
+          JSON.stringify({
+            name: "Edition 16",
+            padding: "x".repeat(MAX_MEDIA_ATTACHMENT_BYTES),
+          })
+        )
+      );
+      const { fetchOnchainNFT } = require("../../src/api/onchain");
+
+      const nft = await fetchOnchainNFT(collection(EDITIONS), 16, []);
+
+      expect(nft.name).toBeUndefined();
+      expect(nft.token_standard).toBe("erc1155");
+    });
+
+    it("returns undefined for tokens that don't exist", async () => {
+      const { fetchOnchainNFT } = require("../../src/api/onchain");
+
+      expect(
+        await fetchOnchainNFT(collection(GLYPHBOTS), 2, [])
+      ).toBeUndefined();
+    });
+
+    it("returns undefined without an RPC for the chain", async () => {
+      const { fetchOnchainNFT } = require("../../src/api/onchain");
+
+      expect(
+        await fetchOnchainNFT(
+          { ...collection(GLYPHBOTS), chain: "base" },
+          1,
+          []
+        )
+      ).toBeUndefined();
+    });
+  });
+
+  describe("fetchNFT fallback", () => {
+    it("builds a degraded embed when OpenSea is down", async () => {
+      fetchMock.mockResponse("", { status: 503 });
+      const { buildEmbed } = require("../../src/embed/embed");
+      const log: Log = [];
+
+      const built = await buildEmbed(collection(GLYPHBOTS), 1, log);
+      const embed = built.embed.toJSON();
+
+      expect(embed.title).toBe("GlyphBots #1");
+      expect(embed.description).toBe("**Vector the Kind**");
+      expect(embed.footer?.text).toBe(
+        "OpenSea unavailable: showing on-chain data"
+      );
+      const names = embed.fields.map((f: { name: string }) => f.name);
+      expect(names).toContain("Owner");
+      expect(names).not.toContain("Last Sale");
+      expect(names).not.toContain("Floor");
+      expect(
+        embed.fields.find((f: { name: string }) => f.name === "Owner")
+      ).toMatchObject({ value: "0x00a83…f8237" });
+    });
+
+    it("attaches on-chain SVG images rendered to PNGs", async () => {
+      const stateDir = mkdtempSync(join(tmpdir(), "svg-renders-"));
+      process.env = {
+        ...process.env,
+        SVG_RENDER_SIZE: "32",
+        STATE_DIR: stateDir,
+      };
+      fetchMock.mockResponse("", { status: 503 });
+      const { buildEmbed } = require("../../src/embed/embed");
+
+      const built = await buildEmbed(collection(GLYPHBOTS), 1, []);
+      rmSync(stateDir, { recursive: true, force: true });
+
+      expect(built.embed.toJSON().image?.url).toBe("attachment://nft-1.png");
+      expect(built.files.map((file: { name: string }) => file.name)).toEqual([
+        "nft-1.png",
+      ]);
+    });
+
+    it("still throws NFTNotFoundError when the token can't be read", async () => {
+      fetchMock.mockResponse("", { status: 503 });
+      const { fetchNFT, NFTNotFoundError } = require("../../src/api/opensea");
+
+      await expect(
+        fetchNFT(collection(GLYPHBOTS), 2, [])
+      ).rejects.toBeInstanceOf(NFTNotFoundError);
+    });
+  });
+});
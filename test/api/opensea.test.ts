@@ -184,6 +184,57 @@ describe("opensea", () => {
     });
   });
 
+  describe("fetchCollectionStats", () => {
+    const statsResponse = {
+      total: { floor_price: 0.356, floor_price_symbol: "ETH" },
+      intervals: [],
+    };
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("fetches stats by slug", async () => {
+      const log: Log = [];
+      fetchMock.mockResponseOnce(JSON.stringify(statsResponse));
+
+      const { fetchCollectionStats } = require("../../src/api/opensea");
+      const stats = await fetchCollectionStats("glyphbots", log);
+
+      expect(stats?.total.floor_price).toBe(0.356);
+      expect(fetchMock.mock.calls.at(0)?.at(0)).toBe(
+        "https://api.opensea.io/api/v2/collections/glyphbots/stats"
+      );
+    });
+
+    it("caches stats until the TTL expires", async () => {
+      jest.useFakeTimers();
+      const log: Log = [];
+      fetchMock.mockResponse(JSON.stringify(statsResponse));
+
+      const { fetchCollectionStats } = require("../../src/api/opensea");
+      const { COLLECTION_STATS_TTL_MS } = require("../../src/config/constants");
+
+      await fetchCollectionStats("glyphbots", log);
+      await fetchCollectionStats("glyphbots", log);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(COLLECTION_STATS_TTL_MS);
+      await fetchCollectionStats("glyphbots", log);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("returns undefined on error", async () => {
+      const log: Log = [];
+      fetchMock.mockResponseOnce("Error", { status: 500 });
+
+      const { fetchCollectionStats } = require("../../src/api/opensea");
+      const stats = await fetchCollectionStats("invalid-slug", log);
+
+      expect(stats).toBeUndefined();
+    });
+  });
+
   describe("fetchNFT", () => {
     it("returns NFT data for GlyphBots", async () => {
       const log: Log = [];
@@ -260,6 +311,125 @@ describe("opensea", () => {
     });
   });
 
+  describe("fetchSaleHistory", () => {
+    it("follows the next cursor", async () => {
+      const log: Log = [];
+      const [sale] = eventsFixture.asset_events;
+      fetchMock.mockResponses(
+        JSON.stringify({ asset_events: [sale], next: "cursor-1" }),
+        JSON.stringify({ asset_events: [sale, sale], next: null })
+      );
+
+      const {
+        fetchSaleHistory: fetchHistoryLocal,
+      } = require("../../src/api/opensea");
+      const { sales, truncated } = await fetchHistoryLocal(
+        glyphbotsCollection,
+        1533,
+        log
+      );
+
+      expect(sales).toHaveLength(3);
+      expect(truncated).toBe(false);
+      expect(fetchMock.mock.calls).toHaveLength(2);
+      const secondUrl = String(fetchMock.mock.calls[1][0]);
+      expect(secondUrl).toContain("event_type=sale");
+      expect(secondUrl).toContain("next=cursor-1");
+    });
+
+    it("marks the history as truncated when a later page fails", async () => {
+      const [sale] = eventsFixture.asset_events;
+      fetchMock.mockResponses(
+        JSON.stringify({ asset_events: [sale], next: "cursor-1" }),
+        ["", { status: 500 }]
+      );
+
+      const {
+        fetchSaleHistory: fetchHistoryLocal,
+      } = require("../../src/api/opensea");
+      const { sales, truncated } = await fetchHistoryLocal(
+        glyphbotsCollection,
+        1533,
+        []
+      );
+
+      expect(sales).toHaveLength(1);
+      expect(truncated).toBe(true);
+    });
+
+    it("stops after the page limit", async () => {
+      const log: Log = [];
+      fetchMock.mockResponse(
+        JSON.stringify({ asset_events: [], next: "more" })
+      );
+
+      const {
+        fetchSaleHistory: fetchHistoryLocal,
+      } = require("../../src/api/opensea");
+      const { HISTORY_MAX_PAGES } = require("../../src/config/constants");
+      const { truncated } = await fetchHistoryLocal(testCollection, 1, log);
+
+      expect(fetchMock.mock.calls).toHaveLength(HISTORY_MAX_PAGES);
+      expect(truncated).toBe(true);
+    });
+  });
+
+  describe("fetchHoldings", () => {
+    const owner = "0x00a839de7922491683f547a67795204763ff8237";
+
+    it("counts every page and caches the result", async () => {
+      const log: Log = [];
+      const { nfts } = accountNFTsFixture;
+      fetchMock.mockResponses(
+        JSON.stringify({ nfts, next: "cursor-1" }),
+        JSON.stringify({ nfts: nfts.slice(0, 2), next: null })
+      );
+
+      const { fetchHoldings } = require("../../src/api/opensea");
+      const holdings = await fetchHoldings(owner, "ethereum", "glyphbots", log);
+
+      expect(holdings).toEqual({ count: nfts.length + 2, truncated: false });
+      expect(fetchMock.mock.calls).toHaveLength(2);
+      const secondUrl = String(fetchMock.mock.calls[1][0]);
+      expect(secondUrl).toContain("collection=glyphbots");
+      expect(secondUrl).toContain("next=cursor-1");
+
+      // Cached by owner and collection
+      await fetchHoldings(owner, "ethereum", "glyphbots", log);
+      expect(fetchMock.mock.calls).toHaveLength(2);
+    });
+
+    it("marks the count as truncated after the page limit", async () => {
+      const log: Log = [];
+      fetchMock.mockResponse(
+        JSON.stringify({ nfts: accountNFTsFixture.nfts, next: "more" })
+      );
+
+      const { fetchHoldings } = require("../../src/api/opensea");
+      const { HOLDINGS_MAX_PAGES } = require("../../src/config/constants");
+      const holdings = await fetchHoldings(owner, "ethereum", "glyphbots", log);
+
+      expect(fetchMock.mock.calls).toHaveLength(HOLDINGS_MAX_PAGES);
+      expect(holdings).toEqual({
+        count: accountNFTsFixture.nfts.length * HOLDINGS_MAX_PAGES,
+        truncated: true,
+      });
+    });
+
+    it("returns undefined when a page fails", async () => {
+      const log: Log = [];
+      fetchMock.mockResponses(
+        JSON.stringify({ nfts: accountNFTsFixture.nfts, next: "cursor-1" }),
+        ["", { status: 500 }]
+      );
+
+      const { fetchHoldings } = require("../../src/api/opensea");
+      const holdings = await fetchHoldings(owner, "ethereum", "glyphbots", log);
+
+      expect(holdings).toBeUndefined();
+    });
+  });
+
   describe("fetchBestOffer", () => {
     it("returns best offer data", async () => {
       const log: Log = [];
@@ -385,6 +555,44 @@ describe("opensea", () => {
 
       expect(username).toContain("0x12345");
     });
+
+    it("falls back to ENS name when there is no username", async () => {
+      const log: Log = [];
+      const address = "0x1234567890abcdef1234567890abcdef12345678";
+      fetchMock.mockResponseOnce(JSON.stringify({ address }));
+
+      const { setRpcProvider } = require("../../src/api/rpc");
+      const lookupAddress = jest.fn().mockResolvedValue("test.eth");
+      setRpcProvider("ethereum", { lookupAddress });
+      const {
+        getUsername: getUsernameLocal,
+      } = require("../../src/api/opensea");
+
+      expect(await getUsernameLocal(address, log)).toBe("test.eth");
+      expect(lookupAddress).toHaveBeenCalledWith(address);
+
+      // Cached: no second account fetch or ENS lookup
+      expect(await getUsernameLocal(address, log)).toBe("test.eth");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(lookupAddress).toHaveBeenCalledTimes(1);
+    });
+
+    it("prefers OpenSea username over ENS name", async () => {
+      const log: Log = [];
+      fetchMock.mockResponseOnce(JSON.stringify(accountFixture));
+
+      const { setRpcProvider } = require("../../src/api/rpc");
+      const lookupAddress = jest.fn().mockResolvedValue("test.eth");
+      setRpcProvider("ethereum", { lookupAddress });
+      const {
+        getUsername: getUsernameLocal,
+      } = require("../../src/api/opensea");
+
+      expect(await getUsernameLocal(accountFixture.address, log)).toBe(
+        "ralx_z"
+      );
+      expect(lookupAddress).not.toHaveBeenCalled();
+    });
   });
 
   describe("urls.accountNFTs", () => {
@@ -408,6 +616,16 @@ describe("opensea", () => {
       );
       expect(url).toContain("collection=glyphbots");
     });
+
+    it("builds account NFTs URL with a page cursor", () => {
+      const url = urls.accountNFTs(
+        "ethereum",
+        "0x00a839de7922491683f547a67795204763ff8237",
+        "glyphbots",
+        "cursor-1"
+      );
+      expect(url).toContain("next=cursor-1");
+    });
   });
 
   describe("fetchAccountAddress", () => {
@@ -0,0 +1,152 @@
+import fetchMock from "jest-fetch-mock";
+import type { PriceOracle } from "../../src/api/price-oracle";
+
+/** Local oracle with fixed rates (no network) */
+const createStubOracle = (rates: Record<string, number>) => {
+  const calls: string[][] = [];
+  const oracle: PriceOracle = {
+    name: "Stub",
+    getRates: (symbols) => {
+      calls.push(symbols);
+      return Promise.resolve(
+        new Map(
+          symbols
+            .filter((s) => rates[s] !== undefined)
+            .map((s) => [s, rates[s]])
+        )
+      );
+    },
+  };
+  return { oracle, calls };
+};
+
+describe("price oracle", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = {
+      ...originalEnv,
+      FIAT_CURRENCY: "usd",
+      FIAT_CURRENCY_111: "eur",
+      FIAT_CURRENCY_222: "none",
+    };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  const loadOracle = () => jest.requireActual("../../src/api/price-oracle");
+
+  describe("getFiatCurrency", () => {
+    it("uses per-guild currencies with a global default", () => {
+      const { getFiatCurrency } = loadOracle();
+      expect(getFiatCurrency()).toBe("usd");
+      expect(getFiatCurrency({ guildId: "999" })).toBe("usd");
+      expect(getFiatCurrency({ guildId: "111" })).toBe("eur");
+      expect(getFiatCurrency({ guildId: "222" })).toBeUndefined();
+    });
+
+    it("is off when FIAT_CURRENCY is unset", () => {
+      process.env.FIAT_CURRENCY = undefined;
+      const { getFiatCurrency } = loadOracle();
+      expect(getFiatCurrency()).toBeUndefined();
+      expect(getFiatCurrency({ guildId: "111" })).toBe("eur");
+    });
+  });
+
+  describe("getFiatRates", () => {
+    it("normalizes wrapped tokens and caches rates", async () => {
+      const { getFiatRates, setPriceOracle } = loadOracle();
+      const { oracle, calls } = createStubOracle({ ETH: 3000, USDC: 1 });
+      setPriceOracle(oracle);
+
+      const first = await getFiatRates(["ETH", "WETH", "USDC"]);
+      expect(first?.currency).toBe("usd");
+      expect(first?.rates.get("ETH")).toBe(3000);
+      expect(calls).toEqual([["ETH", "USDC"]]);
+
+      const second = await getFiatRates(["WETH"]);
+      expect(second?.rates.get("ETH")).toBe(3000);
+      expect(calls).toHaveLength(1);
+    });
+
+    it("returns undefined when conversion is off", async () => {
+      const { getFiatRates, setPriceOracle } = loadOracle();
+      const { oracle, calls } = createStubOracle({ ETH: 3000 });
+      setPriceOracle(oracle);
+
+      expect(await getFiatRates(["ETH"], { guildId: "222" })).toBeUndefined();
+      expect(calls).toHaveLength(0);
+    });
+
+    it("returns no rates when the oracle fails", async () => {
+      const { getFiatRates, setPriceOracle } = loadOracle();
+      setPriceOracle({
+        name: "Broken",
+        getRates: () => Promise.reject(new Error("down")),
+      });
+
+      const fiat = await getFiatRates(["ETH"]);
+      expect(fiat?.rates.size).toBe(0);
+    });
+
+    it("falls back to the last known rates when the oracle fails", async () => {
+      const { getFiatRates, setPriceOracle } = loadOracle();
+      const { FIAT_RATE_TTL_MS } = jest.requireActual(
+        "../../src/config/constants"
+      );
+      let available = true;
+      setPriceOracle({
+        name: "Flaky",
+        getRates: () =>
+          available
+            ? Promise.resolve(new Map([["ETH", 3000]]))
+            : Promise.reject(new Error("timed out")),
+      });
+      const now = Date.now();
+      const dateNow = jest.spyOn(Date, "now").mockReturnValue(now);
+
+      expect((await getFiatRates(["ETH"]))?.rates.get("ETH")).toBe(3000);
+      available = false;
+      dateNow.mockReturnValue(now + FIAT_RATE_TTL_MS + 1);
+      expect((await getFiatRates(["ETH"]))?.rates.get("ETH")).toBe(3000);
+      dateNow.mockRestore();
+    });
+  });
+
+  describe("coinGeckoOracle", () => {
+    it("requests rates with a timeout", async () => {
+      fetchMock.mockResponseOnce(JSON.stringify({ ethereum: { usd: 3000 } }));
+      const { coinGeckoOracle } = loadOracle();
+
+      const rates = await coinGeckoOracle.getRates(["ETH", "FOO"], "usd");
+
+      expect(rates).toEqual(new Map([["ETH", 3000]]));
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(String(url)).toContain("ids=ethereum");
+      expect(init?.signal).toBeInstanceOf(AbortSignal);
+    });
+  });
+
+  describe("formatFiat", () => {
+    it("formats amounts in the currency", () => {
+      const { formatFiat } = loadOracle();
+      const usd = { currency: "usd", rates: new Map([["ETH", 3041.2]]) };
+      const eur = { currency: "eur", rates: new Map([["USDC", 0.9]]) };
+
+      expect(formatFiat(0.267, "ETH", usd)).toBe("~$812");
+      expect(formatFiat(0.001, "WETH", usd)).toBe("~$3.04");
+      expect(formatFiat(10, "USDC", eur)).toBe("~€9.00");
+    });
+
+    it("returns undefined without a rate", () => {
+      const { formatFiat } = loadOracle();
+      const usd = { currency: "usd", rates: new Map([["ETH", 3000]]) };
+
+      expect(formatFiat(1, "APE", usd)).toBeUndefined();
+      expect(formatFiat(1, "ETH", undefined)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import fetchMock from "jest-fetch-mock";
+import type { CollectionConfig, NFT } from "../../src/lib/types";
+
+const collection = (prefix: string): CollectionConfig => ({
+  prefix,
+  address: `0x${prefix || "main"}`,
+  name: prefix || "Main",
+  chain: "ethereum",
+  minTokenId: 1,
+  maxTokenId: 3,
+});
+
+const nft = (traits: NFT["traits"], rank?: number): NFT => ({
+  opensea_url: "https://opensea.io/item",
+  traits,
+  rarity: rank ? { strategy_id: "openrarity", rank } : undefined,
+});
+
+/** Respond to OpenSea requests by URL */
+const mockOpenSea = (responses: Record<string, unknown>): void => {
+  fetchMock.mockResponse((req) => {
+    const match = Object.entries(responses).find(([path]) =>
+      req.url.endsWith(path)
+    );
+    return Promise.resolve(
+      match ? JSON.stringify(match[1]) : { status: 404, body: "Not found" }
+    );
+  });
+};
+
+/** Build the local indexes for the configured collections (takes RARITY_INDEX_DELAY_MS per token) */
+const indexCollections = async (): Promise<void> => {
+  const { startRarityIndexing } = jest.requireActual("../../src/api/rarity");
+  const { initCollections } = jest.requireActual("../../src/config/collection");
+  initCollections();
+
+  await startRarityIndexing();
+};
+
+/** OpenSea responses for a 3-token collection */
+const tokens: Record<string, unknown> = {
+  "/nfts/1": { nft: nft([{ trait_type: "Eyes", value: "Laser" }]) },
+  "/nfts/2": { nft: nft([{ trait_type: "Eyes", value: "Normal" }]) },
+  "/nfts/3": { nft: nft([{ trait_type: "Eyes", value: "Normal" }]) },
+};
+
+describe("getRarity", () => {
+  const originalEnv = process.env;
+  let stateDir: string;
+
+  beforeEach(() => {
+    jest.resetModules();
+    fetchMock.resetMocks();
+    stateDir = mkdtempSync(join(tmpdir(), "rarity-"));
+    process.env = {
+      ...originalEnv,
+      COLLECTION_RARITY: "default=opensea,art=local",
+      COLLECTIONS: "0xmain:Main:1:3,art:0xart:Art:1:3",
+      STATE_DIR: stateDir,
+    };
+    jest.requireActual("../../src/config/collection").initCollections();
+  });
+
+  afterEach(() => {
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it("returns undefined for collections without rarity", async () => {
+    const { getRarity } = jest.requireActual("../../src/api/rarity");
+    const result = await getRarity(collection("other"), 1, nft([]), []);
+    expect(result).toBeUndefined();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("doesn't use a prefix's source for another contract", async () => {
+    const { getRarity } = jest.requireActual("../../src/api/rarity");
+    // e.g. a guild collection reusing the "art" prefix
+    const other = { ...collection("art"), address: "0xother" };
+    expect(await getRarity(other, 1, nft([]), [])).toBeUndefined();
+  });
+
+  it("uses OpenSea's rank and trait counts", async () => {
+    mockOpenSea({
+      "/contract/0xmain": { collection: "main" },
+      "/collections/main": {
+        collection: "main",
+        name: "Main",
+        total_supply: 200,
+        rarity: { total_supply: 200, max_rank: 200 },
+      },
+      "/traits/main": {
+        categories: { Eyes: "string" },
+        counts: {
+          Eyes: { Laser: 5, Normal: 195 },
+          Hat: { Cap: 20, Crown: 2 },
+        },
+      },
+    });
+
+    const { getRarity, traitPercentKey } = jest.requireActual(
+      "../../src/api/rarity"
+    );
+    const traits = [
+      { trait_type: "Eyes", value: "Laser" },
+      { trait_type: "Hat", value: "Cap" },
+      { trait_type: "Hat", value: "Crown" },
+    ];
+    const result = await getRarity(collection(""), 1, nft(traits, 12), []);
+
+    expect(result?.rank).toBe(12);
+    expect(result?.total).toBe(200);
+    const percents = traits.map((trait) =>
+      result?.traitPercents.get(traitPercentKey(trait))
+    );
+    // Each value of a repeated trait type has its own percentage
+    expect(percents).toEqual([2.5, 10, 1]);
+  });
+
+  it("falls back to the local index when OpenSea has no rank", async () => {
+    mockOpenSea({ "/contract/0xart": { collection: "art" }, ...tokens });
+    process.env.COLLECTIONS = "art:0xart:Art:1:3";
+    await indexCollections();
+
+    const { getRarity, traitPercentKey } = jest.requireActual(
+      "../../src/api/rarity"
+    );
+    const laser = { trait_type: "Eyes", value: "Laser" };
+    const result = await getRarity(collection("art"), 1, nft([laser]), []);
+
+    expect(result?.rank).toBe(1);
+    expect(result?.total).toBe(3);
+    expect(result?.traitPercents.get(traitPercentKey(laser))).toBeCloseTo(
+      33.3,
+      1
+    );
+  });
+
+  it("reuses the saved local index after a restart", async () => {
+    mockOpenSea({ "/contract/0xart": { collection: "art" }, ...tokens });
+    process.env.COLLECTIONS = "art:0xart:Art:1:3";
+    await indexCollections();
+
+    jest.resetModules();
+    fetchMock.mockClear();
+    await indexCollections();
+
+    const urls = fetchMock.mock.calls.map(([url]) => String(url));
+    expect(urls.some((url) => url.includes("/nfts/"))).toBe(false);
+    const { getRarity } = jest.requireActual("../../src/api/rarity");
+    const result = await getRarity(
+      collection("art"),
+      2,
+      nft([{ trait_type: "Eyes", value: "Normal" }]),
+      []
+    );
+    expect(result?.rank).toBe(2);
+    expect(result?.total).toBe(3);
+  });
+});
@@ -0,0 +1,126 @@
+import type { Provider } from "ethers";
+
+/** Stub provider answering reverse ENS lookups */
+const stubProvider = (lookupAddress: jest.Mock): Provider =>
+  ({ lookupAddress }) as unknown as Provider;
+
+const ADDRESS = "0x1234567890abcdef1234567890abcdef12345678";
+
+describe("rpc", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.useRealTimers();
+  });
+
+  describe("parseRpcUrls", () => {
+    it("parses chain=url entries", () => {
+      const { parseRpcUrls } = require("../../src/api/rpc");
+      const urls = parseRpcUrls(
+        "ethereum=https://eth.example.com, Base=https://base.example.com/rpc?key=a=b"
+      );
+
+      expect(urls.get("ethereum")).toBe("https://eth.example.com");
+      expect(urls.get("base")).toBe("https://base.example.com/rpc?key=a=b");
+    });
+
+    it("skips invalid entries", () => {
+      const { parseRpcUrls } = require("../../src/api/rpc");
+      const urls = parseRpcUrls("ethereum,=https://x.example.com,base=nope,");
+
+      expect(urls.size).toBe(0);
+    });
+
+    it("returns an empty map when unset", () => {
+      const { parseRpcUrls } = require("../../src/api/rpc");
+      expect(parseRpcUrls(undefined).size).toBe(0);
+    });
+  });
+
+  describe("getRpcProvider", () => {
+    it("creates a provider for configured chains only", () => {
+      process.env.RPC_URLS = "ethereum=http://127.0.0.1:8545";
+      const { getRpcProvider } = require("../../src/api/rpc");
+      const { JsonRpcProvider } = require("ethers");
+
+      const provider = getRpcProvider("ethereum");
+      expect(provider).toBeInstanceOf(JsonRpcProvider);
+      expect(getRpcProvider("ethereum")).toBe(provider);
+      expect(getRpcProvider("base")).toBeUndefined();
+    });
+
+    it("uses a provider set with setRpcProvider", () => {
+      const { getRpcProvider, setRpcProvider } = require("../../src/api/rpc");
+      const provider = stubProvider(jest.fn());
+
+      setRpcProvider("base", provider);
+      expect(getRpcProvider("base")).toBe(provider);
+
+      setRpcProvider("base", undefined);
+      expect(getRpcProvider("base")).toBeUndefined();
+    });
+  });
+
+  describe("lookupEnsName", () => {
+    it("returns the primary ENS name", async () => {
+      const { lookupEnsName, setRpcProvider } = require("../../src/api/rpc");
+      const lookupAddress = jest.fn().mockResolvedValue("test.eth");
+      setRpcProvider("ethereum", stubProvider(lookupAddress));
+
+      expect(await lookupEnsName(ADDRESS)).toBe("test.eth");
+      expect(lookupAddress).toHaveBeenCalledWith(ADDRESS);
+    });
+
+    it("returns undefined when the address has no name", async () => {
+      const { lookupEnsName, setRpcProvider } = require("../../src/api/rpc");
+      setRpcProvider(
+        "ethereum",
+        stubProvider(jest.fn().mockResolvedValue(null))
+      );
+
+      expect(await lookupEnsName(ADDRESS)).toBeUndefined();
+    });
+
+    it("returns undefined without an Ethereum RPC", async () => {
+      const { lookupEnsName } = require("../../src/api/rpc");
+      expect(await lookupEnsName(ADDRESS)).toBeUndefined();
+    });
+
+    it("returns undefined when the lookup fails", async () => {
+      const { lookupEnsName, setRpcProvider } = require("../../src/api/rpc");
+      setRpcProvider(
+        "ethereum",
+        stubProvider(jest.fn().mockRejectedValue(new Error("bad response")))
+      );
+
+      expect(await lookupEnsName(ADDRESS)).toBeUndefined();
+    });
+
+    it("returns undefined when the lookup times out", async () => {
+      jest.useFakeTimers();
+      const { lookupEnsName, setRpcProvider } = require("../../src/api/rpc");
+      const { RPC_TIMEOUT_MS } = require("../../src/config/constants");
+      setRpcProvider(
+        "ethereum",
+        stubProvider(
+          jest
+            .fn()
+            .mockReturnValue(
+              new Promise((resolve) => setTimeout(resolve, RPC_TIMEOUT_MS * 2))
+            )
+        )
+      );
+
+      const result = lookupEnsName(ADDRESS);
+      jest.advanceTimersByTime(RPC_TIMEOUT_MS);
+
+      expect(await result).toBeUndefined();
+    });
+  });
+});
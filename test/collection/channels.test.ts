@@ -0,0 +1,104 @@
+describe("channel allow/deny lists", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+    process.env.ALLOWED_CHANNELS = undefined;
+    process.env.DENIED_CHANNELS = undefined;
+    process.env.CHANNEL_DEFAULTS = undefined;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it("allows every channel when nothing is configured", () => {
+    const { isChannelAllowed } = jest.requireActual(
+      "../../src/config/channels"
+    );
+
+    expect(isChannelAllowed("123")).toBe(true);
+  });
+
+  it("only allows listed channels when an allow list is set", () => {
+    process.env.ALLOWED_CHANNELS = "123, 456";
+    const { isChannelAllowed } = jest.requireActual(
+      "../../src/config/channels"
+    );
+
+    expect(isChannelAllowed("123")).toBe(true);
+    expect(isChannelAllowed("456")).toBe(true);
+    expect(isChannelAllowed("789")).toBe(false);
+  });
+
+  it("denies listed channels even if they are also allowed", () => {
+    process.env.ALLOWED_CHANNELS = "123,456";
+    process.env.DENIED_CHANNELS = "456";
+    const { isChannelAllowed } = jest.requireActual(
+      "../../src/config/channels"
+    );
+
+    expect(isChannelAllowed("123")).toBe(true);
+    expect(isChannelAllowed("456")).toBe(false);
+  });
+});
+
+describe("per-channel default collections", () => {
+  const originalEnv = process.env;
+  const ARTIFACTS_CHANNEL = "555";
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+    process.env.COLLECTIONS =
+      "0xabc:MainNFT:1:100,artifact:0xdef:ArtifactsNFT:1:50";
+    process.env.CHANNEL_DEFAULTS = `${ARTIFACTS_CHANNEL}=Artifact, 666=missing, bad`;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it("parses channel defaults and skips invalid entries", () => {
+    const { getChannelDefaultPrefix, getChannelConfig } = jest.requireActual(
+      "../../src/config/channels"
+    );
+
+    expect(getChannelDefaultPrefix(ARTIFACTS_CHANNEL)).toBe("artifact");
+    expect(getChannelDefaultPrefix("999")).toBeUndefined();
+    expect(getChannelConfig().defaults).toHaveLength(2);
+  });
+
+  it("uses the channel's default collection when configured", () => {
+    const { initCollections: init, getDefaultCollection: getDefault } =
+      jest.requireActual("../../src/config/collection");
+
+    init();
+
+    expect(getDefault({ channelId: ARTIFACTS_CHANNEL }).name).toBe(
+      "ArtifactsNFT"
+    );
+    expect(getDefault({ channelId: "999" }).name).toBe("MainNFT");
+    // Unknown prefixes fall back to the normal default
+    expect(getDefault({ channelId: "666" }).name).toBe("MainNFT");
+  });
+
+  it("resolves unprefixed tokens to the channel's default", () => {
+    const { initCollections: init, parseMessageMatches: parse } =
+      jest.requireActual("../../src/config/collection");
+
+    init();
+
+    const matches = parse("#5 artifact#6", { channelId: ARTIFACTS_CHANNEL });
+    expect(
+      matches.map(
+        (m: { collection: { name: string }; tokenId: number }) =>
+          `${m.collection.name} #${m.tokenId}`
+      )
+    ).toEqual(["ArtifactsNFT #5", "ArtifactsNFT #6"]);
+
+    const elsewhere = parse("#5", { channelId: "999" });
+    expect(elsewhere[0].collection.name).toBe("MainNFT");
+  });
+});
@@ -382,6 +382,22 @@ describe("getHelpText", () => {
     expect(text).toContain("MainNFT");
     expect(text).toContain("`art#1234`");
     expect(text).toContain("ArtNFT");
+    expect(text).toContain("(1-100)");
+  });
+
+  it("lists a channel's default collection with the unprefixed syntax", () => {
+    process.env.COLLECTIONS = "0xabc:MainNFT:1:100,art:0xdef:ArtNFT:1:50";
+    process.env.CHANNEL_DEFAULTS = "555=art";
+    const { initCollections: init, getHelpText: help } = jest.requireActual(
+      "../../src/config/collection"
+    );
+
+    init();
+    const text = help({ channelId: "555" });
+
+    expect(text).toContain("• `#1234` or `art#1234` - ArtNFT (1-50)");
+    // The global default has no trigger in this channel
+    expect(text).not.toContain("MainNFT");
   });
 });
 
@@ -593,3 +609,196 @@ describe("parseMessageMatches with dynamic supply", () => {
     expect(matches.length).toBe(0);
   });
 });
+
+describe("per-guild collections", () => {
+  const originalEnv = process.env;
+  const GUILD_ID = "111111111111111111";
+  const OTHER_GUILD_ID = "222222222222222222";
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+    process.env.COLLECTIONS = "0xabc:GlobalNFT:1:100,art:0xdef:GlobalArt:1:50";
+    process.env[`GUILD_COLLECTIONS_${GUILD_ID}`] =
+      "0x123:GuildNFT:1:500,pfp:0x456:GuildPFP:0:9999";
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it("uses the guild's own default collection and prefixes", () => {
+    const { initCollections: init, getDefaultCollection: getDefault } =
+      jest.requireActual("../../src/config/collection");
+    const { getCollectionByPrefix: getByPrefix, getCollections: getAll } =
+      jest.requireActual("../../src/config/collection");
+
+    init();
+
+    expect(getDefault({ guildId: GUILD_ID }).name).toBe("GuildNFT");
+    expect(getByPrefix("pfp", { guildId: GUILD_ID }).name).toBe("GuildPFP");
+    expect(getByPrefix("art", { guildId: GUILD_ID })).toBeUndefined();
+    expect(getAll({ guildId: GUILD_ID })).toHaveLength(2);
+  });
+
+  it("falls back to the global set for guilds without config", () => {
+    const { initCollections: init, getDefaultCollection: getDefault } =
+      jest.requireActual("../../src/config/collection");
+    const { getCollectionByPrefix: getByPrefix } = jest.requireActual(
+      "../../src/config/collection"
+    );
+
+    init();
+
+    expect(getDefault({ guildId: OTHER_GUILD_ID }).name).toBe("GlobalNFT");
+    expect(getDefault().name).toBe("GlobalNFT");
+    expect(getByPrefix("art", { guildId: OTHER_GUILD_ID }).name).toBe(
+      "GlobalArt"
+    );
+  });
+
+  it("parses messages against the guild's collection set", () => {
+    const { initCollections: init, parseMessageMatches: parse } =
+      jest.requireActual("../../src/config/collection");
+
+    init();
+
+    const guildMatches = parse("#400 pfp#7 art#5", { guildId: GUILD_ID });
+    expect(
+      guildMatches.map(
+        (m: { collection: { name: string }; tokenId: number }) =>
+          `${m.collection.name} #${m.tokenId}`
+      )
+      // "art" is not a prefix in this guild, so art#5 resolves to the default
+    ).toEqual(["GuildNFT #400", "GuildPFP #7", "GuildNFT #5"]);
+
+    // #400 is out of range for the global default collection
+    const globalMatches = parse("#400 art#5", { guildId: OTHER_GUILD_ID });
+    expect(globalMatches).toHaveLength(1);
+    expect(globalMatches.at(0).collection.name).toBe("GlobalArt");
+  });
+
+  it("parses username matches against the guild's collection set", () => {
+    const { initCollections: init, parseUsernameMatches: parse } =
+      jest.requireActual("../../src/config/collection");
+
+    init();
+
+    const matches = parse("pfp#someuser", { guildId: GUILD_ID });
+    expect(matches).toHaveLength(1);
+    expect(matches.at(0).collection.name).toBe("GuildPFP");
+  });
+
+  it("lists every collection across all sets", () => {
+    const { initCollections: init, getAllCollections: getAll } =
+      jest.requireActual("../../src/config/collection");
+    const { getConfiguredGuildIds: getGuildIds } = jest.requireActual(
+      "../../src/config/collection"
+    );
+
+    init();
+
+    expect(getAll()).toHaveLength(4);
+    expect(getGuildIds()).toEqual([GUILD_ID]);
+  });
+
+  it("allows guild-only configuration without a global set", () => {
+    process.env.COLLECTIONS = undefined;
+    const { initCollections: init, getDefaultCollection: getDefault } =
+      jest.requireActual("../../src/config/collection");
+
+    expect(() => init()).not.toThrow();
+    expect(getDefault({ guildId: GUILD_ID }).name).toBe("GuildNFT");
+    expect(getDefault()).toBeUndefined();
+  });
+});
+
+describe("runtime collection changes", () => {
+  const originalEnv = process.env;
+  const GUILD_ID = "111111111111111111";
+  const OTHER_GUILD_ID = "222222222222222222";
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+    process.env.COLLECTIONS = "0xabc:GlobalNFT:1:100,art:0xdef:GlobalArt:1:50";
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it("adds a collection to one guild only", () => {
+    const {
+      initCollections: init,
+      setGuildCollection: set,
+      getCollectionByPrefix: getByPrefix,
+      parseMessageMatches: parse,
+    } = jest.requireActual("../../src/config/collection");
+
+    init();
+    set(GUILD_ID, {
+      prefix: "pfp",
+      address: "0x123",
+      name: "GuildPFP",
+      chain: "ethereum",
+      minTokenId: 0,
+      maxTokenId: 10,
+    });
+
+    expect(getByPrefix("pfp", { guildId: GUILD_ID }).name).toBe("GuildPFP");
+    // The guild keeps the global collections it started from
+    expect(getByPrefix("art", { guildId: GUILD_ID }).name).toBe("GlobalArt");
+    expect(getByPrefix("pfp", { guildId: OTHER_GUILD_ID })).toBeUndefined();
+    expect(getByPrefix("pfp")).toBeUndefined();
+    // New prefixes are picked up by message parsing right away
+    expect(parse("pfp#3", { guildId: GUILD_ID })[0].collection.name).toBe(
+      "GuildPFP"
+    );
+  });
+
+  it("removes a collection from one guild only", () => {
+    const {
+      initCollections: init,
+      removeGuildCollection: remove,
+      getCollectionByPrefix: getByPrefix,
+    } = jest.requireActual("../../src/config/collection");
+
+    init();
+
+    expect(remove(GUILD_ID, "art")).toBe(true);
+    expect(remove(GUILD_ID, "art")).toBe(false);
+    expect(getByPrefix("art", { guildId: GUILD_ID })).toBeUndefined();
+    expect(getByPrefix("art").name).toBe("GlobalArt");
+  });
+
+  it("applies persisted overrides", () => {
+    const {
+      initCollections: init,
+      applyCollectionOverrides: apply,
+      getCollections: getAll,
+      getAllCollections: getEvery,
+    } = jest.requireActual("../../src/config/collection");
+
+    init();
+    apply({
+      [GUILD_ID]: {
+        "": {
+          prefix: "",
+          address: "0x999",
+          name: "GuildDefault",
+          chain: "ethereum",
+          minTokenId: 1,
+          maxTokenId: 5,
+        },
+        art: null,
+      },
+    });
+
+    expect(
+      getAll({ guildId: GUILD_ID }).map((c: { name: string }) => c.name)
+    ).toEqual(["GuildDefault"]);
+    // Shared collections are only listed once
+    expect(getEvery()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,64 @@
+const nsfw = { opensea_url: "https://opensea.io/item", is_nsfw: true };
+
+describe("content policy", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+    process.env.NSFW_POLICY = undefined;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it("shows NSFW tokens by default", () => {
+    const { getNsfwPolicy, getNsfwAction } = jest.requireActual(
+      "../../src/config/content-policy"
+    );
+
+    expect(getNsfwPolicy()).toBe("show");
+    expect(getNsfwAction(nsfw)).toBe("show");
+  });
+
+  it("prefers channel policies over guild policies and the default", () => {
+    process.env.NSFW_POLICY = "hide";
+    process.env.NSFW_POLICY_111 = "Spoiler";
+    process.env.NSFW_POLICY_222 = "refuse";
+    process.env.NSFW_POLICY_333 = "blur";
+    const { getNsfwPolicy } = jest.requireActual(
+      "../../src/config/content-policy"
+    );
+
+    expect(getNsfwPolicy({ guildId: "111", channelId: "222" })).toBe("refuse");
+    expect(getNsfwPolicy({ guildId: "111", channelId: "999" })).toBe("spoiler");
+    // Invalid policies are ignored
+    expect(getNsfwPolicy({ guildId: "333" })).toBe("hide");
+    expect(getNsfwPolicy()).toBe("hide");
+  });
+
+  it("only shows NSFW tokens in NSFW channels with nsfw-channels", () => {
+    process.env.NSFW_POLICY = "nsfw-channels";
+    const { getNsfwAction } = jest.requireActual(
+      "../../src/config/content-policy"
+    );
+
+    expect(getNsfwAction(nsfw, { channelId: "1", nsfw: true })).toBe("show");
+    expect(getNsfwAction(nsfw, { channelId: "1", nsfw: false })).toBe("refuse");
+    expect(getNsfwAction({ ...nsfw, is_nsfw: false })).toBe("show");
+  });
+
+  it("flags disabled, NSFW and suspicious tokens", () => {
+    const { isFlaggedNFT } = jest.requireActual(
+      "../../src/config/content-policy"
+    );
+    const nft = { opensea_url: "https://opensea.io/item" };
+
+    expect(isFlaggedNFT(nft)).toBe(false);
+    expect(isFlaggedNFT({ ...nft, is_disabled: false })).toBe(false);
+    expect(isFlaggedNFT(nsfw)).toBe(true);
+    expect(isFlaggedNFT({ ...nft, is_disabled: true })).toBe(true);
+    expect(isFlaggedNFT({ ...nft, is_suspicious: true })).toBe(true);
+  });
+});
@@ -59,6 +59,54 @@ describe("parseMessageMatches", () => {
     expect(matches.length).toBe(0);
   });
 
+  it("matches the history keyword after a token ID", () => {
+    const { parseMessageMatches: parse } = jest.requireActual(
+      "../../src/config/collection"
+    );
+    const matches = parse("#42 history and #43 historic");
+
+    expect(matches.length).toBe(2);
+    expect(matches.at(0)).toMatchObject({ tokenId: 42, mode: "history" });
+    expect(matches.at(1).tokenId).toBe(43);
+    expect(matches.at(1).mode).toBeUndefined();
+  });
+
+  it("matches the history keyword in any case", () => {
+    const { parseMessageMatches: parse } = jest.requireActual(
+      "../../src/config/collection"
+    );
+
+    expect(parse("#5 History").at(0)).toMatchObject({ mode: "history" });
+    expect(parse("#5 HISTORY").at(0)).toMatchObject({ mode: "history" });
+  });
+
+  it("matches the provenance keyword after a token ID", () => {
+    const { parseMessageMatches: parse } = jest.requireActual(
+      "../../src/config/collection"
+    );
+    const matches = parse("#7 provenance");
+
+    expect(matches.at(0)).toMatchObject({ tokenId: 7, mode: "provenance" });
+  });
+
+  it("matches the provenance keyword in any case", () => {
+    const { parseMessageMatches: parse } = jest.requireActual(
+      "../../src/config/collection"
+    );
+
+    expect(parse("#5 Provenance").at(0)).toMatchObject({ mode: "provenance" });
+    expect(parse("#5 PROVENANCE").at(0)).toMatchObject({ mode: "provenance" });
+  });
+
+  it("detects the grid keyword", () => {
+    const { isGridRequest } = jest.requireActual("../../src/config/collection");
+
+    expect(isGridRequest("#1 #2 #3 grid")).toBe(true);
+    expect(isGridRequest("GRID #1 #2")).toBe(true);
+    expect(isGridRequest("#1 #2 gridlock")).toBe(false);
+    expect(isGridRequest("#grid")).toBe(false);
+  });
+
   it("matches #random keyword", () => {
     const { parseMessageMatches: parse } = jest.requireActual(
       "../../src/config/collection"
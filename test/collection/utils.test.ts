@@ -1,4 +1,8 @@
-import { isValidTokenId, randomTokenId } from "../../src/config/collection";
+import {
+  isValidTokenId,
+  randomTokenId,
+  suggestTokenIds,
+} from "../../src/config/collection";
 import type { CollectionConfig } from "../../src/lib/types";
 
 const testCollection: CollectionConfig = {
@@ -49,3 +53,41 @@ describe("randomTokenId", () => {
     expect(randomTokenId(singleCollection)).toBe(42);
   });
 });
+
+describe("suggestTokenIds", () => {
+  it("suggests the start of the range for empty input", () => {
+    expect(suggestTokenIds(testCollection, "", 5)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("suggests IDs starting with the typed digits", () => {
+    expect(suggestTokenIds(testCollection, "5", 25)).toEqual([
+      5, 50, 51, 52, 53, 54, 55, 56, 57, 58, 59,
+    ]);
+    expect(suggestTokenIds(testCollection, "10", 25)).toEqual([10, 100]);
+  });
+
+  it("respects the limit", () => {
+    expect(suggestTokenIds(testCollection, "1", 3)).toEqual([1, 10, 11]);
+  });
+
+  it("clamps out-of-range input to the nearest bound", () => {
+    expect(suggestTokenIds(testCollection, "999", 25)).toEqual([100]);
+    expect(suggestTokenIds(testCollection, "0", 25)).toEqual([1]);
+  });
+
+  it("suggests zero for zero-based collections", () => {
+    const zeroBasedCollection = { ...testCollection, minTokenId: 0 };
+    expect(suggestTokenIds(zeroBasedCollection, "0", 25)).toEqual([0]);
+  });
+
+  it("uses the refreshed max for dynamic supply collections", () => {
+    const dynamicCollection = {
+      ...testCollection,
+      dynamicSupply: true,
+      maxTokenId: 120,
+    };
+    expect(suggestTokenIds(dynamicCollection, "11", 25)).toEqual([
+      11, 110, 111, 112, 113, 114, 115, 116, 117, 118, 119,
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+import { PermissionFlagsBits } from "discord.js";
+import {
+  buildAdminCommandData,
+  buildCollectionFromOptions,
+  normalizePrefix,
+} from "../../src/discord/admin";
+import type { CollectionConfig } from "../../src/lib/types";
+
+type OptionValues = Record<string, string | number | undefined>;
+
+/** Minimal stand-in for interaction.options */
+const createOptions = (values: OptionValues) =>
+  ({
+    getString: (name: string) => (values[name] as string | undefined) ?? null,
+    getInteger: (name: string) => (values[name] as number | undefined) ?? null,
+  }) as unknown as Parameters<typeof buildCollectionFromOptions>[0];
+
+const existing: CollectionConfig = {
+  prefix: "art",
+  address: "0xdef",
+  name: "ArtNFT",
+  chain: "ethereum",
+  minTokenId: 1,
+  maxTokenId: 50,
+  color: "#ff6b35",
+  customDescription: "Art #{id}",
+};
+
+describe("admin command", () => {
+  it("is limited to members with Manage Guild", () => {
+    const data = buildAdminCommandData();
+
+    expect(data.name).toBe("admin");
+    expect(data.default_member_permissions).toBe(
+      PermissionFlagsBits.ManageGuild.toString()
+    );
+  });
+
+  describe("normalizePrefix", () => {
+    it("lowercases prefixes and maps default to the empty prefix", () => {
+      expect(normalizePrefix(" Art ")).toBe("art");
+      expect(normalizePrefix("default")).toBe("");
+    });
+
+    it("rejects prefixes that would break message matching", () => {
+      expect(() => normalizePrefix("a|b")).toThrow();
+      expect(() => normalizePrefix("")).toThrow();
+    });
+  });
+
+  describe("buildCollectionFromOptions", () => {
+    it("builds a new collection with defaults", () => {
+      const collection = buildCollectionFromOptions(
+        createOptions({ address: "0x123", name: "New", min: 0, max: "999" }),
+        "new"
+      );
+
+      expect(collection).toEqual({
+        prefix: "new",
+        address: "0x123",
+        name: "New",
+        chain: "ethereum",
+        minTokenId: 0,
+        maxTokenId: 999,
+        dynamicSupply: false,
+        color: "#121212",
+      });
+    });
+
+    it("supports dynamic supply", () => {
+      const collection = buildCollectionFromOptions(
+        createOptions({ address: "0x123", name: "New", min: 1, max: "*" }),
+        "new"
+      );
+
+      expect(collection.dynamicSupply).toBe(true);
+    });
+
+    it("keeps unchanged fields when editing", () => {
+      const collection = buildCollectionFromOptions(
+        createOptions({ name: "Renamed", color: "#00ff88" }),
+        "art",
+        existing
+      );
+
+      expect(collection).toEqual({
+        ...existing,
+        name: "Renamed",
+        color: "#00ff88",
+        dynamicSupply: false,
+      });
+    });
+
+    it("rejects invalid ranges and colors", () => {
+      expect(() =>
+        buildCollectionFromOptions(
+          createOptions({ address: "0x1", name: "A", min: 10, max: "5" }),
+          "a"
+        )
+      ).toThrow("Max must be a whole number of at least 10");
+      expect(() =>
+        buildCollectionFromOptions(createOptions({ min: 60 }), "art", existing)
+      ).toThrow("Min must not be above max");
+      expect(() =>
+        buildCollectionFromOptions(
+          createOptions({ color: "red" }),
+          "art",
+          existing
+        )
+      ).toThrow("Color must be a hex color");
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { Collection } from "discord.js";
+import fetchMock from "jest-fetch-mock";
+import type { CollectionConfig } from "../../src/lib/types";
+
+const nftFixture = require("../fixtures/opensea/get-nft.json");
+
+const NFT_URL_REGEX = /\/nfts\/(\d+)$/;
+
+/**
+ * Build a fake button interaction for a custom ID
+ */
+const buttonInteraction = (customId: string) => ({
+  customId,
+  user: { username: "vector", id: "1" },
+  guildId: null,
+  channelId: "111",
+  channel: null,
+  replied: false,
+  deferred: false,
+  reply: jest.fn().mockRejectedValue(new Error("Unknown interaction")),
+  followUp: jest.fn().mockRejectedValue(new Error("Unknown interaction")),
+});
+
+describe("embed buttons", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+    process.env.COLLECTIONS = "0xabc:MainNFT:1:100";
+    const { initCollections: init } = jest.requireActual(
+      "../../src/config/collection"
+    );
+    init();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe("handleButton", () => {
+    it("doesn't throw when replying to an expired interaction fails", async () => {
+      const { handleButton } = jest.requireActual("../../src/discord/buttons");
+      const interaction = buttonInteraction("embed:refresh:gone:5:0");
+
+      await expect(handleButton(interaction)).resolves.toBeUndefined();
+      expect(interaction.reply).toHaveBeenCalledTimes(2);
+    });
+
+    it("keeps the Reroll button when refreshing a random embed", async () => {
+      fetchMock.mockResponse((request) => {
+        if (request.url.endsWith("/nfts/5")) {
+          return Promise.resolve(JSON.stringify(nftFixture));
+        }
+        if (request.url.endsWith("/contract/0xabc")) {
+          return Promise.resolve(JSON.stringify({ collection: "main" }));
+        }
+        return Promise.resolve({ status: 404, body: "" });
+      });
+      const { getCollections } = jest.requireActual(
+        "../../src/config/collection"
+      );
+      const { buildButtonRow } = jest.requireActual(
+        "../../src/embed/components"
+      );
+      const { handleButton } = jest.requireActual("../../src/discord/buttons");
+      const [collection]: CollectionConfig[] = getCollections();
+      const row = buildButtonRow(
+        { collection, tokenId: 5, isRandom: true },
+        0,
+        false
+      ).toJSON();
+      const editReply = jest.fn();
+      const interaction = {
+        ...buttonInteraction("embed:refresh::5:0"),
+        deferUpdate: jest.fn(),
+        editReply,
+        message: {
+          embeds: [{ toJSON: () => ({}) }],
+          components: [{ toJSON: () => row }],
+          attachments: new Collection(),
+        },
+      };
+
+      await handleButton(interaction);
+
+      const [{ components }] = editReply.mock.calls[0];
+      expect(
+        components[0].components.map((c: { custom_id: string }) => c.custom_id)
+      ).toEqual([
+        "embed:refresh::5:0",
+        "embed:reroll::5:0",
+        "embed:traits::5:0",
+      ]);
+    });
+
+    it("skips tokens OpenSea flags when rerolling", async () => {
+      fetchMock.mockResponse((request) => {
+        const match = request.url.match(NFT_URL_REGEX);
+        if (match) {
+          return Promise.resolve(
+            JSON.stringify({
+              nft: { ...nftFixture.nft, is_nsfw: match[1] === "1" },
+            })
+          );
+        }
+        if (request.url.endsWith("/contract/0xabc")) {
+          return Promise.resolve(JSON.stringify({ collection: "main" }));
+        }
+        return Promise.resolve({ status: 404, body: "" });
+      });
+      // Token #1, then #2
+      jest.spyOn(Math, "random").mockReturnValueOnce(0).mockReturnValue(0.015);
+      const { handleButton } = jest.requireActual("../../src/discord/buttons");
+      const editReply = jest.fn();
+      const interaction = {
+        ...buttonInteraction("embed:reroll::5:0"),
+        deferUpdate: jest.fn(),
+        editReply,
+        message: {
+          embeds: [{ toJSON: () => ({}) }],
+          components: [],
+          attachments: new Collection(),
+        },
+      };
+
+      await handleButton(interaction);
+
+      const [{ embeds }] = editReply.mock.calls[0];
+      expect(embeds[0].title).toContain("#2");
+      const urls = fetchMock.mock.calls.map(([url]) => String(url));
+      // The picked token isn't fetched again to build its embed
+      expect(urls.filter((url) => url.endsWith("/nfts/2"))).toHaveLength(1);
+      jest.restoreAllMocks();
+    });
+  });
+});
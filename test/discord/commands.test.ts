@@ -0,0 +1,132 @@
+describe("slash commands", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+    process.env.COLLECTIONS =
+      "0xabc:MainNFT:1:100,artifact:0xdef:ArtifactsNFT:1:50";
+    const { initCollections: init } = jest.requireActual(
+      "../../src/config/collection"
+    );
+    init();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe("buildCommandData", () => {
+    it("defines nft, random, history, collections, help and admin commands", () => {
+      const { buildCommandData } = jest.requireActual(
+        "../../src/discord/commands"
+      );
+      const names = buildCommandData().map((c: { name: string }) => c.name);
+
+      expect(names).toEqual([
+        "nft",
+        "random",
+        "history",
+        "collections",
+        "help",
+        "admin",
+      ]);
+    });
+
+    it("uses autocomplete for collection and token options", () => {
+      const { buildCommandData } = jest.requireActual(
+        "../../src/discord/commands"
+      );
+      const [nft] = buildCommandData();
+
+      for (const option of nft.options) {
+        expect(option.autocomplete).toBe(true);
+        expect(option.choices).toBeUndefined();
+      }
+    });
+
+    it("requires a token ID for /nft", () => {
+      const { buildCommandData } = jest.requireActual(
+        "../../src/discord/commands"
+      );
+      const [nft] = buildCommandData();
+      const tokenOption = nft.options.find(
+        (o: { name: string }) => o.name === "token"
+      );
+
+      expect(tokenOption.required).toBe(true);
+    });
+  });
+
+  describe("resolveCollectionChoice", () => {
+    it("resolves the default collection when no value is given", () => {
+      const { resolveCollectionChoice } = jest.requireActual(
+        "../../src/discord/commands"
+      );
+
+      expect(resolveCollectionChoice(null).name).toBe("MainNFT");
+      expect(resolveCollectionChoice("default").name).toBe("MainNFT");
+    });
+
+    it("resolves a collection by prefix", () => {
+      const { resolveCollectionChoice } = jest.requireActual(
+        "../../src/discord/commands"
+      );
+
+      expect(resolveCollectionChoice("artifact").name).toBe("ArtifactsNFT");
+      expect(resolveCollectionChoice("unknown")).toBeUndefined();
+    });
+  });
+
+  describe("getCollectionAutocomplete", () => {
+    it("returns all collections for an empty query", () => {
+      const { getCollectionAutocomplete } = jest.requireActual(
+        "../../src/discord/commands"
+      );
+
+      expect(getCollectionAutocomplete("")).toEqual([
+        { name: "MainNFT", value: "default" },
+        { name: "ArtifactsNFT (artifact#)", value: "artifact" },
+      ]);
+    });
+
+    it("matches on prefix and name", () => {
+      const { getCollectionAutocomplete } = jest.requireActual(
+        "../../src/discord/commands"
+      );
+
+      expect(getCollectionAutocomplete("art")).toEqual([
+        { name: "ArtifactsNFT (artifact#)", value: "artifact" },
+      ]);
+      expect(getCollectionAutocomplete("main")).toEqual([
+        { name: "MainNFT", value: "default" },
+      ]);
+      expect(getCollectionAutocomplete("zzz")).toEqual([]);
+    });
+  });
+
+  describe("getTokenAutocomplete", () => {
+    it("suggests token IDs within the collection range", async () => {
+      const { getTokenAutocomplete, resolveCollectionChoice } =
+        jest.requireActual("../../src/discord/commands");
+      const collection = resolveCollectionChoice("artifact");
+      const results = await getTokenAutocomplete(collection, "99", []);
+
+      expect(results).toEqual([{ name: "ArtifactsNFT #50", value: 50 }]);
+    });
+  });
+
+  describe("buildCollectionsEmbed", () => {
+    it("lists each collection with its syntax and range", () => {
+      const { buildCollectionsEmbed } = jest.requireActual(
+        "../../src/discord/commands"
+      );
+      const description = buildCollectionsEmbed().data.description;
+
+      expect(description).toContain("**MainNFT** - `#1234` (1-100, ethereum)");
+      expect(description).toContain(
+        "**ArtifactsNFT** - `artifact#1234` (1-50, ethereum)"
+      );
+    });
+  });
+});
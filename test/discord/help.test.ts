@@ -0,0 +1,48 @@
+describe("buildHelpEmbed", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+    process.env.COLLECTIONS =
+      "0xabc:MainNFT:1:100,artifact:0xdef:ArtifactsNFT:1:50";
+    process.env.RANDOM_INTERVALS = "555=30:artifact";
+    const { initCollections: init } = jest.requireActual(
+      "../../src/config/collection"
+    );
+    init();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  const getDescription = (channelId?: string): string => {
+    const { initSchedules } = jest.requireActual("../../src/discord/schedules");
+    const { buildHelpEmbed } = jest.requireActual("../../src/discord/help");
+    initSchedules();
+    return buildHelpEmbed({ channelId }).toJSON().description;
+  };
+
+  it("lists collections with their prefixes and ranges", () => {
+    const description = getDescription();
+
+    expect(description).toContain("`#1234` - MainNFT (1-100)");
+    expect(description).toContain("`artifact#1234` - ArtifactsNFT (1-50)");
+  });
+
+  it("explains the trigger syntax", () => {
+    const description = getDescription();
+
+    expect(description).toContain("`#random`");
+    expect(description).toContain("`#username`");
+    expect(description).toContain("/help");
+  });
+
+  it("shows the channel's random schedule", () => {
+    expect(getDescription("555")).toContain(
+      "**Random posts in this channel:**\n• every 30 min - ArtifactsNFT"
+    );
+    expect(getDescription("999")).not.toContain("Random posts");
+  });
+});
@@ -0,0 +1,74 @@
+describe("checkRateLimit", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+    process.env.RATE_LIMIT_USER = "2/10";
+    process.env.RATE_LIMIT_CHANNEL = "3/10";
+    process.env.RATE_LIMIT_GLOBAL = undefined;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it("limits each user separately", () => {
+    const { checkRateLimit } = jest.requireActual(
+      "../../src/discord/rate-limit"
+    );
+
+    expect(checkRateLimit({ userId: "alice" }, 2, 0)).toBe(0);
+    expect(checkRateLimit({ userId: "alice" }, 1, 0)).toBe(5000);
+    expect(checkRateLimit({ userId: "bob" }, 1, 0)).toBe(0);
+  });
+
+  it("limits a channel across users", () => {
+    const { checkRateLimit } = jest.requireActual(
+      "../../src/discord/rate-limit"
+    );
+    const channelId = "general";
+
+    expect(checkRateLimit({ userId: "alice", channelId }, 2, 0)).toBe(0);
+    expect(checkRateLimit({ userId: "bob", channelId }, 1, 0)).toBe(0);
+    expect(
+      checkRateLimit({ userId: "carol", channelId }, 1, 0)
+    ).toBeGreaterThan(0);
+  });
+
+  it("does not charge any limit when one is exceeded", () => {
+    const { checkRateLimit } = jest.requireActual(
+      "../../src/discord/rate-limit"
+    );
+    const channelId = "general";
+
+    checkRateLimit({ userId: "alice", channelId }, 2, 0);
+    // Alice is over her limit, so the channel keeps its last token
+    expect(
+      checkRateLimit({ userId: "alice", channelId }, 1, 0)
+    ).toBeGreaterThan(0);
+    expect(checkRateLimit({ userId: "bob", channelId }, 1, 0)).toBe(0);
+  });
+
+  it("applies a global limit when configured", () => {
+    process.env.RATE_LIMIT_USER = "0";
+    process.env.RATE_LIMIT_GLOBAL = "1/60";
+    const { checkRateLimit } = jest.requireActual(
+      "../../src/discord/rate-limit"
+    );
+
+    expect(checkRateLimit({ userId: "alice" }, 1, 0)).toBe(0);
+    expect(checkRateLimit({ userId: "bob" }, 1, 0)).toBe(60_000);
+  });
+
+  it("formats the cooldown notice in whole seconds", () => {
+    const { getCooldownMessage } = jest.requireActual(
+      "../../src/discord/rate-limit"
+    );
+
+    expect(getCooldownMessage(1200)).toBe(
+      "You're requesting NFTs too quickly. Try again in 2s."
+    );
+    expect(getCooldownMessage(10)).toContain("1s");
+  });
+});
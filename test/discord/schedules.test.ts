@@ -0,0 +1,219 @@
+import fetchMock from "jest-fetch-mock";
+
+const nftFixture = require("../fixtures/opensea/get-nft.json");
+
+describe("random schedules", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+    process.env.COLLECTIONS =
+      "0xabc:MainNFT:1:100,artifact:0xdef:ArtifactsNFT:1:50";
+    process.env.RANDOM_INTERVALS = "111=30,222=15:artifact";
+    const { initCollections: init } = jest.requireActual(
+      "../../src/config/collection"
+    );
+    init();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe("parseRandomIntervals", () => {
+    it("parses channels, minutes and collection options", () => {
+      const { parseRandomIntervals } = jest.requireActual(
+        "../../src/discord/schedules"
+      );
+
+      expect(parseRandomIntervals("111=30, 222=15:bot+artifact")).toEqual([
+        { channelId: "111", minutes: 30, collections: undefined },
+        { channelId: "222", minutes: 15, collections: "bot+artifact" },
+      ]);
+    });
+
+    it("skips invalid entries", () => {
+      const { parseRandomIntervals } = jest.requireActual(
+        "../../src/discord/schedules"
+      );
+
+      expect(parseRandomIntervals("111=abc,=5,333=-1,")).toEqual([]);
+      expect(parseRandomIntervals(undefined)).toEqual([]);
+    });
+  });
+
+  describe("parseRandomCollections", () => {
+    it("resolves all, single and multiple collections", () => {
+      const { parseRandomCollections } = jest.requireActual(
+        "../../src/discord/schedules"
+      );
+      const names = (option: string | undefined) =>
+        parseRandomCollections(option).map((c: { name: string }) => c.name);
+
+      expect(names(undefined)).toEqual(["MainNFT", "ArtifactsNFT"]);
+      expect(names("*")).toEqual(["MainNFT", "ArtifactsNFT"]);
+      expect(names("artifact")).toEqual(["ArtifactsNFT"]);
+      expect(names("artifact+unknown")).toEqual(["ArtifactsNFT"]);
+    });
+  });
+
+  describe("runtime changes", () => {
+    it("loads schedules from RANDOM_INTERVALS", () => {
+      const { initSchedules, getSchedules } = jest.requireActual(
+        "../../src/discord/schedules"
+      );
+
+      initSchedules();
+
+      expect(
+        getSchedules().map((s: { channelId: string }) => s.channelId)
+      ).toEqual(["111", "222"]);
+    });
+
+    it("saves, pauses and deletes schedules and persists the changes", async () => {
+      const { initSchedules, getSchedule, saveSchedule, deleteSchedule } =
+        jest.requireActual("../../src/discord/schedules");
+      const { getStateManager } = jest.requireActual("../../src/state/state");
+
+      initSchedules();
+      await saveSchedule({
+        channelId: "333",
+        minutes: 5,
+        collections: "artifact",
+      });
+      await saveSchedule({ ...getSchedule("111"), paused: true });
+
+      expect(getSchedule("333").minutes).toBe(5);
+      expect(getSchedule("111").paused).toBe(true);
+
+      expect(await deleteSchedule("222")).toBe(true);
+      expect(await deleteSchedule("222")).toBe(false);
+      expect(getSchedule("222")).toBeUndefined();
+
+      expect(getStateManager().getScheduleOverrides()).toEqual({
+        "333": { channelId: "333", minutes: 5, collections: "artifact" },
+        "111": { channelId: "111", minutes: 30, paused: true },
+        "222": null,
+      });
+    });
+
+    it("keeps a single timer when saves overlap", async () => {
+      const { initSchedules, saveSchedule, startSchedules, stopSchedules } =
+        jest.requireActual("../../src/discord/schedules");
+      const { getStateManager } = jest.requireActual("../../src/state/state");
+      const channel = {
+        id: "333",
+        guildId: "g1",
+        name: "general",
+        isTextBased: () => true,
+        isDMBased: () => false,
+      };
+      const client = {
+        channels: { fetch: jest.fn().mockResolvedValue(channel) },
+      };
+      const setIntervalSpy = jest.spyOn(global, "setInterval");
+
+      // Start before loading RANDOM_INTERVALS so only the saves start timers
+      await startSchedules(client);
+      initSchedules();
+      getStateManager().setLastRandomPost("333");
+
+      await Promise.all([
+        saveSchedule({ channelId: "333", minutes: 5 }),
+        saveSchedule({ channelId: "333", minutes: 10 }),
+      ]);
+
+      expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+      expect(setIntervalSpy).toHaveBeenCalledWith(
+        expect.any(Function),
+        10 * 60 * 1000
+      );
+
+      stopSchedules();
+      setIntervalSpy.mockRestore();
+    });
+
+    it("applies persisted changes on top of RANDOM_INTERVALS", () => {
+      const { initSchedules, getSchedules } = jest.requireActual(
+        "../../src/discord/schedules"
+      );
+      const { getStateManager } = jest.requireActual("../../src/state/state");
+
+      const stateManager = getStateManager();
+      stateManager.setScheduleOverride("111", null);
+      stateManager.setScheduleOverride("222", {
+        channelId: "222",
+        minutes: 60,
+        paused: true,
+      });
+      initSchedules();
+
+      expect(getSchedules()).toEqual([
+        { channelId: "222", minutes: 60, paused: true },
+      ]);
+    });
+  });
+
+  describe("getUniqueRandomToken", () => {
+    const getMainCollection = () =>
+      jest
+        .requireActual("../../src/config/collection")
+        .getCollections()
+        .find((c: { name: string }) => c.name === "MainNFT");
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("skips tokens OpenSea flags", async () => {
+      fetchMock.mockResponse((request) =>
+        Promise.resolve(
+          JSON.stringify({
+            nft: { ...nftFixture.nft, is_nsfw: request.url.endsWith("/1") },
+          })
+        )
+      );
+      // Token #1, then #2
+      jest.spyOn(Math, "random").mockReturnValueOnce(0).mockReturnValue(0.015);
+      const { getUniqueRandomToken } = jest.requireActual(
+        "../../src/discord/schedules"
+      );
+
+      const picked = await getUniqueRandomToken(getMainCollection(), "111", []);
+
+      expect(picked?.tokenId).toBe(2);
+      expect(picked?.nft.name).toBe(nftFixture.nft.name);
+      // Each candidate is fetched once
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("returns undefined when every pick is flagged", async () => {
+      fetchMock.mockResponse(
+        JSON.stringify({ nft: { ...nftFixture.nft, is_disabled: true } })
+      );
+      const { getUniqueRandomToken } = jest.requireActual(
+        "../../src/discord/schedules"
+      );
+
+      expect(
+        await getUniqueRandomToken(getMainCollection(), "111", [])
+      ).toBeUndefined();
+    });
+  });
+
+  describe("validateScheduleCollections", () => {
+    it("normalizes valid options and rejects unknown prefixes", () => {
+      const { validateScheduleCollections } = jest.requireActual(
+        "../../src/discord/admin"
+      );
+
+      expect(validateScheduleCollections(null, {})).toBeUndefined();
+      expect(validateScheduleCollections("*", {})).toBeUndefined();
+      expect(validateScheduleCollections("Artifact", {})).toBe("artifact");
+      expect(() => validateScheduleCollections("artifact+nope", {})).toThrow(
+        'Unknown collection prefix "nope"'
+      );
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import fetchMock from "jest-fetch-mock";
+import sharp from "sharp";
+import type { CollectionConfig, Log } from "../../src/lib/types";
+
+const nftFixture = require("../fixtures/opensea/get-nft.json");
+
+const bluePng = () =>
+  sharp({
+    create: { width: 1, height: 1, channels: 4, background: "#0000ff" },
+  })
+    .png()
+    .toBuffer();
+
+const collection: CollectionConfig = {
+  prefix: "",
+  address: "0xabc",
+  name: "Art",
+  chain: "ethereum",
+  minTokenId: 1,
+  maxTokenId: 100,
+  customImageUrl: "https://example.com/{id}.png",
+};
+
+describe("buildCollageForMatches", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...originalEnv };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it("combines tokens into one collage embed", async () => {
+    const png = await bluePng();
+    fetchMock.mockResponse((request) => {
+      if (request.url === "https://example.com/2.png") {
+        return Promise.resolve({ body: "<svg></svg>" });
+      }
+      if (request.url.startsWith("https://example.com/")) {
+        // Binary bodies work, but the mock is typed for strings
+        return Promise.resolve({ body: png as unknown as string });
+      }
+      if (request.url.endsWith("/nfts/3")) {
+        return Promise.resolve({ status: 404, body: "" });
+      }
+      return Promise.resolve(JSON.stringify(nftFixture));
+    });
+    const { buildCollageForMatches } = require("../../src/embed/collage");
+    const log: Log = [];
+
+    const result = await buildCollageForMatches(
+      [1, 2, 3, 4].map((tokenId) => ({ collection, tokenId })),
+      log
+    );
+    const embed = result.embeds[0].toJSON();
+
+    expect(result.embeds).toHaveLength(1);
+    expect(result.tokens).toEqual([undefined]);
+    expect(embed.title).toBe("Art (3)");
+    expect(embed.description).toContain("3. [Art #4]");
+    expect(embed.image?.url).toBe("attachment://collage.png");
+    expect(embed.footer?.text).toBe("1 image couldn't be loaded");
+    expect(result.files.map((f: { name: string }) => f.name)).toEqual([
+      "collage.png",
+    ]);
+    expect(result.embedLog).toBe("Replied with a collage of #1, #2, #4");
+    expect(log).toContain("Could not find Art #3");
+  });
+
+  it("applies the NSFW policy to each tile", async () => {
+    const png = await bluePng();
+    fetchMock.mockResponse((request) => {
+      if (request.url.startsWith("https://example.com/")) {
+        return Promise.resolve({ body: png as unknown as string });
+      }
+      const flags = {
+        is_nsfw: request.url.endsWith("/nfts/1"),
+        is_suspicious: request.url.endsWith("/nfts/2"),
+      };
+      return Promise.resolve(
+        JSON.stringify({ nft: { ...nftFixture.nft, ...flags } })
+      );
+    });
+    process.env.NSFW_POLICY_111 = "hide";
+    process.env.NSFW_POLICY_222 = "nsfw-channels";
+    const { buildCollageForMatches } = require("../../src/embed/collage");
+    const matches = [1, 2].map((tokenId) => ({ collection, tokenId }));
+
+    const hidden = await buildCollageForMatches(matches, [], {
+      guildId: "111",
+    });
+    const embed = hidden.embeds[0].toJSON();
+    expect(embed.title).toBe("Art (2)");
+    expect(embed.description).toContain("2. ⚠️ [Art #2]");
+    expect(embed.footer?.text).toBe("1 NSFW image hidden");
+
+    const log: Log = [];
+    const refused = await buildCollageForMatches(matches, log, {
+      guildId: "222",
+      nsfw: false,
+    });
+    expect(refused.embeds[0].toJSON().title).toBe("Art (1)");
+    expect(log).toContain("Not showing NSFW token: Art #1");
+  });
+
+  it("skips images over the size limit without a content-length", async () => {
+    const {
+      MAX_MEDIA_ATTACHMENT_BYTES,
+    } = require("../../src/config/constants");
+    const png = await bluePng();
+    const body = Buffer.alloc(png.length + MAX_MEDIA_ATTACHMENT_BYTES);
+    body.set(new Uint8Array(png));
+    // Binary bodies work, but the mock is typed for strings
+    fetchMock.mockResponseOnce(() =>
+      Promise.resolve({ body: body as unknown as string })
+    );
+    const { fetchCollageImage } = require("../../src/embed/collage");
+
+    expect(
+      await fetchCollageImage("https://example.com/1.png")
+    ).toBeUndefined();
+  });
+
+  it("returns no embeds when no tokens load", async () => {
+    fetchMock.mockResponse("", { status: 404 });
+    const { buildCollageForMatches } = require("../../src/embed/collage");
+
+    const result = await buildCollageForMatches(
+      [{ collection, tokenId: 1 }],
+      []
+    );
+
+    expect(result.embeds).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  buildButtonRows,
+  type EmbedButtonId,
+  encodeButtonId,
+  parseButtonId,
+} from "../../src/embed/components";
+import type { CollectionConfig, TokenMatch } from "../../src/lib/types";
+
+const defaultCollection: CollectionConfig = {
+  prefix: "",
+  address: "0xabc",
+  name: "MainNFT",
+  chain: "ethereum",
+  minTokenId: 1,
+  maxTokenId: 100,
+};
+
+const artifactCollection: CollectionConfig = {
+  ...defaultCollection,
+  prefix: "artifact",
+  address: "0xdef",
+  name: "ArtifactsNFT",
+};
+
+const getCustomIds = (row: { toJSON: () => unknown }): string[] =>
+  (row.toJSON() as { components: { custom_id: string }[] }).components.map(
+    (c) => c.custom_id
+  );
+
+describe("embed button IDs", () => {
+  it("round-trips a custom ID", () => {
+    const id: EmbedButtonId = {
+      action: "refresh",
+      prefix: "artifact",
+      tokenId: 42,
+      slot: 2,
+    };
+    const encoded = encodeButtonId(id);
+
+    expect(encoded).toBe("embed:refresh:artifact:42:2");
+    expect(parseButtonId(encoded)).toEqual(id);
+  });
+
+  it("handles the default collection's empty prefix", () => {
+    expect(parseButtonId("embed:traits::7:0")).toEqual({
+      action: "traits",
+      prefix: "",
+      tokenId: 7,
+      slot: 0,
+    });
+  });
+
+  it("rejects unknown namespaces, actions and malformed IDs", () => {
+    expect(parseButtonId("other:refresh::7:0")).toBeUndefined();
+    expect(parseButtonId("embed:delete::7:0")).toBeUndefined();
+    expect(parseButtonId("embed:refresh::abc:0")).toBeUndefined();
+    expect(parseButtonId("embed:refresh")).toBeUndefined();
+  });
+});
+
+describe("buildButtonRows", () => {
+  it("adds refresh and traits buttons for a specific token", () => {
+    const rows = buildButtonRows([
+      { collection: defaultCollection, tokenId: 5 },
+    ]);
+
+    expect(rows).toHaveLength(1);
+    expect(getCustomIds(rows[0])).toEqual([
+      "embed:refresh::5:0",
+      "embed:traits::5:0",
+    ]);
+  });
+
+  it("adds a reroll button for random results", () => {
+    const rows = buildButtonRows([
+      { collection: artifactCollection, tokenId: 9, isRandom: true },
+    ]);
+
+    expect(getCustomIds(rows[0])).toEqual([
+      "embed:refresh:artifact:9:0",
+      "embed:reroll:artifact:9:0",
+      "embed:traits:artifact:9:0",
+    ]);
+  });
+
+  it("keeps slots aligned with embeds that have no token", () => {
+    const rows = buildButtonRows([
+      undefined,
+      { collection: defaultCollection, tokenId: 3 },
+    ]);
+
+    expect(rows).toHaveLength(1);
+    expect(getCustomIds(rows[0])).toContain("embed:refresh::3:1");
+  });
+
+  it("labels buttons with the token ID when there are multiple embeds", () => {
+    const rows = buildButtonRows([
+      { collection: defaultCollection, tokenId: 3 },
+      { collection: defaultCollection, tokenId: 3 },
+    ]);
+    const labels = (
+      rows[0].toJSON() as { components: { label: string }[] }
+    ).components.map((c) => c.label);
+
+    expect(labels).toEqual(["Refresh #3", "Traits #3"]);
+    // Same token twice still gets unique custom IDs
+    expect(getCustomIds(rows[0])).not.toEqual(getCustomIds(rows[1]));
+  });
+
+  it("caps rows at Discord's limit of 5 per message", () => {
+    const tokens: TokenMatch[] = [1, 2, 3, 4, 5, 6].map((tokenId) => ({
+      collection: defaultCollection,
+      tokenId,
+    }));
+
+    expect(buildButtonRows(tokens)).toHaveLength(5);
+  });
+});
@@ -0,0 +1,102 @@
+import fetchMock from "jest-fetch-mock";
+import type { CollectionConfig, Log } from "../../src/lib/types";
+
+const nftFixture = require("../fixtures/opensea/get-nft.json");
+
+const collection: CollectionConfig = {
+  prefix: "art",
+  address: "0xabc",
+  name: "Art",
+  chain: "ethereum",
+  minTokenId: 1,
+  maxTokenId: 100,
+};
+
+const sale = (quantity: string, closingDate: number, symbol = "ETH") => ({
+  event_type: "sale",
+  payment: { quantity, decimals: 18, symbol },
+  closing_date: closingDate,
+  seller: "0x1111111111111111111111111111111111111111",
+  buyer: "0x2222222222222222222222222222222222222222",
+});
+
+/**
+ * Mock OpenSea responses for a token's NFT, sales and accounts
+ * With a next cursor, every page has the same sales and another page.
+ */
+const mockOpenSea = (sales: ReturnType<typeof sale>[], next?: string) => {
+  fetchMock.mockResponse((request) => {
+    if (request.url.includes("/events/")) {
+      return Promise.resolve(JSON.stringify({ asset_events: sales, next }));
+    }
+    if (request.url.includes("/accounts/0x1111")) {
+      return Promise.resolve(JSON.stringify({ username: "alice" }));
+    }
+    if (request.url.includes("/accounts/")) {
+      return Promise.resolve(JSON.stringify({ username: "" }));
+    }
+    return Promise.resolve(JSON.stringify(nftFixture));
+  });
+};
+
+describe("buildHistoryEmbed", () => {
+  beforeEach(() => {
+    jest.resetModules();
+  });
+
+  it("shows a table of sales and attaches a chart", async () => {
+    mockOpenSea([
+      sale("500000000000000000", 1_733_200_000),
+      sale("1000000000000000000000", 1_720_000_000, "USDC"),
+      sale("250000000000000000", 1_700_000_000, "WETH"),
+    ]);
+    const { buildHistoryEmbed } = require("../../src/embed/history");
+    const log: Log = [];
+
+    const built = await buildHistoryEmbed(collection, 5, log);
+    const embed = built.embed.toJSON();
+
+    expect(embed.title).toBe("Art #5 Sales History");
+    expect(embed.description).toContain("2024-12-03  0.5 ETH");
+    expect(embed.description).toContain("alice → 0x22222…22222");
+    expect(embed.fields).toEqual(
+      expect.arrayContaining([
+        { name: "Sales", value: "3", inline: true },
+        { name: "Low", value: "0.25 WETH", inline: true },
+        { name: "High", value: "0.5 ETH", inline: true },
+        { name: "First Sale", value: "Nov '23", inline: true },
+      ])
+    );
+    expect(embed.image?.url).toBe("attachment://history-art-5.png");
+    expect(built.files.map((f: { name: string }) => f.name)).toEqual([
+      "history-art-5.png",
+    ]);
+  });
+
+  it("marks counts as partial when older sales weren't fetched", async () => {
+    mockOpenSea([sale("500000000000000000", 1_733_200_000)], "more");
+    const { buildHistoryEmbed } = require("../../src/embed/history");
+    const { HISTORY_MAX_PAGES } = require("../../src/config/constants");
+
+    const built = await buildHistoryEmbed(collection, 5, []);
+    const embed = built.embed.toJSON();
+
+    expect(embed.fields).toEqual(
+      expect.arrayContaining([
+        { name: "Sales", value: `${HISTORY_MAX_PAGES}+`, inline: true },
+        { name: "First Sale", value: "Dec '24 or earlier", inline: true },
+      ])
+    );
+    expect(embed.footer?.text).toBe("Older sales not shown");
+  });
+
+  it("says when a token has no sales", async () => {
+    mockOpenSea([]);
+    const { buildHistoryEmbed } = require("../../src/embed/history");
+
+    const built = await buildHistoryEmbed(collection, 5, []);
+
+    expect(built.embed.toJSON().description).toBe("No sales yet");
+    expect(built.files).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+import fetchMock from "jest-fetch-mock";
+import { MAX_MEDIA_ATTACHMENT_BYTES } from "../../src/config/constants";
+import {
+  fetchMediaAttachment,
+  formatAnimationLink,
+  getAnimationUrl,
+  getMediaKind,
+  mediaFilePrefix,
+} from "../../src/embed/media";
+import type { CollectionConfig } from "../../src/lib/types";
+
+const collection: CollectionConfig = {
+  prefix: "art",
+  address: "0xabc",
+  name: "Art",
+  chain: "ethereum",
+  minTokenId: 1,
+  maxTokenId: 100,
+};
+
+describe("animation helpers", () => {
+  it("prefers OpenSea's display animation", () => {
+    expect(
+      getAnimationUrl({
+        opensea_url: "https://opensea.io/item",
+        animation_url: "ipfs://original.mp4",
+        display_animation_url: "https://cdn.example/display.mp4",
+      })
+    ).toBe("https://cdn.example/display.mp4");
+    expect(
+      getAnimationUrl({
+        opensea_url: "https://opensea.io/item",
+        animation_url: "https://example.com/a.gif",
+        display_animation_url: null,
+      })
+    ).toBe("https://example.com/a.gif");
+    expect(
+      getAnimationUrl({ opensea_url: "https://opensea.io/item" })
+    ).toBeUndefined();
+  });
+
+  it("detects media kinds from extensions", () => {
+    expect(getMediaKind("https://example.com/a.GIF")).toBe("gif");
+    expect(getMediaKind("https://example.com/a.mp4?w=500")).toBe("video");
+    expect(getMediaKind("https://example.com/index.html")).toBe("html");
+    expect(getMediaKind("https://example.com/animation")).toBe("other");
+  });
+
+  it("formats animation links by kind", () => {
+    expect(formatAnimationLink("https://example.com/a.mp4")).toBe(
+      "[Video](https://example.com/a.mp4)"
+    );
+    expect(formatAnimationLink("https://example.com/index.html")).toBe(
+      "[Interactive](https://example.com/index.html)"
+    );
+  });
+
+  it("names media after the token", () => {
+    expect(mediaFilePrefix("art", 5)).toBe("art-5.");
+    expect(mediaFilePrefix("", 5)).toBe("nft-5.");
+  });
+});
+
+describe("fetchMediaAttachment", () => {
+  const url = "https://cdn.example/animation";
+
+  beforeEach(() => {
+    fetchMock.resetMocks();
+  });
+
+  it("attaches small videos", async () => {
+    fetchMock.mockResponseOnce("", {
+      headers: { "content-type": "video/mp4", "content-length": "4" },
+    });
+    fetchMock.mockResponseOnce("data");
+
+    const attachment = await fetchMediaAttachment(url, collection, 5);
+
+    expect(attachment?.name).toBe("art-5.animation.mp4");
+    expect(fetchMock.mock.calls.at(0)?.at(1)).toMatchObject({
+      method: "HEAD",
+    });
+  });
+
+  it("skips files over the upload limit without downloading them", async () => {
+    fetchMock.mockResponseOnce("", {
+      headers: {
+        "content-type": "image/gif",
+        "content-length": String(MAX_MEDIA_ATTACHMENT_BYTES + 1),
+      },
+    });
+
+    expect(await fetchMediaAttachment(url, collection, 5)).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips media that can't play inline", async () => {
+    fetchMock.mockResponseOnce("", {
+      headers: { "content-type": "text/html", "content-length": "100" },
+    });
+
+    expect(await fetchMediaAttachment(url, collection, 5)).toBeUndefined();
+  });
+
+  it("returns undefined when the fetch fails", async () => {
+    fetchMock.mockRejectOnce(new Error("Network error"));
+
+    expect(await fetchMediaAttachment(url, collection, 5)).toBeUndefined();
+  });
+});
@@ -0,0 +1,219 @@
+import fetchMock from "jest-fetch-mock";
+import type { CollectionConfig, RequestScope } from "../../src/lib/types";
+
+const nftFixture = require("../fixtures/opensea/get-nft.json");
+const accountFixture = require("../fixtures/opensea/get-account.json");
+const accountNFTsFixture = require("../fixtures/opensea/get-nfts-by-account.json");
+
+const CID = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+
+const glyphbotsCollection: CollectionConfig = {
+  prefix: "",
+  address: "0xb6c2c2d2999c1b532e089a7ad4cb7f8c91cf5075",
+  name: "GlyphBots",
+  chain: "ethereum",
+  minTokenId: 1,
+  maxTokenId: 10_735,
+};
+
+/**
+ * Route OpenSea requests, answering with the NFT fixture and the given flags
+ * (images are served as small PNGs)
+ */
+const mockOpenSea = (flags: Record<string, boolean>) => {
+  fetchMock.mockResponse((request) => {
+    const { url } = request;
+    if (url.endsWith("/nfts/1")) {
+      return Promise.resolve(
+        JSON.stringify({ nft: { ...nftFixture.nft, ...flags } })
+      );
+    }
+    if (url.endsWith("/contract/0xb6c2c2d2999c1b532e089a7ad4cb7f8c91cf5075")) {
+      return Promise.resolve(JSON.stringify({ collection: "glyphbots" }));
+    }
+    if (url.includes("seadn.io")) {
+      return Promise.resolve({
+        body: "png",
+        headers: { "content-type": "image/png", "content-length": "3" },
+      });
+    }
+    return Promise.resolve({ status: 404, body: "" });
+  });
+};
+
+const build = (scope?: RequestScope) => {
+  const { buildEmbed } = jest.requireActual("../../src/embed/embed");
+  return buildEmbed(glyphbotsCollection, 1, [], scope);
+};
+
+describe("flagged tokens", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    fetchMock.resetMocks();
+    process.env = { ...originalEnv };
+    process.env.NSFW_POLICY = undefined;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it("warns about suspicious tokens", async () => {
+    mockOpenSea({ is_suspicious: true });
+
+    const built = await build();
+    const embed = built.embed.toJSON();
+
+    expect(embed.description).toBe(
+      "⚠️ Flagged as suspicious on OpenSea\n**Vector the Kind**"
+    );
+    expect(embed.image?.url).toBeDefined();
+  });
+
+  it("builds embeds from an already fetched NFT", async () => {
+    process.env.NSFW_POLICY = "refuse";
+    mockOpenSea({});
+    const { buildEmbedForNFT } = jest.requireActual("../../src/embed/embed");
+    const context = { userLog: [] };
+
+    expect(
+      await buildEmbedForNFT(glyphbotsCollection, 1, nftFixture.nft, context)
+    ).toBeDefined();
+    expect(
+      await buildEmbedForNFT(
+        glyphbotsCollection,
+        1,
+        { ...nftFixture.nft, is_nsfw: true },
+        context
+      )
+    ).toBeUndefined();
+    const urls = fetchMock.mock.calls.map(([url]) => String(url));
+    expect(urls.some((url) => url.endsWith("/nfts/1"))).toBe(false);
+  });
+
+  it("shows NSFW tokens unless a policy is set", async () => {
+    mockOpenSea({ is_nsfw: true });
+
+    const built = await build();
+
+    expect(built.embed.toJSON().image?.url).toBeDefined();
+    expect(built.files).toEqual([]);
+  });
+
+  it("hides NSFW images", async () => {
+    process.env.NSFW_POLICY = "hide";
+    mockOpenSea({ is_nsfw: true });
+
+    const built = await build();
+    const embed = built.embed.toJSON();
+
+    expect(embed.image).toBeUndefined();
+    expect(embed.description).toBe("🔞 NSFW image hidden\n**Vector the Kind**");
+    expect(built.files).toEqual([]);
+  });
+
+  it("attaches NSFW images as spoilers", async () => {
+    process.env.NSFW_POLICY = "spoiler";
+    mockOpenSea({ is_nsfw: true });
+
+    const built = await build();
+
+    expect(built.embed.toJSON().image).toBeUndefined();
+    expect(built.files.map((file: { name: string }) => file.name)).toEqual([
+      "SPOILER_nft-1.png",
+    ]);
+  });
+
+  it("names spoilered animations and images apart", async () => {
+    process.env.NSFW_POLICY = "spoiler";
+    const animationUrl = `ipfs://${CID}/1.gif`;
+    const gif = {
+      body: "gif",
+      headers: { "content-type": "image/gif", "content-length": "3" },
+    };
+    fetchMock.mockResponse((request) => {
+      if (request.url.endsWith("/nfts/1")) {
+        const nft = {
+          ...nftFixture.nft,
+          is_nsfw: true,
+          animation_url: animationUrl,
+        };
+        return Promise.resolve(JSON.stringify({ nft }));
+      }
+      if (request.url.includes("/contract/")) {
+        return Promise.resolve(JSON.stringify({ collection: "glyphbots" }));
+      }
+      return Promise.resolve(gif);
+    });
+    const { buildEmbed } = jest.requireActual("../../src/embed/embed");
+
+    const built = await buildEmbed(
+      {
+        ...glyphbotsCollection,
+        customImageUrl: "https://images.example/{id}.gif",
+      },
+      1,
+      []
+    );
+
+    expect(built.files.map((file: { name: string }) => file.name)).toEqual([
+      "SPOILER_nft-1.animation.gif",
+      "SPOILER_nft-1.gif",
+    ]);
+    // ipfs:// animations are fetched and linked through the gateway
+    const urls = fetchMock.mock.calls.map(([url]) => String(url));
+    expect(urls).toContain(`https://ipfs.io/ipfs/${CID}/1.gif`);
+    expect(JSON.stringify(built.embed.toJSON().fields)).toContain(
+      `https://ipfs.io/ipfs/${CID}/1.gif`
+    );
+    expect(urls.some((url) => url.startsWith("ipfs://"))).toBe(false);
+  });
+
+  it("refuses NSFW tokens outside NSFW channels", async () => {
+    process.env.NSFW_POLICY_111 = "nsfw-channels";
+    mockOpenSea({ is_nsfw: true });
+
+    expect(await build({ guildId: "111", nsfw: false })).toBeUndefined();
+    expect(await build({ guildId: "111", nsfw: true })).toBeDefined();
+    // Other guilds use the default policy
+    expect(await build({ guildId: "222", nsfw: false })).toBeDefined();
+  });
+
+  it("applies the policy to NFTs outside the configured collections", async () => {
+    process.env.NSFW_POLICY = "hide";
+    const [accountNFT] = accountNFTsFixture.nfts;
+    fetchMock.mockResponse((request) =>
+      Promise.resolve(
+        request.url.includes("/accounts/")
+          ? JSON.stringify(accountFixture)
+          : JSON.stringify({
+              nfts: [
+                {
+                  ...accountNFT,
+                  contract: "0xdead",
+                  is_nsfw: true,
+                  is_suspicious: true,
+                },
+              ],
+            })
+      )
+    );
+    const { buildEmbedsForUsernameMatches } = jest.requireActual(
+      "../../src/embed/embed"
+    );
+
+    const result = await buildEmbedsForUsernameMatches(
+      [{ username: "vector" }],
+      []
+    );
+    const embed = result.embeds[0].toJSON();
+
+    expect(embed.title).toBe(accountNFT.name);
+    expect(embed.image).toBeUndefined();
+    expect(embed.description).toBe(
+      `⚠️ Flagged as suspicious on OpenSea\n🔞 NSFW image hidden\n${accountNFT.description}`
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import fetchMock from "jest-fetch-mock";
+import type { CollectionConfig, Log } from "../../src/lib/types";
+
+const nftFixture = require("../fixtures/opensea/get-nft.json");
+const accountNFTsFixture = require("../fixtures/opensea/get-nfts-by-account.json");
+
+const glyphbotsCollection: CollectionConfig = {
+  prefix: "",
+  address: "0xb6c2c2d2999c1b532e089a7ad4cb7f8c91cf5075",
+  name: "GlyphBots",
+  chain: "ethereum",
+  minTokenId: 1,
+  maxTokenId: 10_735,
+};
+
+/**
+ * Route OpenSea requests, answering account NFT pages with the given bodies
+ */
+const mockOpenSea = (accountNFTPages: unknown[]) => {
+  let page = 0;
+  fetchMock.mockResponse((request) => {
+    const { url } = request;
+    if (url.includes("/account/")) {
+      const body = accountNFTPages.at(page);
+      page += 1;
+      return Promise.resolve(
+        body ? JSON.stringify(body) : { status: 500, body: "" }
+      );
+    }
+    if (url.endsWith("/nfts/1")) {
+      return Promise.resolve(JSON.stringify(nftFixture));
+    }
+    if (url.endsWith("/contract/0xb6c2c2d2999c1b532e089a7ad4cb7f8c91cf5075")) {
+      return Promise.resolve(JSON.stringify({ collection: "glyphbots" }));
+    }
+    if (url.includes("/accounts/")) {
+      return Promise.resolve(JSON.stringify({ username: "vector" }));
+    }
+    return Promise.resolve({ status: 404, body: "" });
+  });
+};
+
+const getOwnerValue = async (): Promise<string | undefined> => {
+  const { buildEmbed } = jest.requireActual("../../src/embed/embed");
+  const log: Log = [];
+  const built = await buildEmbed(glyphbotsCollection, 1, log);
+  return built.embed
+    .toJSON()
+    .fields?.find((f: { name: string }) => f.name === "Owner")?.value;
+};
+
+describe("owner field", () => {
+  beforeEach(() => {
+    jest.resetModules();
+    fetchMock.resetMocks();
+  });
+
+  it("shows how many tokens of the collection the owner holds", async () => {
+    const { nfts } = accountNFTsFixture;
+    mockOpenSea([
+      { nfts, next: "cursor-1" },
+      { nfts: nfts.slice(0, 1), next: null },
+    ]);
+
+    expect(await getOwnerValue()).toBe(`vector (holds ${nfts.length + 1})`);
+    const accountUrls = fetchMock.mock.calls
+      .map(([url]) => String(url))
+      .filter((url) => url.includes("/account/"));
+    expect(accountUrls).toHaveLength(2);
+    expect(accountUrls[1]).toContain("collection=glyphbots");
+    expect(accountUrls[1]).toContain("next=cursor-1");
+  });
+
+  it("shows just the owner when holdings can't be fetched", async () => {
+    mockOpenSea([]);
+
+    expect(await getOwnerValue()).toBe("vector");
+  });
+});
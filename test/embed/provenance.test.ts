@@ -0,0 +1,167 @@
+import fetchMock from "jest-fetch-mock";
+import type { CollectionConfig, Log } from "../../src/lib/types";
+
+const nftFixture = require("../fixtures/opensea/get-nft.json");
+
+const collection: CollectionConfig = {
+  prefix: "art",
+  address: "0xabc",
+  name: "Art",
+  chain: "ethereum",
+  minTokenId: 1,
+  maxTokenId: 100,
+};
+
+const ZERO = "0x0000000000000000000000000000000000000000";
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const CAROL = "0x3333333333333333333333333333333333333333";
+
+const DAY = 86_400;
+const MINTED_AT = 1_700_000_000;
+
+const transfer = (from: string, to: string, time: number, tx: string) => ({
+  event_type: "transfer",
+  event_timestamp: time,
+  from_address: from,
+  to_address: to,
+  transaction: tx,
+});
+
+const sale = (seller: string, buyer: string, time: number, tx: string) => ({
+  event_type: "sale",
+  payment: { quantity: "420000000000000000", decimals: 18, symbol: "ETH" },
+  closing_date: time,
+  seller,
+  buyer,
+  transaction: tx,
+});
+
+/**
+ * Mock OpenSea responses for a token's NFT, events (one page each) and accounts
+ */
+const mockOpenSea = (pages: { asset_events: unknown[]; next?: string }[]) => {
+  let page = 0;
+  fetchMock.mockResponse((request) => {
+    if (request.url.includes("/events/")) {
+      const body = pages.at(page) ?? { asset_events: [] };
+      page += 1;
+      return Promise.resolve(JSON.stringify(body));
+    }
+    if (request.url.includes(`/accounts/${ALICE}`)) {
+      return Promise.resolve(JSON.stringify({ username: "alice" }));
+    }
+    if (request.url.includes(`/accounts/${BOB}`)) {
+      return Promise.resolve(JSON.stringify({ username: "bob" }));
+    }
+    if (request.url.includes("/accounts/")) {
+      return Promise.resolve(JSON.stringify({ username: "" }));
+    }
+    return Promise.resolve(JSON.stringify(nftFixture));
+  });
+};
+
+describe("buildProvenanceEmbed", () => {
+  beforeEach(() => {
+    jest.resetModules();
+    fetchMock.resetMocks();
+  });
+
+  it("lists the minter, owners and sales oldest first", async () => {
+    // Newest first, as OpenSea returns them; the sale has its own transfer
+    mockOpenSea([
+      {
+        asset_events: [
+          transfer(BOB, CAROL, MINTED_AT + 100 * DAY, "0xc"),
+          sale(ALICE, BOB, MINTED_AT + 10 * DAY, "0xb"),
+          transfer(ALICE, BOB, MINTED_AT + 10 * DAY, "0xb"),
+        ],
+        next: "cursor-1",
+      },
+      { asset_events: [transfer(ZERO, ALICE, MINTED_AT, "0xa")] },
+    ]);
+    const { buildProvenanceEmbed } = require("../../src/embed/provenance");
+    const log: Log = [];
+
+    const built = await buildProvenanceEmbed(collection, 5, log);
+    const embed = built.embed.toJSON();
+
+    expect(embed.title).toBe("Art #5 Provenance");
+    const lines = embed.description.split("\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toBe("`2023-11-14` Minted by **alice** · held 10d");
+    expect(lines[1]).toBe(
+      "`2023-11-24` Sold to **bob** for 0.42 ETH · held 2mo"
+    );
+    expect(lines[2]).toContain(
+      "`2024-02-22` Transferred to **0x33333…33333** · holding "
+    );
+    expect(embed.fields).toEqual([
+      { name: "Owners", value: "3", inline: true },
+      { name: "Sales", value: "1", inline: true },
+      { name: "Transfers", value: "1", inline: true },
+      { name: "Minted", value: "Nov '23", inline: true },
+    ]);
+    expect(embed.footer).toBeUndefined();
+
+    const eventUrls = fetchMock.mock.calls
+      .map(([url]) => String(url))
+      .filter((url) => url.includes("/events/"));
+    expect(eventUrls).toHaveLength(2);
+    expect(eventUrls[0]).toContain("event_type=sale&event_type=transfer");
+    expect(eventUrls[1]).toContain("next=cursor-1");
+  });
+
+  it("keeps the mint and latest events in long timelines", async () => {
+    const { PROVENANCE_MAX_ENTRIES } = require("../../src/config/constants");
+    const transfers = Array.from({ length: 20 }, (_, i) =>
+      transfer(ALICE, BOB, MINTED_AT + (i + 1) * DAY, `0x${i}`)
+    ).reverse();
+    mockOpenSea([
+      { asset_events: [...transfers, transfer(ZERO, ALICE, MINTED_AT, "0xa")] },
+    ]);
+    const { buildProvenanceEmbed } = require("../../src/embed/provenance");
+
+    const built = await buildProvenanceEmbed(collection, 5, []);
+    const lines = built.embed.toJSON().description.split("\n");
+
+    expect(lines).toHaveLength(PROVENANCE_MAX_ENTRIES + 1);
+    expect(lines[0]).toContain("Minted by **alice**");
+    expect(lines[1]).toBe(`… ${21 - PROVENANCE_MAX_ENTRIES} more events`);
+    expect(lines.at(-1)).toContain("2023-12-04");
+  });
+
+  it("notes when older events weren't fetched", async () => {
+    const { PROVENANCE_MAX_PAGES } = require("../../src/config/constants");
+    mockOpenSea(
+      Array.from({ length: PROVENANCE_MAX_PAGES }, (_, i) => ({
+        asset_events: [transfer(ALICE, BOB, MINTED_AT - i * DAY, `0x${i}`)],
+        next: "more",
+      }))
+    );
+    const { buildProvenanceEmbed } = require("../../src/embed/provenance");
+
+    const built = await buildProvenanceEmbed(collection, 5, []);
+    const embed = built.embed.toJSON();
+
+    expect(embed.footer?.text).toBe("Older events not shown");
+    // The oldest fetched event isn't the first, and counts are lower bounds
+    const lines = embed.description.split("\n");
+    expect(lines[0]).toBe("… earlier events not shown");
+    expect(lines).toHaveLength(PROVENANCE_MAX_PAGES + 1);
+    expect(embed.fields).toEqual([
+      { name: "Owners", value: "1+", inline: true },
+      { name: "Sales", value: "0+", inline: true },
+      { name: "Transfers", value: `${PROVENANCE_MAX_PAGES}+`, inline: true },
+    ]);
+  });
+
+  it("says when a token has no transfers", async () => {
+    mockOpenSea([]);
+    const { buildProvenanceEmbed } = require("../../src/embed/provenance");
+
+    const built = await buildProvenanceEmbed(collection, 5, []);
+
+    expect(built.embed.toJSON().description).toBe("No transfers yet");
+  });
+});
@@ -0,0 +1,216 @@
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import fetchMock from "jest-fetch-mock";
+import sharp from "sharp";
+import type { CollectionConfig } from "../../src/lib/types";
+
+const collection: CollectionConfig = {
+  prefix: "bots",
+  address: "0xB6C2C2D2999C1B532E089A7AD4CB7F8C91CF5075",
+  name: "Bots",
+  chain: "ethereum",
+  minTokenId: 1,
+  maxTokenId: 100,
+};
+
+const RED_SQUARE =
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 4 4"><rect width="4" height="4" fill="red"/></svg>';
+const TEXT_SVG =
+  '<svg xmlns="http://www.w3.org/2000/svg" width="100%" viewBox="0 0 8 4"><text y="3">hi</text></svg>';
+const NOT_SVG = "<html><body>Not found</body></html>";
+
+/**
+ * Decode a PNG to its size and first pixel
+ */
+const decode = async (png: Buffer) => {
+  const { data, info } = await sharp(png)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return {
+    width: info.width,
+    height: info.height,
+    pixel: [...data.subarray(0, 4)],
+  };
+};
+
+describe("svg images", () => {
+  const originalEnv = process.env;
+  let stateDir: string;
+
+  beforeEach(() => {
+    jest.resetModules();
+    stateDir = mkdtempSync(join(tmpdir(), "svg-renders-"));
+    process.env = {
+      ...originalEnv,
+      SVG_RENDER_SIZE: "16",
+      STATE_DIR: stateDir,
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  describe("parseRenderSize", () => {
+    it("parses pixels, capped at the largest size", () => {
+      const { parseRenderSize } = require("../../src/embed/svg");
+
+      expect(parseRenderSize(undefined)).toBe(0);
+      expect(parseRenderSize("512")).toBe(512);
+      expect(parseRenderSize("100000")).toBe(2048);
+      expect(parseRenderSize("big")).toBe(0);
+    });
+  });
+
+  describe("renderSvgImage", () => {
+    it("renders an SVG URL to a PNG at the configured size", async () => {
+      fetchMock.mockResponseOnce(RED_SQUARE);
+      const { renderSvgImage } = require("../../src/embed/svg");
+
+      const png = await renderSvgImage(
+        "https://example.com/1.svg",
+        collection,
+        1
+      );
+
+      const image = await decode(png);
+      expect(image.width).toBe(16);
+      expect(image.pixel).toEqual([255, 0, 0, 255]);
+      // .svg URLs are downloaded without checking the type first
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("caches renders on disk by contract and token ID", async () => {
+      fetchMock.mockResponseOnce(RED_SQUARE);
+      const { renderSvgImage } = require("../../src/embed/svg");
+
+      const first = await renderSvgImage(
+        "https://example.com/1.svg",
+        collection,
+        1
+      );
+      const path = join(
+        stateDir,
+        "svg",
+        "ethereum-0xb6c2c2d2999c1b532e089a7ad4cb7f8c91cf5075-1-16.png"
+      );
+      expect(existsSync(path)).toBe(true);
+
+      // A restarted bot uses the file without downloading the SVG again
+      fetchMock.mockClear();
+      jest.resetModules();
+      const { renderSvgImage: renderAgain } = require("../../src/embed/svg");
+      const second = await renderAgain(
+        "https://example.com/1.svg",
+        collection,
+        1
+      );
+      expect(second).toEqual(first);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("renders SVG data URIs without fetching", async () => {
+      const { renderSvgImage } = require("../../src/embed/svg");
+      const uri = `data:image/svg+xml;base64,${Buffer.from(RED_SQUARE).toString("base64")}`;
+
+      expect(await renderSvgImage(uri, collection, 2)).toBeDefined();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("checks the content type of URLs without an extension", async () => {
+      fetchMock.mockResponses(
+        ["", { headers: { "content-type": "image/svg+xml; charset=utf-8" } }],
+        RED_SQUARE,
+        ["", { headers: { "content-type": "image/png" } }]
+      );
+      const { renderSvgImage } = require("../../src/embed/svg");
+
+      expect(
+        await renderSvgImage("https://api.example.com/image/3", collection, 3)
+      ).toBeDefined();
+      expect(fetchMock.mock.calls[0][1]?.method).toBe("HEAD");
+
+      expect(
+        await renderSvgImage("https://api.example.com/image/4", collection, 4)
+      ).toBeUndefined();
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("skips raster images and does nothing when disabled", async () => {
+      const { renderSvgImage } = require("../../src/embed/svg");
+      expect(
+        await renderSvgImage("https://example.com/1.png?w=500", collection, 1)
+      ).toBeUndefined();
+
+      jest.resetModules();
+      process.env = { ...originalEnv, STATE_DIR: stateDir };
+      const { renderSvgImage: disabled } = require("../../src/embed/svg");
+      expect(
+        await disabled("https://example.com/1.svg", collection, 1)
+      ).toBeUndefined();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("renders SVGs with text at the longer side's size", async () => {
+      fetchMock.mockResponseOnce(TEXT_SVG);
+      const { renderSvgImage } = require("../../src/embed/svg");
+
+      const png = await renderSvgImage(
+        "https://example.com/6.svg",
+        collection,
+        6
+      );
+
+      expect(await decode(png)).toMatchObject({ width: 16, height: 8 });
+    });
+
+    it("skips SVGs over the size limit without a content-length", async () => {
+      const { SVG_MAX_BYTES } = jest.requireActual(
+        "../../src/config/constants"
+      );
+      // Would render if it were read in full
+      const padding = `<!--${"x".repeat(SVG_MAX_BYTES)}-->`;
+      fetchMock.mockResponseOnce(
+        RED_SQUARE.replace("</svg>", `${padding}</svg>`)
+      );
+      const { renderSvgImage } = require("../../src/embed/svg");
+
+      expect(
+        await renderSvgImage("https://example.com/5.svg", collection, 5)
+      ).toBeUndefined();
+    });
+
+    it("remembers SVGs that can't be rendered", async () => {
+      fetchMock.mockResponse(NOT_SVG);
+      const { renderSvgImage } = require("../../src/embed/svg");
+
+      for (const _ of [1, 2]) {
+        expect(
+          await renderSvgImage("https://example.com/5.svg", collection, 5)
+        ).toBeUndefined();
+      }
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("fetchSvgAttachment", () => {
+    it("names the PNG like the token's other media", async () => {
+      fetchMock.mockResponseOnce(RED_SQUARE);
+      const { fetchSvgAttachment } = require("../../src/embed/svg");
+
+      const attachment = await fetchSvgAttachment(
+        "ipfs://QmSvg/7.svg",
+        collection,
+        7
+      );
+
+      expect(attachment?.name).toBe("bots-7.png");
+      expect(String(fetchMock.mock.calls[0][0])).toBe(
+        "https://ipfs.io/ipfs/QmSvg/7.svg"
+      );
+    });
+  });
+});
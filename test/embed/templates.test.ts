@@ -0,0 +1,204 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import fetchMock from "jest-fetch-mock";
+import type { CollectionConfig, Log } from "../../src/lib/types";
+
+const nftFixture = require("../fixtures/opensea/get-nft.json");
+const eventsFixture = require("../fixtures/opensea/get-events-sale.json");
+const bestOfferFixture = require("../fixtures/opensea/get-best-offer-by-nft.json");
+
+const collection = (prefix: string): CollectionConfig => ({
+  prefix,
+  address: "0xb6c2c2d2999c1b532e089a7ad4cb7f8c91cf5075",
+  name: "GlyphBots",
+  chain: "ethereum",
+  minTokenId: 1,
+  maxTokenId: 10_735,
+});
+
+describe("parseTemplate", () => {
+  const { parseTemplate, DEFAULT_TEMPLATE } = jest.requireActual(
+    "../../src/config/templates"
+  );
+
+  it("parses string and object fields", () => {
+    const template = parseTemplate("art", {
+      fields: [
+        "editions",
+        "trait:Background",
+        "property:token_standard",
+        { field: "owner", label: "Held by", inline: false },
+        { trait: "Eyes", label: "Peepers" },
+      ],
+      title: "{name} ({id})",
+    });
+
+    expect(template.fields).toEqual([
+      { kind: "builtIn", name: "editions" },
+      { kind: "trait", traitType: "Background" },
+      { kind: "property", property: "token_standard" },
+      { kind: "builtIn", name: "owner", label: "Held by", inline: false },
+      { kind: "trait", traitType: "Eyes", label: "Peepers" },
+    ]);
+    expect(template.title).toBe("{name} ({id})");
+    expect(template.footer).toBeUndefined();
+  });
+
+  it("skips unknown fields and keeps the standard fields when unset", () => {
+    expect(parseTemplate("art", { fields: ["owner", "nope"] }).fields).toEqual([
+      { kind: "builtIn", name: "owner" },
+    ]);
+    expect(parseTemplate("art", { footer: "{collection}" })).toEqual({
+      fields: DEFAULT_TEMPLATE.fields,
+      title: "{collection} #{id}",
+      footer: "{collection}",
+    });
+  });
+
+  it("fills in title and footer placeholders", () => {
+    const { formatTemplateText } = jest.requireActual(
+      "../../src/config/templates"
+    );
+    expect(
+      formatTemplateText("{collection} #{id} - {name}", {
+        collection: "GlyphBots",
+        id: 5,
+        name: "Vector",
+      })
+    ).toBe("GlyphBots #5 - Vector");
+    expect(
+      formatTemplateText("#{id} {name}", { collection: "GlyphBots", id: 5 })
+    ).toBe("#5");
+  });
+});
+
+describe("embed templates", () => {
+  const originalEnv = process.env;
+  let dir: string;
+
+  beforeEach(() => {
+    jest.resetModules();
+    dir = mkdtempSync(join(tmpdir(), "templates-"));
+    const path = join(dir, "templates.json");
+    writeFileSync(
+      path,
+      JSON.stringify({
+        default: {
+          fields: [
+            { field: "lastSale", label: "Sold" },
+            "trait:eyes",
+            "property:token_standard",
+            "traits",
+          ],
+          title: "{name}",
+          footer: "{collection} #{id}",
+        },
+        pfp: { fields: ["owner", "offer"] },
+        plain: { fields: ["editions"] },
+      })
+    );
+    process.env = {
+      ...originalEnv,
+      COLLECTION_TEMPLATES: path,
+      COLLECTIONS: `${collection("").address}:GlyphBots:1:10735,pfp:${collection("pfp").address}:GlyphBots:1:10735,plain:${collection("plain").address}:GlyphBots:1:10735`,
+    };
+    jest.requireActual("../../src/config/collection").initCollections();
+
+    fetchMock.mockResponse((request) => {
+      const { url } = request;
+      if (url.includes("/events/")) {
+        return Promise.resolve(JSON.stringify(eventsFixture));
+      }
+      if (url.includes("/offers/")) {
+        // A token offer (the fixture is collection-wide, which isn't shown)
+        return Promise.resolve(
+          JSON.stringify({ ...bestOfferFixture, criteria: undefined })
+        );
+      }
+      if (url.endsWith("/nfts/1")) {
+        return Promise.resolve(JSON.stringify(nftFixture));
+      }
+      if (
+        url.endsWith("/contract/0xb6c2c2d2999c1b532e089a7ad4cb7f8c91cf5075")
+      ) {
+        return Promise.resolve(JSON.stringify({ collection: "glyphbots" }));
+      }
+      if (url.includes("/accounts/")) {
+        return Promise.resolve(JSON.stringify({ username: "vitalik" }));
+      }
+      return Promise.resolve({ status: 404, body: "" });
+    });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it("lays out fields, title and footer from the template", async () => {
+    const { buildEmbed } = jest.requireActual("../../src/embed/embed");
+    const log: Log = [];
+
+    const built = await buildEmbed(collection(""), 1, log);
+    const embed = built.embed.toJSON();
+
+    expect(embed.title).toBe("Vector the Kind");
+    expect(embed.footer?.text).toBe("GlyphBots #1");
+    const names = embed.fields.map((f: { name: string }) => f.name);
+    expect(names.slice(0, 4)).toEqual([
+      "Sold",
+      "Eyes",
+      "token_standard",
+      "Hat",
+    ]);
+    // Templates listing traits show all of them without COLLECTION_TRAITS
+    expect(names).toHaveLength(3 + nftFixture.nft.traits.length);
+    expect(embed.fields[2].value).toBe("erc721");
+    // Offers and listings aren't fetched when the template doesn't show them
+    const urls = fetchMock.mock.calls.map(([url]) => String(url));
+    expect(urls.some((url) => url.includes("/offers/"))).toBe(false);
+    expect(urls.some((url) => url.includes("/listings/"))).toBe(false);
+  });
+
+  it("keeps the standard title without a title format", async () => {
+    const { buildEmbed } = jest.requireActual("../../src/embed/embed");
+
+    const built = await buildEmbed(collection("pfp"), 1, []);
+    const embed = built.embed.toJSON();
+
+    expect(embed.title).toBe("GlyphBots #1");
+    expect(embed.footer).toBeUndefined();
+    expect(embed.fields.map((f: { name: string }) => f.name)).toEqual([
+      "Owner",
+      "Best Offer",
+    ]);
+  });
+
+  it("only fetches the floor when a field uses it", async () => {
+    const { buildEmbed } = jest.requireActual("../../src/embed/embed");
+    const statsFetched = () =>
+      fetchMock.mock.calls.some(([url]) => String(url).endsWith("/stats"));
+
+    await buildEmbed(collection("plain"), 1, []);
+    expect(statsFetched()).toBe(false);
+
+    await buildEmbed(collection("pfp"), 1, []);
+    expect(statsFetched()).toBe(true);
+  });
+
+  it("doesn't apply a prefix's template to another contract", () => {
+    const { getEmbedTemplate, DEFAULT_TEMPLATE } = jest.requireActual(
+      "../../src/config/templates"
+    );
+
+    // e.g. a guild collection reusing the "pfp" prefix
+    const other = { ...collection("pfp"), address: "0x123" };
+
+    expect(getEmbedTemplate(other)).toBe(DEFAULT_TEMPLATE);
+    expect(getEmbedTemplate(collection("pfp"))).not.toBe(DEFAULT_TEMPLATE);
+  });
+});
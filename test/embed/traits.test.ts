@@ -0,0 +1,140 @@
+import type { CollectionConfig } from "../../src/lib/types";
+
+const collection = (prefix: string): CollectionConfig => ({
+  prefix,
+  address: "0xabc",
+  name: "Test",
+  chain: "ethereum",
+  minTokenId: 1,
+  maxTokenId: 100,
+});
+
+describe("formatTraitValue", () => {
+  const { formatTraitValue } = jest.requireActual("../../src/embed/embed");
+
+  it("formats plain string traits", () => {
+    expect(formatTraitValue({ trait_type: "Eyes", value: "Laser" })).toBe(
+      "Laser"
+    );
+  });
+
+  it("formats numbers with a max value", () => {
+    expect(
+      formatTraitValue({
+        trait_type: "Level",
+        value: 5,
+        display_type: "number",
+        max_value: 10,
+      })
+    ).toBe("5 of 10");
+    expect(
+      formatTraitValue({
+        trait_type: "Level",
+        value: 5,
+        display_type: "number",
+      })
+    ).toBe("5");
+  });
+
+  it("formats boost values with a sign", () => {
+    expect(
+      formatTraitValue({
+        trait_type: "Power",
+        value: 3,
+        display_type: "boost_number",
+      })
+    ).toBe("+3");
+    expect(
+      formatTraitValue({
+        trait_type: "Speed",
+        value: 10,
+        display_type: "boost_percentage",
+      })
+    ).toBe("+10%");
+    expect(
+      formatTraitValue({
+        trait_type: "Speed",
+        value: -5,
+        display_type: "boost_percentage",
+      })
+    ).toBe("-5%");
+  });
+
+  it("formats dates as Discord timestamps", () => {
+    expect(
+      formatTraitValue({
+        trait_type: "Born",
+        value: 1_700_000_000,
+        display_type: "date",
+      })
+    ).toBe("<t:1700000000:D>");
+    expect(
+      formatTraitValue({
+        trait_type: "Born",
+        value: "soon",
+        display_type: "date",
+      })
+    ).toBe("soon");
+  });
+});
+
+describe("parseCollectionOptions", () => {
+  const { parseCollectionOptions } = jest.requireActual(
+    "../../src/config/collection-options"
+  );
+
+  it("parses prefix=value entries", () => {
+    const options = parseCollectionOptions("TEST", "default=*, art=Eyes+Mouth");
+    expect(options.get("")).toBe("*");
+    expect(options.get("art")).toBe("Eyes+Mouth");
+  });
+
+  it("skips invalid entries", () => {
+    const options = parseCollectionOptions("TEST", "nope,=x,art=,ok=1");
+    expect([...options.keys()]).toEqual(["ok"]);
+  });
+
+  it("returns an empty map when unset", () => {
+    expect(parseCollectionOptions("TEST", undefined).size).toBe(0);
+  });
+});
+
+describe("getTraitFilter", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = {
+      ...originalEnv,
+      COLLECTION_TRAITS: "default=*,art=Background + Eyes,0xDEF=Hat",
+      COLLECTIONS: "0xabc:Test:1:100,art:0xabc:Test:1:100",
+    };
+    jest.requireActual("../../src/config/collection").initCollections();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it("returns the configured filter per collection", () => {
+    const { getTraitFilter } = jest.requireActual(
+      "../../src/config/collection-options"
+    );
+    expect(getTraitFilter(collection(""))).toBe("all");
+    expect(getTraitFilter(collection("art"))).toEqual(["Background", "Eyes"]);
+    expect(getTraitFilter(collection("other"))).toBeUndefined();
+  });
+
+  it("matches prefixes by contract and also accepts contract addresses", () => {
+    const { getTraitFilter } = jest.requireActual(
+      "../../src/config/collection-options"
+    );
+    // e.g. a guild collection reusing the "art" prefix
+    expect(
+      getTraitFilter({ ...collection("art"), address: "0x123" })
+    ).toBeUndefined();
+    expect(getTraitFilter({ ...collection("mine"), address: "0xdef" })).toEqual(
+      ["Hat"]
+    );
+  });
+});
@@ -0,0 +1,35 @@
+import sharp from "sharp";
+import { renderPriceChart } from "../../src/lib/chart";
+
+describe("renderPriceChart", () => {
+  it("renders a PNG of the requested size", async () => {
+    const png = await renderPriceChart(
+      [
+        { time: 1_700_000_000, price: 0.5 },
+        { time: 1_700_100_000, price: 0.8 },
+        { time: 1_700_050_000, price: 0.2 },
+      ],
+      { width: 200, height: 100, color: "#ff0000" }
+    );
+    const { format, width, height } = await sharp(png).metadata();
+
+    expect(format).toBe("png");
+    expect(width).toBe(200);
+    expect(height).toBe(100);
+  });
+
+  it("renders charts with one point or none", async () => {
+    expect(
+      (await renderPriceChart([{ time: 1_700_000_000, price: 1 }])).length
+    ).toBeGreaterThan(0);
+    expect((await renderPriceChart([])).length).toBeGreaterThan(0);
+  });
+
+  it("ignores invalid colors", async () => {
+    const png = await renderPriceChart([{ time: 1_700_000_000, price: 1 }], {
+      color: '"/><script/>',
+    });
+
+    expect((await sharp(png).metadata()).format).toBe("png");
+  });
+});
@@ -0,0 +1,48 @@
+import sharp from "sharp";
+import { collageLayout, renderCollage } from "../../src/lib/collage";
+
+describe("collage", () => {
+  it("lays tiles out in a near-square grid", () => {
+    expect(collageLayout(1)).toEqual({ columns: 1, rows: 1 });
+    expect(collageLayout(4)).toEqual({ columns: 2, rows: 2 });
+    expect(collageLayout(5)).toEqual({ columns: 3, rows: 2 });
+    expect(collageLayout(9)).toEqual({ columns: 3, rows: 3 });
+    expect(collageLayout(25)).toEqual({ columns: 5, rows: 5 });
+  });
+
+  it("draws images and labels into each tile", async () => {
+    const red = await sharp({
+      create: { width: 2, height: 1, channels: 3, background: "#ff0000" },
+    })
+      .jpeg()
+      .toBuffer();
+    const png = await renderCollage(
+      [
+        { label: "#1", image: red },
+        { label: "#22" },
+        { label: "#333", image: Buffer.from("not an image") },
+      ],
+      { tileSize: 40 }
+    );
+    const { data, info } = await sharp(png)
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    // 2x2 grid of 40px tiles with 4px gaps
+    expect(info.width).toBe(92);
+    expect(info.height).toBe(92);
+    const pixel = (x: number, y: number) => {
+      const offset = (y * info.width + x) * info.channels;
+      return [...data.subarray(offset, offset + 3)];
+    };
+    // Top of the first tile is the image (JPEG colors are approximate)
+    const [r, g, b] = pixel(10, 10);
+    expect(r).toBeGreaterThan(240);
+    expect(g + b).toBeLessThan(20);
+    // Tiles without images, or with images that can't be decoded, are placeholders
+    expect(pixel(54, 10)).toEqual([47, 49, 54]);
+    expect(pixel(10, 54)).toEqual([47, 49, 54]);
+    // Labels sit on a black strip at the bottom-left of each tile
+    expect(pixel(5, 43)).toEqual([0, 0, 0]);
+  });
+});
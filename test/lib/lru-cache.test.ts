@@ -223,4 +223,40 @@ describe("LRUCache", () => {
       expect(() => new LRUCache(-1)).toThrow("capacity must be positive");
     });
   });
+
+  describe("TTL", () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("expires items after the TTL", () => {
+      jest.useFakeTimers();
+      const cache = new LRUCache<string, number>(10, 1000);
+
+      cache.put("a", 1);
+      jest.advanceTimersByTime(999);
+      expect(cache.get("a")).toBe(1);
+
+      jest.advanceTimersByTime(1);
+      expect(cache.has("a")).toBe(false);
+      expect(cache.get("a")).toBeUndefined();
+      expect(cache.size).toBe(0);
+    });
+
+    it("restarts the TTL when an item is put again", () => {
+      jest.useFakeTimers();
+      const cache = new LRUCache<string, number>(10, 1000);
+
+      cache.put("a", 1);
+      jest.advanceTimersByTime(800);
+      cache.put("a", 2);
+      jest.advanceTimersByTime(800);
+
+      expect(cache.get("a")).toBe(2);
+    });
+
+    it("throws error for non-positive TTL", () => {
+      expect(() => new LRUCache(10, 0)).toThrow("TTL must be positive");
+    });
+  });
 });
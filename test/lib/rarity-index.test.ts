@@ -0,0 +1,58 @@
+import { RarityIndex } from "../../src/lib/rarity-index";
+
+const trait = (trait_type: string, value: string | number) => ({
+  trait_type,
+  value,
+});
+
+describe("RarityIndex", () => {
+  const buildIndex = (): RarityIndex => {
+    const index = new RarityIndex();
+    index.add(1, [trait("Eyes", "Laser"), trait("Hat", "Crown")]);
+    index.add(2, [trait("Eyes", "Normal")]);
+    index.add(3, [trait("Eyes", "Normal")]);
+    index.add(4, [trait("Eyes", "Normal"), trait("Hat", "Cap")]);
+    return index;
+  };
+
+  it("computes trait percentages", () => {
+    const index = buildIndex();
+    expect(index.size).toBe(4);
+    expect(index.traitPercent(trait("Eyes", "Normal"))).toBe(75);
+    expect(index.traitPercent(trait("eyes", "laser"))).toBe(25);
+    expect(index.traitPercent(trait("Eyes", "Gold"))).toBeUndefined();
+  });
+
+  it("ranks tokens with rarer traits first", () => {
+    const index = buildIndex();
+    expect(index.rank(1)).toBe(1);
+    expect(index.rank(4)).toBe(2);
+    // Tokens with identical traits share a rank
+    expect(index.rank(2)).toBe(3);
+    expect(index.rank(3)).toBe(3);
+    expect(index.rank(99)).toBeUndefined();
+  });
+
+  it("ignores numeric traits when ranking", () => {
+    const index = new RarityIndex();
+    index.add(1, [
+      trait("Eyes", "Normal"),
+      { trait_type: "Level", value: 1, display_type: "number" },
+    ]);
+    index.add(2, [trait("Eyes", "Normal")]);
+    index.add(3, [trait("Eyes", "Laser")]);
+
+    expect(index.rank(3)).toBe(1);
+    expect(index.rank(1)).toBe(2);
+    expect(index.rank(2)).toBe(2);
+  });
+
+  it("updates ranks when a token is replaced", () => {
+    const index = buildIndex();
+    index.add(1, [trait("Eyes", "Normal")]);
+
+    expect(index.size).toBe(4);
+    expect(index.rank(4)).toBe(1);
+    expect(index.traitPercent(trait("Eyes", "Laser"))).toBeUndefined();
+  });
+});
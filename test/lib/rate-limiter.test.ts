@@ -0,0 +1,51 @@
+import { RateLimiter } from "../../src/lib/rate-limiter";
+
+describe("RateLimiter", () => {
+  it("allows requests up to capacity, then reports the wait", () => {
+    const limiter = new RateLimiter(3, 3000);
+
+    expect(limiter.retryAfter("user", 1, 0)).toBe(0);
+    limiter.consume("user", 1, 0);
+    expect(limiter.retryAfter("user", 2, 0)).toBe(0);
+    limiter.consume("user", 2, 0);
+    // Empty bucket refills one token per second
+    expect(limiter.retryAfter("user", 1, 0)).toBe(1000);
+  });
+
+  it("refills tokens over time", () => {
+    const limiter = new RateLimiter(2, 2000);
+
+    limiter.consume("user", 2, 0);
+    expect(limiter.retryAfter("user", 1, 500)).toBe(500);
+    expect(limiter.retryAfter("user", 1, 1000)).toBe(0);
+  });
+
+  it("tracks keys independently", () => {
+    const limiter = new RateLimiter(1, 1000);
+
+    limiter.consume("a", 1, 0);
+    expect(limiter.retryAfter("b", 1, 0)).toBe(0);
+    expect(limiter.retryAfter("a", 1, 0)).toBeGreaterThan(0);
+  });
+
+  it("clamps costs above capacity so a full bucket always allows", () => {
+    const limiter = new RateLimiter(2, 2000);
+
+    expect(limiter.retryAfter("user", 6, 0)).toBe(0);
+    limiter.consume("user", 6, 0);
+    expect(limiter.retryAfter("user", 1, 0)).toBe(1000);
+  });
+
+  it("does not consume tokens when checking", () => {
+    const limiter = new RateLimiter(2, 2000);
+
+    limiter.consume("user", 2, 0);
+    limiter.retryAfter("user", 1, 0);
+    expect(limiter.retryAfter("user", 1, 1000)).toBe(0);
+  });
+
+  it("rejects invalid configuration", () => {
+    expect(() => new RateLimiter(0, 1000)).toThrow();
+    expect(() => new RateLimiter(1, 0)).toThrow();
+  });
+});
@@ -3,8 +3,15 @@ import { openseaGet } from "../../src/api/opensea";
 import type { Log } from "../../src/lib/types";
 import {
   formatAmount,
+  formatDuration,
+  formatFloorDifference,
   formatShortDate,
+  getGatewayUrls,
   getHighResImage,
+  getRequestScope,
+  isValidUrl,
+  normalizeMediaUrl,
+  parseGateways,
   pluralize,
 } from "../../src/lib/utils";
 
@@ -45,6 +52,21 @@ describe("utils", () => {
     });
   });
 
+  describe("formatFloorDifference", () => {
+    it("formats prices above the floor", () => {
+      expect(formatFloorDifference(0.42, 0.356)).toBe("+18% vs floor");
+    });
+
+    it("formats prices below the floor", () => {
+      expect(formatFloorDifference(0.3, 0.4)).toBe("-25% vs floor");
+    });
+
+    it("formats prices at the floor", () => {
+      expect(formatFloorDifference(0.4, 0.4)).toBe("at floor");
+      expect(formatFloorDifference(0.401, 0.4)).toBe("at floor");
+    });
+  });
+
   describe("formatShortDate", () => {
     it("formats date with month and year", () => {
       // Use a date in summer to avoid timezone issues with month boundaries
@@ -93,6 +115,153 @@ describe("utils", () => {
     });
   });
 
+  describe("formatDuration", () => {
+    const DAY = 86_400;
+
+    it("formats days, months and years", () => {
+      expect(formatDuration(3600)).toBe("<1d");
+      expect(formatDuration(12 * DAY)).toBe("12d");
+      expect(formatDuration(70 * DAY)).toBe("2mo");
+      expect(formatDuration(366 * DAY)).toBe("1y");
+      expect(formatDuration(800 * DAY)).toBe("2y 2mo");
+    });
+  });
+
+  describe("getGatewayUrls", () => {
+    const CID = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+
+    it("rewrites ipfs://, ar:// and bare CID URLs to each gateway", () => {
+      expect(getGatewayUrls(`ipfs://${CID}/1.png`)).toEqual([
+        `https://ipfs.io/ipfs/${CID}/1.png`,
+        `https://dweb.link/ipfs/${CID}/1.png`,
+      ]);
+      expect(getGatewayUrls(`ipfs://ipfs/${CID}`)).toEqual([
+        `https://ipfs.io/ipfs/${CID}`,
+        `https://dweb.link/ipfs/${CID}`,
+      ]);
+      expect(getGatewayUrls("ar://abc")).toEqual(["https://arweave.net/abc"]);
+      expect(getGatewayUrls(`${CID}/1.png`)[0]).toBe(
+        `https://ipfs.io/ipfs/${CID}/1.png`
+      );
+    });
+
+    it("keeps HTTP gateway URLs first, then the configured gateways", () => {
+      expect(getGatewayUrls(`https://gateway.example.com/ipfs/${CID}`)).toEqual(
+        [
+          `https://gateway.example.com/ipfs/${CID}`,
+          `https://ipfs.io/ipfs/${CID}`,
+          `https://dweb.link/ipfs/${CID}`,
+        ]
+      );
+      expect(getGatewayUrls(`https://ipfs.io/ipfs/${CID}`)).toEqual([
+        `https://ipfs.io/ipfs/${CID}`,
+        `https://dweb.link/ipfs/${CID}`,
+      ]);
+    });
+
+    it("leaves other URLs unchanged", () => {
+      expect(normalizeMediaUrl("https://example.com/1.png")).toBe(
+        "https://example.com/1.png"
+      );
+      expect(normalizeMediaUrl("data:image/png;base64,AAAA")).toBe(
+        "data:image/png;base64,AAAA"
+      );
+    });
+  });
+
+  describe("parseGateways", () => {
+    it("parses gateways in order and adds trailing slashes", () => {
+      expect(
+        parseGateways(
+          "https://a.example.com/ipfs, https://b.example.com/ipfs/",
+          []
+        )
+      ).toEqual(["https://a.example.com/ipfs/", "https://b.example.com/ipfs/"]);
+    });
+
+    it("falls back to the defaults when unset or invalid", () => {
+      expect(parseGateways(undefined, ["https://x/"])).toEqual(["https://x/"]);
+      expect(parseGateways("nope", ["https://x/"])).toEqual(["https://x/"]);
+    });
+  });
+
+  describe("isValidUrl", () => {
+    it("accepts absolute URLs only", () => {
+      expect(isValidUrl("https://ipfs.io/ipfs/")).toBe(true);
+      expect(isValidUrl("http://localhost:8545")).toBe(true);
+      expect(isValidUrl("ipfs.io/ipfs")).toBe(false);
+      expect(isValidUrl("")).toBe(false);
+    });
+  });
+
+  describe("resolveMediaUrl", () => {
+    const originalEnv = process.env;
+    const CID = "QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG";
+
+    beforeEach(() => {
+      jest.resetModules();
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it("uses the first configured gateway without checks", async () => {
+      process.env = {
+        ...originalEnv,
+        IPFS_GATEWAYS:
+          "https://one.example.com/ipfs/,https://two.example.com/ipfs/",
+      };
+      const { resolveMediaUrl } = require("../../src/lib/utils");
+
+      expect(await resolveMediaUrl(`ipfs://${CID}`)).toBe(
+        `https://one.example.com/ipfs/${CID}`
+      );
+      expect(await resolveMediaUrl(undefined)).toBeUndefined();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("falls back to the next reachable gateway when checking", async () => {
+      process.env = {
+        ...originalEnv,
+        IPFS_GATEWAYS:
+          "https://one.example.com/ipfs/,https://two.example.com/ipfs/",
+        CHECK_GATEWAYS: "true",
+      };
+      fetchMock.mockResponses(["", { status: 504 }], ["", { status: 200 }]);
+      const { resolveMediaUrl } = require("../../src/lib/utils");
+
+      expect(await resolveMediaUrl(`ipfs://${CID}`)).toBe(
+        `https://two.example.com/ipfs/${CID}`
+      );
+      expect(fetchMock.mock.calls[0][1]?.method).toBe("HEAD");
+
+      // The reachable gateway is cached
+      expect(await resolveMediaUrl(`ipfs://${CID}`)).toBe(
+        `https://two.example.com/ipfs/${CID}`
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("getRequestScope", () => {
+    it("marks age-restricted channels and their threads as NSFW", () => {
+      const source = { guildId: "1", channelId: "2" };
+
+      expect(getRequestScope({ ...source, channel: { nsfw: true } })).toEqual({
+        guildId: "1",
+        channelId: "2",
+        nsfw: true,
+      });
+      expect(
+        getRequestScope({ ...source, channel: { parent: { nsfw: true } } }).nsfw
+      ).toBe(true);
+      expect(
+        getRequestScope({ guildId: null, channelId: "3", channel: {} })
+      ).toEqual({ guildId: undefined, channelId: "3", nsfw: false });
+    });
+  });
+
   describe("pluralize", () => {
     it("returns singular for count of 1", () => {
       expect(pluralize(1, "item", "items")).toBe("item");
@@ -301,6 +301,98 @@ describe("StateManager", () => {
     });
   });
 
+  describe("replies", () => {
+    it("tracks a reply to a message", async () => {
+      await manager.load();
+      manager.setReply("message1", "channel1", "reply1");
+
+      expect(manager.getReply("message1")).toEqual({
+        channelId: "channel1",
+        replyId: "reply1",
+      });
+      expect(manager.isDirty()).toBe(true);
+    });
+
+    it("returns undefined for untracked messages", async () => {
+      await manager.load();
+      expect(manager.getReply("unknown")).toBeUndefined();
+    });
+
+    it("expires replies after the TTL", async () => {
+      await manager.load();
+      manager.setReply("message1", "channel1", "reply1", -1);
+
+      expect(manager.getReply("message1")).toBeUndefined();
+      expect(manager.getState().replies).toEqual({});
+    });
+
+    it("deletes a tracked reply", async () => {
+      await manager.load();
+      manager.setReply("message1", "channel1", "reply1");
+
+      expect(manager.deleteReply("message1")).toBe(true);
+      expect(manager.deleteReply("message1")).toBe(false);
+      expect(manager.getReply("message1")).toBeUndefined();
+    });
+
+    it("persists replies and prunes expired ones on load", async () => {
+      await manager.load();
+      manager.setReply("message1", "channel1", "reply1");
+      manager.setReply("message2", "channel1", "reply2", -1);
+      await manager.save();
+
+      const newManager = createStateManager({
+        filePath: TEST_STATE_FILE,
+        enablePersistence: true,
+      });
+      await newManager.load();
+
+      expect(newManager.getReply("message1")).toEqual({
+        channelId: "channel1",
+        replyId: "reply1",
+      });
+      expect(Object.keys(newManager.getState().replies)).toEqual(["message1"]);
+    });
+  });
+
+  describe("collectionOverrides", () => {
+    const collection = {
+      prefix: "art",
+      address: "0xdef",
+      name: "ArtNFT",
+      chain: "ethereum",
+      minTokenId: 1,
+      maxTokenId: 50,
+    };
+
+    it("records added and removed collections per guild", async () => {
+      await manager.load();
+      manager.setCollectionOverride("guild1", "art", collection);
+      manager.setCollectionOverride("guild1", "", null);
+
+      expect(manager.getCollectionOverrides()).toEqual({
+        guild1: { art: collection, "": null },
+      });
+      expect(manager.isDirty()).toBe(true);
+    });
+
+    it("persists overrides across restarts", async () => {
+      await manager.load();
+      manager.setCollectionOverride("guild1", "art", collection);
+      await manager.save();
+
+      const newManager = createStateManager({
+        filePath: TEST_STATE_FILE,
+        enablePersistence: true,
+      });
+      await newManager.load();
+
+      expect(newManager.getCollectionOverrides().guild1?.art).toEqual(
+        collection
+      );
+    });
+  });
+
   describe("persistence disabled", () => {
     it("does not save when persistence is disabled", async () => {
       const inMemoryManager = createStateManager({